@@ -0,0 +1,43 @@
+// ランキング API
+// GET: ?mode=&name=&view=top|best&limit= で並べたスコアを返す
+// POST: リプレイ付きのスコアを再シミュレーションで確かめてから登録する
+
+import { randomUUID } from 'crypto'
+import { NextResponse } from 'next/server'
+import { DEFAULT_SCORE_LIMIT, SCORE_VIEWS, ScoreView, compareScores, rankScores, toScoreEntry, verifySubmission } from '@/lib/leaderboard/scores'
+import { createScoreStore } from '@/lib/leaderboard/store'
+
+const store = createScoreStore(process.env.SCORES_FILE)
+
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams
+  const view = params.get('view')
+  const limit = Number(params.get('limit') ?? DEFAULT_SCORE_LIMIT)
+
+  const records = await store.list()
+  const entries = records.map(toScoreEntry)
+  const scores = rankScores(entries, {
+    mode: params.get('mode') || undefined,
+    name: params.get('name') || undefined,
+    view: SCORE_VIEWS.includes(view as ScoreView) ? view as ScoreView : 'top',
+    limit: Number.isFinite(limit) ? limit : DEFAULT_SCORE_LIMIT
+  })
+  const modes = Array.from(new Set(entries.map(entry => entry.mode))).sort()
+
+  return NextResponse.json({ scores, modes })
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null)
+  let record
+  try {
+    record = verifySubmission(body, randomUUID(), new Date().toISOString())
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 400 })
+  }
+
+  await store.add(record)
+  const entry = toScoreEntry(record)
+  const rank = (await store.list()).filter(other => other.mode === entry.mode && compareScores(other, entry) < 0).length + 1
+  return NextResponse.json({ entry, rank })
+}
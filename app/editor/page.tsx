@@ -0,0 +1,223 @@
+'use client'
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react'
+import Link from 'next/link'
+import { Button } from "@/components/ui/button"
+import { Board, PairPreview, getPuyoColorClass, getPuyoColorName, puyoStyles } from '@/components/puyo/Board'
+import { ControlAction, PuyoColor, Grid, applyGravity, cloneGrid, createEmptyGrid, getLandingCells, resolveChain } from '@/lib/puyo/engine'
+import { CONTROL_SOUNDS } from '@/lib/puyo/controls'
+import { COLORS, PairColors, randomSeed } from '@/lib/puyo/sequence'
+import { DEFAULT_SCORING_RULE, describeLinkScore } from '@/lib/puyo/scoring'
+import { createFieldState, decodeField, decodePairs, encodeField, encodePairs } from '@/lib/puyo/fieldCode'
+import { useSound } from '@/hooks/useSound'
+import { usePuyoPlayer } from '@/hooks/usePuyoPlayer'
+import { useSettings } from '@/hooks/useSettings'
+import { useChainSimulation } from '@/hooks/useChainSimulation'
+import { useControls } from '@/hooks/useControls'
+import { usePlayerInput } from '@/hooks/usePlayerInput'
+
+// Types
+type EditorMode = 'edit' | 'simulate' | 'play'
+
+// Constants
+const PALETTE: PuyoColor[] = [...COLORS, 'garbage', null]
+
+export default function FieldEditor() {
+  const [mode, setMode] = useState<EditorMode>('edit')
+  const [grid, setGrid] = useState<Grid>(createEmptyGrid)
+  const [pairs, setPairs] = useState<PairColors[]>([])
+  const [paint, setPaint] = useState<PuyoColor>('red')
+  const [message, setMessage] = useState<string | null>(null)
+  const [loaded, setLoaded] = useState(false)
+  const [isGameOver, setIsGameOver] = useState(false)
+  const [settings] = useSettings()
+  const [controls] = useControls()
+  const playSound = useSound(settings)
+
+  // URL の盤面を読み込む
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    try {
+      const field = params.get('f')
+      const next = params.get('n')
+      if (field) setGrid(decodeField(field))
+      if (next) setPairs(decodePairs(next))
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : 'URL を読み込めません')
+    }
+    setLoaded(true)
+  }, [])
+
+  // 編集するたびに URL を書き換えて、そのまま共有できるようにする
+  useEffect(() => {
+    if (!loaded) return
+    const params = new URLSearchParams()
+    const field = encodeField(grid)
+    if (field) params.set('f', field)
+    if (pairs.length > 0) params.set('n', encodePairs(pairs))
+    const query = params.toString()
+    window.history.replaceState(null, '', query ? `?${query}` : window.location.pathname)
+  }, [grid, pairs, loaded])
+
+  const paintCell = (x: number, y: number) => {
+    if (mode !== 'edit') return
+    setGrid(prev => {
+      if (prev[y][x] === paint) return prev
+      const updated = cloneGrid(prev)
+      updated[y][x] = paint
+      return updated
+    })
+  }
+
+  // ツモは色ぷよだけ。消しゴムでクリックすると削除する
+  const paintPair = (index: number, key: keyof PairColors) => {
+    if (paint === null) {
+      setPairs(prev => prev.filter((_, i) => i !== index))
+    } else if (paint !== 'garbage') {
+      setPairs(prev => prev.map((pair, i) => i === index ? { ...pair, [key]: paint } : pair))
+    }
+  }
+
+  const addPair = () => {
+    const color = paint && paint !== 'garbage' ? paint : COLORS[0]
+    setPairs(prev => [...prev, { color1: color, color2: color }])
+  }
+
+  const copyUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      setMessage('URL をコピーしました')
+    } catch {
+      setMessage('URL をコピーできませんでした')
+    }
+  }
+
+  // 連鎖シミュレーション：浮いているぷよを落としてから1段ずつ消す
+  const simulation = useMemo(() => {
+    const settled = applyGravity(grid)
+    const { links } = resolveChain(settled, DEFAULT_SCORING_RULE)
+    return { settled, links }
+  }, [grid])
+  const chain = useChainSimulation(simulation.settled, simulation.links)
+
+  const startSimulation = () => {
+    chain.play()
+    setMode('simulate')
+  }
+
+  const player = usePuyoPlayer({
+    active: mode === 'play' && !isGameOver,
+    lockDelay: settings.lockDelay,
+    playSound,
+    onGameOver: useCallback(() => setIsGameOver(true), [])
+  })
+  const { engine, isAnimating, dispatch } = player
+
+  const startPlay = () => {
+    player.reset(createFieldState(grid, pairs, randomSeed()))
+    setIsGameOver(false)
+    setMode('play')
+  }
+
+  const handleAction = useCallback((action: ControlAction) => {
+    if (mode !== 'play' || isGameOver || isAnimating) return
+    dispatch(action)
+    playSound(CONTROL_SOUNDS[action])
+  }, [mode, isGameOver, isAnimating, dispatch, playSound])
+
+  usePlayerInput({ controls, gamepad: 'any', handling: settings, onAction: handleAction })
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100">
+      <style>{puyoStyles}</style>
+      <h1 className="text-4xl font-bold mb-4">盤面エディタ</h1>
+      <div className="mb-4 flex gap-4 items-center">
+        <Button onClick={() => setMode('edit')} disabled={mode === 'edit'}>編集</Button>
+        <Button onClick={startSimulation}>連鎖シミュレート</Button>
+        <Button onClick={startPlay}>ここから遊ぶ</Button>
+        <Button onClick={copyUrl}>URL をコピー</Button>
+        <Link href="/" className="underline">タイトルへ</Link>
+      </div>
+      {message && <p className="text-gray-600 mb-4">{message}</p>}
+      {mode === 'edit' && (
+        <div className="flex gap-8 select-none">
+          <div className="flex flex-col items-center gap-2">
+            <h2 className="text-xl font-semibold">パレット</h2>
+            {PALETTE.map(color => (
+              <button
+                key={color ?? 'eraser'}
+                onClick={() => setPaint(color)}
+                aria-label={color === null ? '消しゴム' : getPuyoColorName(color)}
+                aria-pressed={paint === color}
+                className={`puyo-cell ${getPuyoColorClass(color)} ${paint === color ? 'ring-4 ring-black' : ''} text-xs`}
+              >
+                {color === null && '消'}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-col items-center">
+            <Board grid={grid} onCellPaint={paintCell} />
+            <div className="mt-2 flex gap-4">
+              <Button onClick={() => setGrid(applyGravity(grid))}>落とす</Button>
+              <Button onClick={() => setGrid(createEmptyGrid())}>全消去</Button>
+            </div>
+          </div>
+          <div className="flex flex-col items-center">
+            <h2 className="text-xl font-semibold mb-2">Next</h2>
+            {pairs.map((pair, index) => (
+              <div key={index} className="flex flex-col mb-2">
+                <button className={`puyo-cell ${getPuyoColorClass(pair.color2)}`} aria-label={`${index + 1}手目の上：${getPuyoColorName(pair.color2)}`} onClick={() => paintPair(index, 'color2')} />
+                <button className={`puyo-cell ${getPuyoColorClass(pair.color1)}`} aria-label={`${index + 1}手目の下：${getPuyoColorName(pair.color1)}`} onClick={() => paintPair(index, 'color1')} />
+              </div>
+            ))}
+            <Button onClick={addPair}>追加</Button>
+          </div>
+        </div>
+      )}
+      {mode === 'simulate' && (
+        <div className="flex flex-col items-center">
+          <div className="mb-4 text-center">
+            <h2 className="text-xl font-semibold">{chain.link?.chain ?? 0}連鎖</h2>
+            <p className="text-sm text-gray-600 h-5">{chain.link && describeLinkScore(DEFAULT_SCORING_RULE, chain.link.score)}</p>
+          </div>
+          <Board grid={chain.grid} />
+          <div className="mt-4 flex gap-4 items-center">
+            <Button onClick={() => chain.stepBy(-1)} disabled={chain.step === 0}>◀</Button>
+            <Button onClick={chain.togglePlaying}>{chain.playing ? '一時停止' : '再生'}</Button>
+            <Button onClick={() => chain.stepBy(1)} disabled={chain.step >= chain.lastStep}>▶</Button>
+            <span>{chain.step} / {chain.lastStep}</span>
+          </div>
+        </div>
+      )}
+      {mode === 'play' && (
+        <div className="flex flex-col items-center">
+          <div className="mb-4 text-center">
+            <h2 className="text-2xl font-semibold">Score: {player.score}</h2>
+            <h3 className="text-xl font-semibold">{player.chainCounter}連鎖</h3>
+            <p className="text-sm text-gray-600 h-5">{player.lastLink && describeLinkScore(engine.scoring, player.lastLink.score)}</p>
+          </div>
+          <div className="flex gap-8">
+            <div className="flex flex-col items-center">
+              <Board
+                grid={player.grid}
+                current={isAnimating ? null : engine.current}
+                animation={player.animation}
+                ghost={settings.showGhost && engine.current && !isAnimating ? getLandingCells(player.grid, engine.current) : undefined}
+                banner={isGameOver ? 'Game Over' : player.allClear ? '全消し！' : undefined}
+              />
+            </div>
+            <div className="flex flex-col items-center">
+              <h2 className="text-2xl font-semibold mb-2">Next</h2>
+              {engine.next.slice(0, 2).map((pair, index) => (
+                <PairPreview key={index} pair={pair} />
+              ))}
+            </div>
+          </div>
+          <div className="mt-4 flex gap-4">
+            <Button onClick={startPlay}>Restart</Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
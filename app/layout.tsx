@@ -1,6 +1,10 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import localFont from "next/font/local";
 import "./globals.css";
+import { SettingsLoader } from "@/components/SettingsLoader";
+import { ServiceWorkerRegistration } from "@/components/ServiceWorkerRegistration";
+import { LocaleScript } from "@/components/LocaleScript";
+import { DEFAULT_LOCALE, translate } from "@/lib/i18n";
 
 const geistSans = localFont({
   src: "./fonts/GeistVF.woff",
@@ -13,9 +17,15 @@ const geistMono = localFont({
   weight: "100 900",
 });
 
+// レイアウトは静的なまま既定の言語で書き出し、実際の言語はクライアントで決める（LocaleScript）
 export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+  title: translate(DEFAULT_LOCALE, "meta.title"),
+  description: translate(DEFAULT_LOCALE, "meta.description"),
+  appleWebApp: { capable: true, title: translate(DEFAULT_LOCALE, "meta.title") },
+};
+
+export const viewport: Viewport = {
+  themeColor: "#1e40af",
 };
 
 export default function RootLayout({
@@ -24,10 +34,15 @@ export default function RootLayout({
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="en">
+    <html lang={DEFAULT_LOCALE} suppressHydrationWarning>
+      <head>
+        <LocaleScript />
+      </head>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
+        <SettingsLoader />
+        <ServiceWorkerRegistration />
         {children}
       </body>
     </html>
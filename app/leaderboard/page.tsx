@@ -0,0 +1,125 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Button } from "@/components/ui/button"
+import {
+  SCORE_VIEWS,
+  ScoreList,
+  ScoreView,
+  describeScoreMode,
+  formatScoreRecord,
+  fetchScores,
+  loadPlayerName
+} from '@/lib/leaderboard/scores'
+
+// Constants
+const VIEW_LABELS: Record<ScoreView, string> = {
+  top: '上位',
+  best: '自己ベスト'
+}
+const LIMIT_OPTIONS = [10, 20, 50, 100]
+
+export default function LeaderboardPage() {
+  const [mode, setMode] = useState('')  // 空欄ならすべてのモード
+  const [view, setView] = useState<ScoreView>('top')
+  const [limit, setLimit] = useState(LIMIT_OPTIONS[1])
+  const [onlyMine, setOnlyMine] = useState(false)
+  const [playerName, setPlayerName] = useState('')
+  const [list, setList] = useState<ScoreList | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setPlayerName(loadPlayerName())
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+    fetchScores({ mode, view, limit, name: onlyMine ? playerName : undefined })
+      .then(result => {
+        if (cancelled) return
+        setList(result)
+        setError(null)
+      })
+      .catch(e => {
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e))
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [mode, view, limit, onlyMine, playerName])
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100">
+      <h1 className="text-4xl font-bold mb-4">ランキング</h1>
+      <div className="mb-4 flex gap-4 items-center flex-wrap justify-center">
+        <label className="flex items-center gap-2">
+          モード:
+          <select value={mode} onChange={(e) => setMode(e.target.value)} className="p-2 border rounded">
+            <option value="">すべて</option>
+            {list?.modes.map(value => (
+              <option key={value} value={value}>{describeScoreMode(value)}</option>
+            ))}
+          </select>
+        </label>
+        {SCORE_VIEWS.map(value => (
+          <Button
+            key={value}
+            onClick={() => setView(value)}
+            className={view === value ? 'ring-2 ring-blue-800' : ''}
+          >
+            {VIEW_LABELS[value]}
+          </Button>
+        ))}
+        <label className="flex items-center gap-2">
+          表示件数:
+          <select value={limit} onChange={(e) => setLimit(Number(e.target.value))} className="p-2 border rounded">
+            {LIMIT_OPTIONS.map(value => (
+              <option key={value} value={value}>{value}件</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={onlyMine}
+            disabled={!playerName}
+            onChange={(e) => setOnlyMine(e.target.checked)}
+          />
+          自分の記録だけ{playerName && `（${playerName}）`}
+        </label>
+        <Link href="/" className="underline">タイトルへ</Link>
+      </div>
+      {error && <p className="text-red-500 mb-4">{error}</p>}
+      {list && list.scores.length === 0 && <p className="text-xl">まだ記録がありません</p>}
+      {list && list.scores.length > 0 && (
+        <table className="bg-white rounded shadow">
+          <thead>
+            <tr className="border-b">
+              <th className="px-4 py-2">順位</th>
+              <th className="px-4 py-2 text-left">名前</th>
+              <th className="px-4 py-2 text-left">モード</th>
+              <th className="px-4 py-2 text-right">記録</th>
+              <th className="px-4 py-2 text-right">スコア</th>
+              <th className="px-4 py-2 text-right">最大連鎖</th>
+              <th className="px-4 py-2">日付</th>
+            </tr>
+          </thead>
+          <tbody>
+            {list.scores.map((entry, index) => (
+              <tr key={entry.id} className={`border-b ${entry.name === playerName ? 'bg-blue-50' : ''}`}>
+                <td className="px-4 py-2 text-center">{index + 1}</td>
+                <td className="px-4 py-2">{entry.name}</td>
+                <td className="px-4 py-2">{describeScoreMode(entry.mode)}</td>
+                <td className="px-4 py-2 text-right">{formatScoreRecord(entry)}</td>
+                <td className="px-4 py-2 text-right">{entry.score}</td>
+                <td className="px-4 py-2 text-right">{entry.maxChain}連鎖</td>
+                <td className="px-4 py-2">{new Date(entry.date).toLocaleDateString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,223 @@
+'use client'
+
+import React, { useState, useEffect, useCallback, useRef } from 'react'
+import Link from 'next/link'
+import { Button } from "@/components/ui/button"
+import { Dialog } from '@/components/ui/dialog'
+import { puyoStyles } from '@/components/puyo/Board'
+import { PlayerField } from '@/components/puyo/PlayerField'
+import { ControlAction, createInitialState } from '@/lib/puyo/engine'
+import { CONTROL_SOUNDS, SPLIT_KEYBOARD_CONTROLS } from '@/lib/puyo/controls'
+import { randomSeed } from '@/lib/puyo/sequence'
+import { useMusic, useSound } from '@/hooks/useSound'
+import { usePuyoPlayer } from '@/hooks/usePuyoPlayer'
+import { useSettings } from '@/hooks/useSettings'
+import { usePlayerInput } from '@/hooks/usePlayerInput'
+
+// Types
+type MatchState = 'title' | 'active' | 'round'
+type InputDevice = 'keyboard' | number // 数値はゲームパッドの番号
+
+// Constants
+const FIRST_TO_OPTIONS = [1, 2, 3, 5]
+const PLAYER_LABELS = ['1P', '2P']
+const GAMEPAD_SLOTS = [0, 1, 2, 3]
+
+export default function LocalMatch() {
+  const [matchState, setMatchState] = useState<MatchState>('title')
+  const [isPaused, setIsPaused] = useState(false)
+  const [firstTo, setFirstTo] = useState(2)
+  const [sharedSeed, setSharedSeed] = useState(true)
+  const [devices, setDevices] = useState<[InputDevice, InputDevice]>(['keyboard', 'keyboard'])
+  const [wins, setWins] = useState([0, 0])
+  const [roundWinner, setRoundWinner] = useState<number | null>(null)
+  const roundOver = useRef(false)
+  const sendTo = useRef<((count: number) => void)[]>([() => {}, () => {}])
+  const [settings] = useSettings()
+  const playSound = useSound(settings)
+
+  const active = matchState === 'active' && !isPaused
+  useMusic(active)
+  const matchWinner = wins.findIndex(count => count >= firstTo)
+
+  const handleGameOver = useCallback((loser: number) => {
+    if (roundOver.current) return
+    roundOver.current = true
+    const winner = 1 - loser
+    setRoundWinner(winner)
+    setWins(prev => prev.map((count, index) => index === winner ? count + 1 : count))
+    setMatchState('round')
+  }, [])
+
+  const player1 = usePuyoPlayer({
+    active,
+    lockDelay: settings.lockDelay,
+    playSound,
+    onGarbage: useCallback((count: number) => sendTo.current[1](count), []),
+    onGameOver: useCallback(() => handleGameOver(0), [handleGameOver])
+  })
+  const player2 = usePuyoPlayer({
+    active,
+    lockDelay: settings.lockDelay,
+    playSound,
+    onGarbage: useCallback((count: number) => sendTo.current[0](count), []),
+    onGameOver: useCallback(() => handleGameOver(1), [handleGameOver])
+  })
+  const players = [player1, player2]
+
+  useEffect(() => {
+    sendTo.current = [player1.receiveGarbage, player2.receiveGarbage]
+  }, [player1.receiveGarbage, player2.receiveGarbage])
+
+  const startRound = () => {
+    const seed = randomSeed()
+    player1.reset(createInitialState(seed))
+    player2.reset(createInitialState(sharedSeed ? seed : randomSeed()))
+    roundOver.current = false
+    setRoundWinner(null)
+    setIsPaused(false)
+    setMatchState('active')
+  }
+
+  const startMatch = () => {
+    setWins([0, 0])
+    startRound()
+  }
+
+  const togglePause = useCallback(() => {
+    setIsPaused(prev => !prev)
+  }, [])
+
+  const { dispatch: dispatch1, isAnimating: animating1 } = player1
+  const { dispatch: dispatch2, isAnimating: animating2 } = player2
+
+  const handleAction1 = useCallback((action: ControlAction) => {
+    if (!active || animating1) return
+    dispatch1(action)
+    playSound(CONTROL_SOUNDS[action])
+  }, [active, animating1, dispatch1, playSound])
+
+  const handleAction2 = useCallback((action: ControlAction) => {
+    if (!active || animating2) return
+    dispatch2(action)
+    playSound(CONTROL_SOUNDS[action])
+  }, [active, animating2, dispatch2, playSound])
+
+  usePlayerInput({
+    controls: devices[0] === 'keyboard' ? SPLIT_KEYBOARD_CONTROLS[0] : null,
+    gamepad: devices[0] === 'keyboard' ? null : devices[0],
+    handling: settings,
+    onAction: handleAction1,
+    onKeyDown: (e) => {
+      if (e.key === 'Escape') togglePause()
+    },
+    onStart: togglePause
+  })
+  usePlayerInput({
+    controls: devices[1] === 'keyboard' ? SPLIT_KEYBOARD_CONTROLS[1] : null,
+    gamepad: devices[1] === 'keyboard' ? null : devices[1],
+    handling: settings,
+    onAction: handleAction2,
+    onStart: togglePause
+  })
+
+  const changeDevice = (player: number, value: string) => {
+    const device: InputDevice = value === 'keyboard' ? 'keyboard' : Number(value)
+    setDevices(prev => player === 0 ? [device, prev[1]] : [prev[0], device])
+  }
+
+  const describeKeys = (player: number) => (
+    Object.entries(SPLIT_KEYBOARD_CONTROLS[player])
+      .map(([action, keys]) => `${action}: ${keys.filter(Boolean).join(' / ')}`)
+      .join('、')
+  )
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100">
+      <style>{puyoStyles}</style>
+      <h1 className="text-4xl font-bold mb-4">2人対戦</h1>
+      {matchState === 'title' && (
+        <div className="text-center flex flex-col items-center gap-2">
+          <div>
+            <Button onClick={startMatch} className="mb-4">マッチ開始</Button>
+            <Link href="/" className="mb-4 ml-4 underline">タイトルへ</Link>
+          </div>
+          <label className="flex items-center gap-2">
+            先取数:
+            <select value={firstTo} onChange={(e) => setFirstTo(Number(e.target.value))} className="p-2 border rounded">
+              {FIRST_TO_OPTIONS.map(count => (
+                <option key={count} value={count}>{count}本先取</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={sharedSeed} onChange={(e) => setSharedSeed(e.target.checked)} />
+            2人に同じツモを配る
+          </label>
+          {PLAYER_LABELS.map((label, index) => (
+            <div key={label} className="flex flex-col items-center">
+              <label className="flex items-center gap-2">
+                {label}:
+                <select
+                  value={String(devices[index])}
+                  onChange={(e) => changeDevice(index, e.target.value)}
+                  className="p-2 border rounded"
+                >
+                  <option value="keyboard">キーボード</option>
+                  {GAMEPAD_SLOTS.map(slot => (
+                    <option key={slot} value={slot}>ゲームパッド{slot + 1}</option>
+                  ))}
+                </select>
+              </label>
+              {devices[index] === 'keyboard' && <p className="text-sm text-gray-500">{describeKeys(index)}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+      {matchState !== 'title' && (
+        <div className="flex flex-col items-center">
+          <p className="text-xl mb-2">{wins[0]} - {wins[1]}（{firstTo}本先取）</p>
+          <div className="flex gap-12">
+            {players.map((player, index) => (
+              <PlayerField key={index} label={PLAYER_LABELS[index]} player={player} wins={wins[index]} showHold />
+            ))}
+          </div>
+          <div className="mt-4 flex gap-4">
+            {matchState === 'active' && <Button onClick={togglePause}>{isPaused ? 'Resume' : 'Pause'}</Button>}
+            <Button onClick={startMatch}>Restart</Button>
+            <Link href="/" className="px-4 py-2 underline">タイトルへ</Link>
+          </div>
+        </div>
+      )}
+      {matchState === 'round' && roundWinner !== null && (
+        <Dialog label="ラウンド結果" className="text-center">
+          {matchWinner >= 0 ? (
+            <>
+              <h2 className="text-3xl font-bold mb-2">{PLAYER_LABELS[matchWinner]} の勝利！</h2>
+              <p className="text-xl mb-4">{wins[0]} - {wins[1]}</p>
+              <div className="flex gap-4 justify-center">
+                <Button onClick={startMatch}>新しいマッチ</Button>
+                <Link href="/" className="px-4 py-2 underline">タイトルへ</Link>
+              </div>
+            </>
+          ) : (
+            <>
+              <h2 className="text-3xl font-bold mb-2">{PLAYER_LABELS[roundWinner]} がラウンドを取りました</h2>
+              <p className="text-xl mb-4">{wins[0]} - {wins[1]}</p>
+              <Button onClick={startRound}>次のラウンド</Button>
+            </>
+          )}
+        </Dialog>
+      )}
+      {isPaused && (
+        <Dialog label="ポーズ">
+          <h2 className="text-3xl font-bold mb-4">Paused</h2>
+          <div className="flex gap-4">
+            <Button onClick={togglePause}>Resume</Button>
+            <Button onClick={startMatch}>Restart</Button>
+          </div>
+        </Dialog>
+      )}
+    </div>
+  )
+}
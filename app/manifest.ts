@@ -0,0 +1,22 @@
+import type { MetadataRoute } from 'next'
+import { DEFAULT_LOCALE, translate } from '@/lib/i18n'
+
+// ホーム画面に追加したときの名前・アイコン・表示方法
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: translate(DEFAULT_LOCALE, 'meta.title'),
+    short_name: translate(DEFAULT_LOCALE, 'meta.title'),
+    description: translate(DEFAULT_LOCALE, 'meta.description'),
+    start_url: '/',
+    display: 'standalone',
+    orientation: 'portrait',
+    background_color: '#f3f4f6',
+    theme_color: '#1e40af',
+    icons: [
+      { src: '/icons/icon-192.png', sizes: '192x192', type: 'image/png' },
+      { src: '/icons/icon-512.png', sizes: '512x512', type: 'image/png' },
+      // ぷよは中央の安全領域に収まっているので、そのままマスク用にも使える
+      { src: '/icons/icon-512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' }
+    ]
+  }
+}
@@ -0,0 +1,129 @@
+'use client'
+
+import React, { useState, useEffect, useCallback, useRef } from 'react'
+import Link from 'next/link'
+import { Button } from "@/components/ui/button"
+import { Board, puyoStyles } from '@/components/puyo/Board'
+import { GarbageIndicator } from '@/components/puyo/GarbageIndicator'
+import { PlayerField } from '@/components/puyo/PlayerField'
+import { ControlAction, EngineState } from '@/lib/puyo/engine'
+import { CONTROL_SOUNDS } from '@/lib/puyo/controls'
+import { useMusic, useSound } from '@/hooks/useSound'
+import { PuyoPlayer, usePuyoPlayer } from '@/hooks/usePuyoPlayer'
+import { useOnlineClient } from '@/hooks/useOnlineClient'
+import { useSettings } from '@/hooks/useSettings'
+import { useControls } from '@/hooks/useControls'
+import { usePlayerInput } from '@/hooks/usePlayerInput'
+
+const STATUS_LABELS = {
+  connecting: '接続中…',
+  lobby: '対戦相手を待っています',
+  playing: '対戦中',
+  result: '対戦終了',
+  disconnected: '切断されました。再接続しています…',
+  closed: '切断しました'
+}
+
+export default function OnlineMatch() {
+  const [room, setRoom] = useState('')
+  const [name, setName] = useState('')
+  const [settings] = useSettings()
+  const [controls] = useControls()
+  const playSound = useSound(settings)
+  const playerRef = useRef<PuyoPlayer | null>(null)
+
+  const online = useOnlineClient({
+    onStart: useCallback((state: EngineState) => playerRef.current?.reset(state), []),
+    onGarbage: useCallback((count: number) => playerRef.current?.receiveGarbage(count), [])
+  })
+  const { snapshot } = online
+  const playing = snapshot?.status === 'playing'
+  useMusic(playing)
+
+  const player = usePuyoPlayer({
+    active: playing,
+    lockDelay: settings.lockDelay,
+    playSound,
+    onDispatch: online.sendInput
+  })
+
+  useEffect(() => {
+    playerRef.current = player
+  })
+
+  const { dispatch, isAnimating } = player
+  const handleAction = useCallback((action: ControlAction) => {
+    if (!playing || isAnimating) return
+    dispatch(action)
+    playSound(CONTROL_SOUNDS[action])
+  }, [playing, isAnimating, dispatch, playSound])
+
+  usePlayerInput({ controls, gamepad: 'any', handling: settings, onAction: handleAction })
+
+  const handleConnect = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (room.trim()) online.connect(room.trim(), name.trim())
+  }
+
+  const playerIndex = snapshot?.player ?? null
+  const seats = snapshot?.seats ?? []
+  const opponentSeat = playerIndex !== null ? seats[1 - playerIndex] : null
+  const mySeat = playerIndex !== null ? seats[playerIndex] : null
+  const wins = snapshot?.wins ?? [0, 0]
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100">
+      <style>{puyoStyles}</style>
+      <h1 className="text-4xl font-bold mb-4">オンライン対戦</h1>
+      {!snapshot && (
+        <form onSubmit={handleConnect} className="flex flex-col items-center gap-2">
+          <label className="flex items-center gap-2">
+            ルーム名:
+            <input type="text" value={room} onChange={(e) => setRoom(e.target.value)} className="p-2 border rounded" />
+          </label>
+          <label className="flex items-center gap-2">
+            名前:
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} className="p-2 border rounded" />
+          </label>
+          <div>
+            <Button type="submit" disabled={!room.trim()}>入室</Button>
+            <Link href="/" className="ml-4 underline">タイトルへ</Link>
+          </div>
+          <p className="text-sm text-gray-500">オンライン対戦には npm run dev:online でサーバーを起動してください</p>
+        </form>
+      )}
+      {snapshot && (
+        <div className="flex flex-col items-center">
+          <p className="mb-2">{STATUS_LABELS[snapshot.status]}</p>
+          {snapshot.error && <p className="text-red-500 mb-2">{snapshot.error}</p>}
+          {snapshot.desyncs > 0 && <p className="text-sm text-yellow-600 mb-2">盤面のずれを {snapshot.desyncs} 回修正しました</p>}
+          <p className="text-xl mb-2">
+            {mySeat?.name ?? '—'} {wins[playerIndex ?? 0]} - {wins[1 - (playerIndex ?? 0)]} {opponentSeat?.name ?? '—'}
+            {opponentSeat && !opponentSeat.connected && <span className="ml-2 text-sm text-gray-500">（相手の再接続待ち）</span>}
+          </p>
+          <div className="flex gap-12">
+            <PlayerField label={mySeat?.name ?? 'あなた'} player={player} showHold />
+            <div className="flex flex-col items-center">
+              <h2 className="text-2xl font-semibold">{opponentSeat?.name ?? '対戦相手'}</h2>
+              <p className="text-xl">Score: {snapshot.remote?.score ?? 0}</p>
+              <p className="text-lg">&nbsp;</p>
+              <GarbageIndicator count={snapshot.remote?.pendingGarbage ?? 0} />
+              {snapshot.remote && <Board grid={snapshot.remote.grid} current={snapshot.remote.current} />}
+            </div>
+          </div>
+          <div className="mt-4 flex gap-4">
+            {(snapshot.status === 'lobby' || snapshot.status === 'result') && (
+              <Button onClick={online.ready} disabled={mySeat?.ready}>
+                {mySeat?.ready ? '相手の準備を待っています' : snapshot.status === 'result' ? 'もう一度' : '準備OK'}
+              </Button>
+            )}
+            <Button onClick={online.disconnect}>退室</Button>
+          </div>
+          {snapshot.status === 'result' && snapshot.winner !== null && (
+            <h2 className="text-3xl font-bold mt-4">{snapshot.winner === playerIndex ? 'YOU WIN' : 'YOU LOSE'}</h2>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
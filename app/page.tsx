@@ -1,627 +1,539 @@
 'use client'
 
 import React, { useState, useEffect, useCallback, useRef } from 'react'
+import Link from 'next/link'
 import { Button } from "@/components/ui/button"
+import { Dialog } from '@/components/ui/dialog'
+import { LiveRegion } from '@/components/ui/live-region'
+import { Board, PairPreview, puyoStyles } from '@/components/puyo/Board'
+import { OptionsPanel } from '@/components/puyo/OptionsPanel'
+import { RulesetSelect } from '@/components/puyo/RulesetEditor'
+import { GameSummary } from '@/components/puyo/GameSummary'
+import { VIRTUAL_PAD_HEIGHT, VirtualPad } from '@/components/puyo/VirtualPad'
+import { ControlAction, EngineAction, EngineEvent, EngineState, createInitialState, getLandingCells, previewPops } from '@/lib/puyo/engine'
+import { CONTROL_SOUNDS } from '@/lib/puyo/controls'
+import { DEFAULT_SEQUENCE_OPTIONS, SequenceOptions, parseSeed, randomSeed } from '@/lib/puyo/sequence'
+import { DEFAULT_SCORING_RULE, SCORING_RULES, ScoringRule, describeLinkScore } from '@/lib/puyo/scoring'
+import { LAST_REPLAY_KEY, Replay, createReplay, finishReplay, recordInput, replayFileName, serializeReplay } from '@/lib/puyo/replay'
+import {
+  DEFAULT_GAME_MODE,
+  GAME_MODES,
+  GAME_MODE_IDS,
+  GameModeId,
+  MARATHON_LEVELS,
+  MARATHON_LEVEL_SIZE,
+  ModeEnd,
+  ModeRecords,
+  checkModeEnd,
+  countCleared,
+  formatModeRecord,
+  formatTime,
+  isBetterRecord,
+  isModeCleared,
+  isRecordable,
+  SPRINT_GOAL,
+  TIME_ATTACK_LIMIT,
+  loadModeRecords,
+  saveModeRecords
+} from '@/lib/puyo/modes'
+import { MAX_NAME_LENGTH, loadPlayerName, normalizeName, savePlayerName, submitScore } from '@/lib/leaderboard/scores'
+import { GameStats, computeGameStats } from '@/lib/puyo/stats'
+import { SuspendedGame, clearSuspendedGame, loadSuspendedGame, saveSuspendedGame } from '@/lib/puyo/suspend'
+import { saveGameStats } from '@/lib/history'
+import { downloadFile } from '@/lib/download'
+import { MessageKey } from '@/lib/i18n'
+import { useMusic, useSound } from '@/hooks/useSound'
+import { useGameClock } from '@/hooks/useGameClock'
+import { usePuyoPlayer } from '@/hooks/usePuyoPlayer'
+import { useSettings } from '@/hooks/useSettings'
+import { useRuleset } from '@/hooks/useRuleset'
+import { useControls } from '@/hooks/useControls'
+import { usePlayerInput } from '@/hooks/usePlayerInput'
+import { useCoarsePointer, useTouchControls } from '@/hooks/useTouchControls'
+import { useCellSize } from '@/hooks/useCellSize'
+import { useAnnouncer, usePlayerAnnouncements } from '@/hooks/useAnnouncer'
+import { useTranslation } from '@/hooks/useTranslation'
 
 // Types
-type PuyoColor = 'red' | 'green' | 'blue' | 'yellow' | 'purple' | null
 type GameState = 'title' | 'active' | 'over' | 'pause'
-type Grid = PuyoColor[][]
-type ControlAction = 'left' | 'right' | 'down' | 'rotateLeft' | 'rotateRight' | 'hold' | 'hardDrop'
-type Controls = Record<ControlAction, string[]>
+type SubmitStatus = { state: 'sending' } | { state: 'done', rank: number } | { state: 'error', message: string }
 
 // Constants
-const GRID_ROWS = 13  // 12から13に変更
-const GRID_COLS = 6
-const COLORS: PuyoColor[] = ['red', 'green', 'blue', 'yellow', 'purple']
-
-// Helper functions
-const createEmptyGrid = (): Grid => Array(GRID_ROWS).fill(null).map(() => Array(GRID_COLS).fill(null))
-const randomPuyoColor = (): PuyoColor => COLORS[Math.floor(Math.random() * COLORS.length)]
-
-interface PuyoPair {
-  color1: PuyoColor
-  color2: PuyoColor
-  x: number
-  y: number
-  rotation: number
+const HUD_REFRESH_MS = 100 // タイマー表示と時間切れ判定の間隔
+const SIDE_COLUMNS_WIDTH = 160 // ホールドとネクストの列（px）
+const HUD_HEIGHT = 300         // スコア表示とボタン（px）
+const END_TITLES: Record<ModeEnd, MessageKey> = {
+  toppedOut: 'end.toppedOut',
+  goal: 'end.goal',
+  timeUp: 'end.timeUp'
 }
-
-// Custom CSS classes (in case Tailwind classes are not available)
-const customStyles = `
-  .puyo-red { background-color: #EF4444; }
-  .puyo-green { background-color: #10B981; }
-  .puyo-blue { background-color: #3B82F6; }
-  .puyo-yellow { background-color: #F59E0B; }
-  .puyo-purple { background-color: #9333EA; }
-  .puyo-cell {
-    width: 2rem;
-    height: 2rem;
-    border: 1px solid #D1D5DB;
-    transition: all 0.2s;
-  }
-`
+// モードの説明文に埋め込む値
+const MODE_PARAMS = {
+  goal: SPRINT_GOAL,
+  minutes: TIME_ATTACK_LIMIT / 60000,
+  size: MARATHON_LEVEL_SIZE,
+  levels: MARATHON_LEVELS
+}
+const NAV_LINKS: { href: string, label: MessageKey }[] = [
+  { href: '/versus', label: 'nav.versus' },
+  { href: '/local', label: 'nav.local' },
+  { href: '/online', label: 'nav.online' },
+  { href: '/puzzle', label: 'nav.puzzle' },
+  { href: '/training', label: 'nav.training' },
+  { href: '/editor', label: 'nav.editor' },
+  { href: '/replay', label: 'nav.replay' },
+  { href: '/leaderboard', label: 'nav.leaderboard' },
+  { href: '/stats', label: 'nav.stats' }
+]
 
 export default function PuyoGame() {
-  const [grid, setGrid] = useState<Grid>(createEmptyGrid())
   const [gameState, setGameState] = useState<GameState>('title')
-  const [score, setScore] = useState(0)
-  const [currentPuyo, setCurrentPuyo] = useState<PuyoPair | null>(null)
-  const [nextPuyos, setNextPuyos] = useState<PuyoPair[]>([])
-  const [chainCounter, setChainCounter] = useState(0)
   const [isPaused, setIsPaused] = useState(false)
-  const [highScore, setHighScore] = useState(0)
-  const audioContext = useRef<AudioContext | null>(null)
-  const [fallSpeed, setFallSpeed] = useState(1000) // 初期落下速度（ミリ秒）
-  const fallSpeedRef = useRef(1000) // useEffectで使用するためのref
-  const [heldPuyo, setHeldPuyo] = useState<PuyoPair | null>(null)
-  const [canHold, setCanHold] = useState(true)
-  const [isAnimating, setIsAnimating] = useState(false)
+  const [gameMode, setGameMode] = useState<GameModeId>(DEFAULT_GAME_MODE)
+  const [records, setRecords] = useState<ModeRecords>({})
+  const [newRecord, setNewRecord] = useState(false)
+  const [elapsed, setElapsed] = useState(0)
+  const [cleared, setCleared] = useState(0)
+  const [modeEnd, setModeEnd] = useState<ModeEnd | null>(null)
   const [showOptions, setShowOptions] = useState(false)
-  const [controls, setControls] = useState<Controls>({
-    left: ['a', 'ArrowLeft', ''],
-    right: ['d', 'ArrowRight', ''],
-    down: ['s', 'ArrowDown', ''],
-    rotateLeft: ['o', '', ''],
-    rotateRight: ['p', '', ''],
-    hold: ['q', ' ', ''],
-    hardDrop: ['w', 'ArrowUp', ''] // 新しい高速落下の設定
-  })
-  const [positionAdjustment, setPositionAdjustment] = useState(0);
-
-  const generatePuyoPair = useCallback((): PuyoPair => ({
-    color1: randomPuyoColor(),
-    color2: randomPuyoColor(),
-    x: 2,
-    y: 1,  // 0から1に変更
-    rotation: 0
-  }), [])
-
-  const generateNextPuyos = useCallback(() => {
-    return Array(6).fill(null).map(() => generatePuyoPair())
-  }, [generatePuyoPair])
-
-  useEffect(() => {
-    const storedHighScore = localStorage.getItem('puyoPuyoHighScore')
-    if (storedHighScore) {
-      setHighScore(parseInt(storedHighScore, 10))
+  const [controls, updateControls] = useControls()
+  const [settings, updateSettings] = useSettings()
+  const [t] = useTranslation(settings.language)
+  const [ruleset, updateRuleset] = useRuleset()
+  const [seedInput, setSeedInput] = useState('') // 空欄ならランダムなシードで開始
+  const [sequenceOptions, setSequenceOptions] = useState<SequenceOptions>(DEFAULT_SEQUENCE_OPTIONS)
+  const [scoringRule, setScoringRule] = useState<ScoringRule>(DEFAULT_SCORING_RULE)
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null)
+  const [lastStats, setLastStats] = useState<GameStats | null>(null)
+  const [playerName, setPlayerName] = useState('')
+  const [submitStatus, setSubmitStatus] = useState<SubmitStatus | null>(null)
+  const [suspended, setSuspended] = useState<SuspendedGame | null>(null) // 続きから遊べる中断セーブ
+  const replayRef = useRef<Replay | null>(null)
+  const clearedRef = useRef(0)
+  const finished = useRef(false)
+  const playSound = useSound(settings)
+  const [announcements, announce] = useAnnouncer()
+  useMusic(gameState === 'active' && !isPaused)
+  const { start: startClock, getElapsed } = useGameClock(isPaused)
+
+  const isSeedValid = seedInput.trim() === '' || parseSeed(seedInput) !== null
+  const mode = GAME_MODES[gameMode]
+
+  // 時間切れの判定が遅れた分の入力も、制限時間ちょうどの入力として記録する
+  const recordAction = useCallback((action: EngineAction) => {
+    if (replayRef.current) {
+      const elapsed = Math.min(getElapsed(), GAME_MODES[replayRef.current.mode].timeLimit ?? Infinity)
+      replayRef.current = recordInput(replayRef.current, elapsed, action)
     }
+  }, [getElapsed])
 
-    audioContext.current = new (window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)()
-  }, [])
+  const finishGame = useCallback((end: ModeEnd) => {
+    if (finished.current || !replayRef.current) return
+    finished.current = true
 
-  useEffect(() => {
-    if (score > highScore) {
-      setHighScore(score)
-      localStorage.setItem('puyoPuyoHighScore', score.toString())
+    const playedMode = GAME_MODES[replayRef.current.mode]
+    if (end === 'timeUp' && playedMode.timeLimit !== undefined) {
+      replayRef.current = finishReplay(replayRef.current, playedMode.timeLimit)
+    }
+    const replay = replayRef.current
+    clearSuspendedGame()
+    localStorage.setItem(LAST_REPLAY_KEY, serializeReplay(replay))
+    setLastReplay(replay)
+
+    // 成績はリプレイを再生して集計し、履歴に残す
+    const stats = computeGameStats(replay)
+    setLastStats(stats)
+    saveGameStats(stats).catch(() => {})
+
+    // 自己ベストはモードごとに残す
+    if (isRecordable(playedMode, end)) {
+      const value = playedMode.record === 'time' ? replay.duration : stats.score
+      const stored = loadModeRecords()
+      if (isBetterRecord(playedMode, value, stored[playedMode.id])) {
+        const updated = { ...stored, [playedMode.id]: value }
+        saveModeRecords(updated)
+        setRecords(updated)
+        setNewRecord(true)
+      }
     }
-  }, [score, highScore])
-
-  const playSound = (frequency: number, duration: number) => {
-    if (audioContext.current) {
-      const oscillator = audioContext.current.createOscillator()
-      const gainNode = audioContext.current.createGain()
 
-      oscillator.connect(gainNode)
-      gainNode.connect(audioContext.current.destination)
+    // 窒息は盤面ごとの読み上げに任せる
+    if (end !== 'toppedOut') announce(t('announce.end', { title: t(END_TITLES[end]), score: stats.score }), 'assertive')
+
+    setElapsed(replay.duration)
+    setModeEnd(end)
+    setGameState('over')
+  }, [announce, t])
+
+  // 置くたびに消した数を数え、目標に届いたら終了する
+  const handleLock = useCallback((events: EngineEvent[], state: EngineState) => {
+    clearedRef.current += countCleared(events)
+    setCleared(clearedRef.current)
+    if (checkModeEnd(mode, { elapsed: 0, cleared: clearedRef.current }, state) === 'goal') finishGame('goal')
+  }, [mode, finishGame])
+
+  const handleGameOver = useCallback(() => {
+    finishGame('toppedOut')
+  }, [finishGame])
+
+  const player = usePuyoPlayer({
+    active: gameState === 'active' && !isPaused,
+    fallSpeed: mode.fallSpeed({ elapsed, cleared }),
+    lockDelay: settings.lockDelay,
+    playSound,
+    onDispatch: recordAction,
+    onLock: handleLock,
+    onGameOver: handleGameOver
+  })
+  const { engine, grid, score, chainCounter, lastLink, allClear, isAnimating, dispatch } = player
+  usePlayerAnnouncements(player, announce, { t })
+  const { current: currentPuyo, next: nextPuyos, held: heldPuyo } = engine
 
-      oscillator.frequency.setValueAtTime(frequency, audioContext.current.currentTime)
-      gainNode.gain.setValueAtTime(0.1, audioContext.current.currentTime)
+  useEffect(() => {
+    setRecords(loadModeRecords())
+    setPlayerName(loadPlayerName())
+    setSuspended(loadSuspendedGame())
+  }, [])
 
-      oscillator.start()
-      oscillator.stop(audioContext.current.currentTime + duration)
-    }
-  }
+  // タイマー表示を進め、制限時間になったら終了する
+  useEffect(() => {
+    if (gameState !== 'active' || isPaused) return
+    const timer = setInterval(() => {
+      const elapsed = getElapsed()
+      setElapsed(elapsed)
+      if (mode.timeLimit !== undefined && elapsed >= mode.timeLimit) finishGame('timeUp')
+    }, HUD_REFRESH_MS)
+    return () => clearInterval(timer)
+  }, [gameState, isPaused, mode, getElapsed, finishGame])
 
   const startGame = () => {
-    setGrid(createEmptyGrid())
-    setScore(0)
-    setChainCounter(0)
-    const initialNextPuyos = generateNextPuyos()
-    setCurrentPuyo({...initialNextPuyos[0], x: 2, y: 1})  // yを0から1に変更
-    setNextPuyos(initialNextPuyos.slice(1))
+    const seed = parseSeed(seedInput) ?? randomSeed()
+    // 新しく始めたら中断セーブは消える
+    clearSuspendedGame()
+    setSuspended(null)
+    replayRef.current = createReplay(seed, sequenceOptions, scoringRule, gameMode, ruleset)
+    startClock()
+    player.reset(createInitialState(seed, sequenceOptions, scoringRule, ruleset))
+    clearedRef.current = 0
+    finished.current = false
+    setCleared(0)
+    setElapsed(0)
+    setModeEnd(null)
+    setNewRecord(false)
+    setLastStats(null)
+    setSubmitStatus(null)
     setGameState('active')
     setIsPaused(false)
-    setFallSpeed(1000)
-    fallSpeedRef.current = 1000
-    setHeldPuyo(null)
-    setCanHold(true)
-  }
-
-  const togglePause = () => {
-    setIsPaused(!isPaused)
-  }
-
-  const movePuyo = (direction: 'left' | 'right' | 'down') => {
-    if (!currentPuyo || gameState !== 'active' || isPaused) return
-
-    const newPuyo = { ...currentPuyo }
-    if (direction === 'left') {
-      newPuyo.x = Math.round(newPuyo.x - 1)
-      setPositionAdjustment(prev => prev + 1)  // 左に移動時は+1px
-    }
-    if (direction === 'right') {
-      newPuyo.x = Math.round(newPuyo.x + 1)
-      setPositionAdjustment(prev => prev - 1)  // 右に移動時は-1px
-    }
-    if (direction === 'down') newPuyo.y = Math.round(newPuyo.y + 1)
-
-    if (isValidMove(newPuyo)) {
-      setCurrentPuyo(newPuyo)
-    } else if (direction === 'down' && newPuyo.y > 1) {
-      placePuyo()
-    }
-  }
-
-  const rotatePuyo = (direction: 'left' | 'right') => {
-    if (!currentPuyo || gameState !== 'active' || isPaused) return
-
-    const newPuyo = { ...currentPuyo }
-    newPuyo.rotation = (newPuyo.rotation + (direction === 'left' ? -1 : 1) + 4) % 4
-
-    if (isValidMove(newPuyo)) {
-      setCurrentPuyo(newPuyo)
-    } else {
-      // 回転できない場合、壁蹴りを試みる
-      const kicks = [
-        { x: 1, y: 0 },  // 右に1マス
-        { x: -1, y: 0 }, // 左に1マス
-        { x: 0, y: -1 }, // 上に1マス
-        { x: 1, y: -1 }, // 右上に1マス
-        { x: -1, y: -1 } // 左上に1マス
-      ]
-
-      for (const kick of kicks) {
-        const kickedPuyo = {
-          ...newPuyo,
-          x: newPuyo.x + kick.x,
-          y: newPuyo.y + kick.y
-        }
-        if (isValidMove(kickedPuyo)) {
-          setCurrentPuyo(kickedPuyo)
-          return
-        }
-      }
-    }
-  }
-
-  const isValidMove = (puyo: PuyoPair): boolean => {
-    const { x, y, rotation } = puyo
-    const [x2, y2] = getSecondPuyoPosition(x, y, rotation)
-
-    return (
-      x >= 0 && x < GRID_COLS && y >= 0 && y < GRID_ROWS &&  // yの下限を0に変更
-      x2 >= 0 && x2 < GRID_COLS && y2 >= 0 && y2 < GRID_ROWS &&  // y2の下限も0に変更
-      (y === 0 || !grid[y][x]) && (y2 === 0 || !grid[y2][x2])  // y === 0 またはy2 === 0 の場合は常に有効
-    )
-  }
-
-  const getSecondPuyoPosition = (x: number, y: number, rotation: number): [number, number] => {
-    switch (rotation) {
-      case 0: return [x, y - 1]
-      case 1: return [x + 1, y]
-      case 2: return [x, y + 1]
-      case 3: return [x - 1, y]
-      default: return [x, y]
-    }
   }
 
-  const placePuyo = () => {
-    if (!currentPuyo) return
-
-    const newGrid = [...grid]
-    const { x, y, color1, color2, rotation } = currentPuyo
-    const [x2, y2] = getSecondPuyoPosition(x, y, rotation)
-
-    // 配列の範囲をチェック
-    if (y >= 0 && y < GRID_ROWS && x >= 0 && x < GRID_COLS) {
-      newGrid[y][x] = color1
-    }
-    if (y2 >= 0 && y2 < GRID_ROWS && x2 >= 0 && x2 < GRID_COLS) {
-      newGrid[y2][x2] = color2
-    }
-
-    setGrid(newGrid)
-    setCurrentPuyo({...nextPuyos[0], y: 1})  // yを1に設定
-    const newNextPuyos = [...nextPuyos.slice(1), generatePuyoPair()]
-    setNextPuyos(newNextPuyos)
-    setCanHold(true)
-    setPositionAdjustment(0)
-
-    // 落下判定と消去チェックを行う
-    applyGravityAndCheck(newGrid)
-  }
-
-  const applyGravityAndCheck = async (grid: Grid) => {
-    setIsAnimating(true)
-    let newGrid = applyGravity(grid)
-    let chainCount = 0
-    let hasMatches
-
-    const checkAndUpdateChain = async () => {
-      hasMatches = false
-      const matchedPuyos: Set<string> = new Set()
-
-      // マッチのチェック
-      for (let y = 0; y < GRID_ROWS; y++) {
-        for (let x = 0; x < GRID_COLS; x++) {
-          if (newGrid[y][x]) {
-            const matches = findConnectedPuyos(newGrid, x, y, newGrid[y][x])
-            if (matches.size >= 4) {
-              hasMatches = true
-              matches.forEach(match => matchedPuyos.add(match))
-            }
-          }
-        }
-      }
-
-      if (hasMatches) {
-        chainCount++
-        // マッチしたぷよを削除
-        matchedPuyos.forEach(match => {
-          const [x, y] = match.split(',').map(Number)
-          newGrid[y][x] = null
-        })
-
-        // グリッドを更新して消去アニメーションを表示
-        setGrid([...newGrid])
-        await new Promise(resolve => setTimeout(resolve, 250)) // 0.25秒待機
-
-        // スコア計算
-        const puyosCleared = matchedPuyos.size
-        const chainMultiplier = Math.pow(2, chainCount - 1)
-        const groupSizeBonus = Math.max(0, puyosCleared - 4) * 5
-        const points = puyosCleared * 10 * chainMultiplier + groupSizeBonus
-
-        setScore(prevScore => prevScore + points)
-        setChainCounter(chainCount)
-
-        // 重力を再度適用
-        newGrid = applyGravity(newGrid)
-        setGrid([...newGrid])
-        await new Promise(resolve => setTimeout(resolve, 250)) // 0.25秒待機
-
-        playSound(500, 0.2) // チェーンリアクションの音を再生
-      }
-    }
-
-    do {
-      await checkAndUpdateChain()
-    } while (hasMatches)
-
-    setGrid(newGrid)
-    
-    // チェーンカウンターをリセットするタイミングを遅らせる
-    setTimeout(() => {
-      setChainCounter(0)
-    }, 5000) // 3秒後にリセット
-
-    // ゲームオーバーのチェック
-    if (newGrid[1].some(cell => cell !== null)) {
-      setGameState('over')
-    }
-
-    setIsAnimating(false)
+  // 中断セーブから再開する。セーブは消し、ポーズした状態から始める
+  const continueGame = () => {
+    if (!suspended) return
+    clearSuspendedGame()
+    setSuspended(null)
+    replayRef.current = suspended.replay
+    setGameMode(suspended.replay.mode)
+    startClock(suspended.elapsed)
+    player.reset(suspended.engine, suspended.fallSpeed)
+    clearedRef.current = suspended.cleared
+    finished.current = false
+    setCleared(suspended.cleared)
+    setElapsed(suspended.elapsed)
+    setModeEnd(null)
+    setNewRecord(false)
+    setLastStats(null)
+    setSubmitStatus(null)
+    setGameState('active')
+    setIsPaused(true)
+    // 目標に届く連鎖の途中で保存したものは、再開した時点で達成になる
+    const suspendedMode = GAME_MODES[suspended.replay.mode]
+    if (checkModeEnd(suspendedMode, { elapsed: 0, cleared: suspended.cleared }, suspended.engine) === 'goal') finishGame('goal')
   }
 
-  const findConnectedPuyos = (grid: Grid, x: number, y: number, color: PuyoColor, visited: Set<string> = new Set()): Set<string> => {
-    const key = `${x},${y}`
-    if (
-      x < 0 || x >= GRID_COLS || y < 0 || y >= GRID_ROWS ||
-      grid[y][x] !== color || visited.has(key)
-    ) {
-      return visited
-    }
-
-    visited.add(key)
+  // 途中経過を保存する。連鎖のアニメーション中はエンジンがもう連鎖の後まで進んでいるので、
+  // まだ数えていないその固定で消した数も足しておく
+  const { fallSpeed, pendingEvents } = player
+  const suspendGame = useCallback(() => {
+    if (gameState !== 'active' || finished.current || !replayRef.current || engine.status !== 'active') return
+    const cleared = clearedRef.current + countCleared(pendingEvents)
+    saveSuspendedGame({ engine, elapsed: getElapsed(), cleared, fallSpeed, replay: replayRef.current })
+  }, [gameState, engine, pendingEvents, getElapsed, fallSpeed])
 
-    findConnectedPuyos(grid, x + 1, y, color, visited)
-    findConnectedPuyos(grid, x - 1, y, color, visited)
-    findConnectedPuyos(grid, x, y + 1, color, visited)
-    findConnectedPuyos(grid, x, y - 1, color, visited)
-
-    return visited
-  }
+  useEffect(() => {
+    if (isPaused) suspendGame()
+  }, [isPaused, suspendGame])
 
-  const applyGravity = (grid: Grid): Grid => {
-    const newGrid = [...grid]
-    for (let x = 0; x < GRID_COLS; x++) {
-      let writeY = GRID_ROWS - 1
-      for (let y = GRID_ROWS - 1; y >= 0; y--) {
-        if (newGrid[y][x] !== null) {
-          newGrid[writeY][x] = newGrid[y][x]
-          if (writeY !== y) {
-            newGrid[y][x] = null
-          }
-          writeY--
-        }
-      }
+  // タブを閉じたり切り替えたりしたら保存してポーズする
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState !== 'hidden') return
+      suspendGame()
+      if (gameState === 'active') setIsPaused(true)
     }
-    return newGrid
-  }
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange)
+  }, [gameState, suspendGame])
 
-  // ホールド機能を実装
-  const holdPuyo = () => {
-    if (!currentPuyo || !canHold || gameState !== 'active' || isPaused) return
-
-    if (heldPuyo) {
-      const temp = currentPuyo
-      setCurrentPuyo({ ...heldPuyo, x: 2, y: 1, rotation: 0 })  // yを1に設定
-      setHeldPuyo(temp)
-    } else {
-      setHeldPuyo(currentPuyo)
-      setCurrentPuyo({...nextPuyos[0], y: 1})  // yを1に設定
-      setNextPuyos([...nextPuyos.slice(1), generatePuyoPair()])
-    }
-    setCanHold(false)
-  }
+  const togglePause = useCallback(() => {
+    setIsPaused(prev => !prev)
+  }, [])
 
   const toggleOptions = () => {
     setShowOptions(!showOptions)
   }
 
-  const handleControlChange = (action: ControlAction, index: number, event: React.ChangeEvent<HTMLInputElement>) => {
-    const newValue = event.target.value
-    setControls(prev => {
-      const newKeys = [...prev[action]]
-      newKeys[index] = newValue
-      return { ...prev, [action]: newKeys }
-    })
-  }
-
-  const hardDrop = () => {
-    if (!currentPuyo || gameState !== 'active' || isPaused) return
-
-    const newPuyo = { ...currentPuyo }
-    let y = newPuyo.y
-
-    while (isValidMove({ ...newPuyo, y: y + 1 })) {
-      y += 1
-    }
-
-    setCurrentPuyo({ ...newPuyo, y })
-    placePuyo()
-  }
-
   const restartGame = () => {
     startGame()
   }
 
-  useEffect(() => {
-    const handleKeyPress = (e: KeyboardEvent) => {
-      if (e.key.toLowerCase() === 'escape') {
-        togglePause()
-      }
-      if (isPaused) return
-
-      const action = Object.entries(controls).find(([, keys]) => 
-        keys.includes(e.key)
-      )?.[0] as ControlAction | undefined
-
-      if (action) {
-        switch (action) {
-          case 'left':
-            movePuyo('left')
-            playSound(300, 0.1)
-            break
-          case 'right':
-            movePuyo('right')
-            playSound(300, 0.1)
-            break
-          case 'down':
-            movePuyo('down')
-            playSound(200, 0.1)
-            break
-          case 'rotateLeft':
-            rotatePuyo('left')
-            playSound(400, 0.1)
-            break
-          case 'rotateRight':
-            rotatePuyo('right')
-            playSound(400, 0.1)
-            break
-          case 'hold':
-            holdPuyo()
-            playSound(500, 0.1)
-            break
-          case 'hardDrop':
-            hardDrop()
-            playSound(600, 0.1)
-            break
-        }
-      }
-    }
-
-    window.addEventListener('keydown', handleKeyPress)
-    return () => window.removeEventListener('keydown', handleKeyPress)
-  }, [currentPuyo, gameState, isPaused, movePuyo, rotatePuyo, togglePause, holdPuyo, controls, hardDrop])
-
-  useEffect(() => {
-    if (gameState === 'active' && !isPaused && !isAnimating) {
-      const gameLoop = setInterval(() => {
-        movePuyo('down')
-      }, fallSpeed)
-
-      return () => clearInterval(gameLoop)
-    }
-  }, [gameState, currentPuyo, isPaused, movePuyo, fallSpeed, isAnimating])
-
-  useEffect(() => {
-    if (gameState === 'active' && !isPaused) {
-      const speedIncreaseInterval = setInterval(() => {
-        setFallSpeed(prevSpeed => {
-          const newSpeed = prevSpeed / 1.1
-          fallSpeedRef.current = newSpeed // refを更新
-          return newSpeed
-        })
-      }, 10000) // 10秒ごとに速度を増加
-
-      return () => clearInterval(speedIncreaseInterval)
-    }
-  }, [gameState, isPaused])
-
-  const getPuyoColorClass = (color: PuyoColor): string => {
-    switch (color) {
-      case 'red': return 'bg-red-500 puyo-red'
-      case 'green': return 'bg-green-500 puyo-green'
-      case 'blue': return 'bg-blue-500 puyo-blue'
-      case 'yellow': return 'bg-yellow-500 puyo-yellow'
-      case 'purple': return 'bg-purple-500 puyo-purple'
-      default: return 'bg-gray-100'
+  // サーバーがリプレイを再生してスコアを確かめてから登録する
+  const registerScore = async () => {
+    if (!lastReplay || !lastStats) return
+    savePlayerName(playerName)
+    setSubmitStatus({ state: 'sending' })
+    try {
+      const { rank } = await submitScore({ name: playerName, score: lastStats.score, maxChain: lastStats.maxChain, replay: serializeReplay(lastReplay) })
+      setSubmitStatus({ state: 'done', rank })
+    } catch (e) {
+      setSubmitStatus({ state: 'error', message: e instanceof Error ? e.message : String(e) })
     }
   }
 
-  const renderGrid = () => {
-    return grid.slice(1).map((row, y) => (  // 最上段をスライスして表示から除外
-      <div key={y} className="flex">
-        {row.map((color, x) => (
-          <div
-            key={`${x}-${y}`}
-            className={`puyo-cell ${getPuyoColorClass(color)} z-10`}
-            style={{position: 'relative'}}
-          />
-        ))}
-      </div>
-    ))
-  }
+  const handleAction = useCallback((action: ControlAction) => {
+    if (isPaused || isAnimating || gameState !== 'active') return
+    dispatch(action)
+    playSound(CONTROL_SOUNDS[action])
+  }, [gameState, isPaused, isAnimating, dispatch, playSound])
+
+  const { press, release } = usePlayerInput({
+    controls,
+    gamepad: 'any',
+    handling: settings,
+    onAction: handleAction,
+    onKeyDown: (e) => {
+      if (e.key.toLowerCase() !== 'escape') return
+      // 開いているオプションを先に閉じる。ポーズはゲーム中だけ
+      if (showOptions) setShowOptions(false)
+      else if (gameState === 'active') togglePause()
+    },
+    onStart: () => {
+      // ゲームパッドのスタートボタンも Escape と同じく、ゲーム中だけポーズする
+      if (gameState === 'active') togglePause()
+    }
+  })
+  const touchRef = useTouchControls({ handling: settings, onAction: handleAction })
+  const coarsePointer = useCoarsePointer()
+  const cellSize = useCellSize(engine.rules.cols, engine.rules.rows, {
+    reservedWidth: SIDE_COLUMNS_WIDTH,
+    reservedHeight: HUD_HEIGHT + (settings.virtualPad ? VIRTUAL_PAD_HEIGHT : 0)
+  })
 
   return (
     <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100">
-      <style>{customStyles}</style>
-      <h1 className="text-4xl font-bold mb-4">改造ぷよぷよ</h1>
+      <style>{puyoStyles}</style>
+      <LiveRegion messages={announcements} />
+      <h1 className="text-4xl font-bold mb-4">{t('meta.title')}</h1>
       {gameState === 'title' && (
         <div className="text-center">
-          <Button onClick={startGame} className="mb-4">ゲームスタート</Button>
-          <Button onClick={toggleOptions} className="mb-4 ml-4">オプション</Button>
-          <p className="text-xl">ハイスコア: {highScore}</p>
-          {showOptions && (
-            <div className="mt-4 p-4 bg-white rounded shadow">
-              <h2 className="text-2xl font-bold mb-2">オプション</h2>
-              <div className="mb-4">
-                <h3 className="text-xl font-bold mb-2">操作設定</h3>
-                {Object.entries(controls).map(([action, keys]) => (
-                  <div key={action} className="mb-2">
-                    <label className="block mb-1">{action}:</label>
-                    <div className="flex gap-2">
-                      {keys.map((key, index) => (
-                        <input
-                          key={index}
-                          type="text"
-                          value={key}
-                          onChange={(e) => handleControlChange(action as ControlAction, index, e)}
-                          className="w-1/3 p-2 border rounded"
-                        />
-                      ))}
-                    </div>
-                  </div>
-                ))}
-              </div>
+          {suspended && (
+            <Button onClick={continueGame} className="mb-4 mr-4" autoFocus>{t('title.continue')}</Button>
+          )}
+          <Button onClick={startGame} disabled={!isSeedValid} className="mb-4" autoFocus={!suspended}>{t('nav.start')}</Button>
+          <Button onClick={toggleOptions} className="mb-4 ml-4" aria-expanded={showOptions}>{t('nav.options')}</Button>
+          {NAV_LINKS.map(({ href, label }) => (
+            <Link key={href} href={href} className="mb-4 ml-4 underline">{t(label)}</Link>
+          ))}
+          <div className="mt-4 flex flex-col items-center gap-2">
+            <div className="flex gap-2">
+              {GAME_MODE_IDS.map(id => (
+                <Button
+                  key={id}
+                  onClick={() => setGameMode(id)}
+                  className={gameMode === id ? 'ring-2 ring-blue-800' : ''}
+                >
+                  {t(`mode.${id}.label`)}
+                </Button>
+              ))}
             </div>
+            {suspended && (
+              <p className="text-gray-600">
+                {t('title.suspended', {
+                  mode: t(`mode.${suspended.replay.mode}.label`),
+                  score: suspended.engine.score,
+                  time: formatTime(suspended.elapsed)
+                })}
+              </p>
+            )}
+            <p className="text-gray-600">{t(`mode.${gameMode}.description`, MODE_PARAMS)}</p>
+            <p className="text-xl">
+              {t('title.best', { record: records[gameMode] !== undefined ? formatModeRecord(mode, records[gameMode]) : '—' })}
+            </p>
+            <label className="flex items-center gap-2">
+              {t('title.seed')}
+              <input
+                type="text"
+                inputMode="numeric"
+                value={seedInput}
+                placeholder={t('title.seedPlaceholder')}
+                onChange={(e) => setSeedInput(e.target.value)}
+                className="w-40 p-2 border rounded"
+              />
+            </label>
+            {!isSeedValid && <p className="text-red-500">{t('title.seedInvalid')}</p>}
+            <label className="flex items-center gap-2">
+              {t('title.rules')}
+              <RulesetSelect rules={ruleset} onChange={updateRuleset} t={t} />
+            </label>
+            <p className="text-sm text-gray-600">
+              {t('title.rulesSummary', { cols: ruleset.cols, rows: ruleset.rows, colors: ruleset.colorCount, popSize: ruleset.popSize })}
+            </p>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={sequenceOptions.threeColorStart}
+                onChange={(e) => setSequenceOptions(prev => ({ ...prev, threeColorStart: e.target.checked }))}
+              />
+              {t('title.threeColorStart')}
+            </label>
+            <label className="flex items-center gap-2">
+              {t('title.scoring')}
+              <select
+                value={scoringRule}
+                onChange={(e) => setScoringRule(e.target.value as ScoringRule)}
+                className="p-2 border rounded"
+              >
+                {SCORING_RULES.map(rule => (
+                  <option key={rule} value={rule}>{t(`scoring.${rule}`)}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          {showOptions && (
+            <OptionsPanel
+              controls={controls}
+              onControlsChange={updateControls}
+              settings={settings}
+              onSettingsChange={updateSettings}
+              ruleset={ruleset}
+              onRulesetChange={updateRuleset}
+              t={t}
+            />
           )}
         </div>
       )}
       {gameState === 'active' && (
-        <div className="flex flex-col items-center">
+        <div className="flex flex-col items-center" style={{ '--puyo-cell-size': `${cellSize}px` } as React.CSSProperties}>
           <div className="mb-4 text-center">
-            <h2 className="text-2xl font-semibold">Score: {score}</h2>
-            <h3 className="text-xl font-semibold">{chainCounter}連鎖</h3>
+            <p className="text-lg">{t(`mode.${gameMode}.label`)}</p>
+            <h2 className="text-2xl font-semibold">{t('game.score', { score })}</h2>
+            <h3 className="text-xl font-semibold">{t('game.chain', { chain: chainCounter })}</h3>
+            <p className="text-lg">
+              {mode.timeLimit !== undefined ? t('game.remaining', { time: formatTime(mode.timeLimit - elapsed) }) : formatTime(elapsed)}
+              {mode.level && `　${t('game.level', { level: mode.level({ elapsed, cleared }) })}`}
+              {mode.goal !== undefined && `　${t('game.goal', { cleared: Math.min(cleared, mode.goal), goal: mode.goal })}`}
+            </p>
+            <p className="text-sm text-gray-600 h-5">{lastLink && describeLinkScore(engine.scoring, lastLink.score)}</p>
+            <p className="text-sm text-gray-500">{t('game.seed', { seed: engine.sequence.seed })}</p>
           </div>
-          <div className="flex gap-8">
+          <div className="flex gap-2 sm:gap-8">
             <div className="flex flex-col items-center">
-              <h2 className="text-2xl font-semibold mb-2">Hold</h2>
-              {heldPuyo && (
-                <div className="flex flex-col">
-                  <div className={`puyo-cell ${getPuyoColorClass(heldPuyo.color2)}`} />
-                  <div className={`puyo-cell ${getPuyoColorClass(heldPuyo.color1)}`} />
-                </div>
+              <h2 className="text-lg sm:text-2xl font-semibold mb-2">{t('game.hold')}</h2>
+              {heldPuyo && <PairPreview pair={heldPuyo} t={t} />}
+              {coarsePointer && !settings.virtualPad && (
+                <Button className="mt-2" onClick={() => handleAction('hold')}>{t('game.hold')}</Button>
               )}
             </div>
-            <div className="flex flex-col items-center">
-              <div className="border-2 border-gray-400 relative" style={{ height: `${(GRID_ROWS - 1) * 2}rem`, width: `${GRID_COLS * 2}rem`, overflow: 'hidden' }}>
-                {renderGrid()}
-                {currentPuyo && !isAnimating && (
-                  <>
-                    <div
-                      className={`puyo-cell ${getPuyoColorClass(currentPuyo.color1)} absolute`}
-                      style={{
-                        left: `calc(${Math.round(currentPuyo.x * 2)}rem + ${positionAdjustment}px)`,
-                        top: `${Math.round((currentPuyo.y - 1) * 2)}rem`,
-                        zIndex: 20,
-                      }}
-                    />
-                    <div
-                      className={`puyo-cell ${getPuyoColorClass(currentPuyo.color2)} absolute`}
-                      style={{
-                        left: `calc(${Math.round(getSecondPuyoPosition(currentPuyo.x, currentPuyo.y, currentPuyo.rotation)[0] * 2)}rem + ${positionAdjustment}px)`,
-                        top: `${Math.round((getSecondPuyoPosition(currentPuyo.x, currentPuyo.y, currentPuyo.rotation)[1] - 1) * 2)}rem`,
-                        zIndex: 20,
-                      }}
-                    />
-                  </>
-                )}
-              </div>
+            <div ref={touchRef} className="flex flex-col items-center touch-none">
+              <Board
+                grid={grid}
+                current={isAnimating ? null : currentPuyo}
+                animation={player.animation}
+                ghost={settings.showGhost && currentPuyo && !isAnimating ? getLandingCells(grid, currentPuyo) : undefined}
+                highlight={settings.showPopPreview && currentPuyo && !isAnimating ? previewPops(grid, currentPuyo, engine.rules) : undefined}
+                banner={allClear ? t('game.allClear') : undefined}
+                hiddenRows={engine.rules.hiddenRows}
+                cellSize={cellSize}
+                t={t}
+              />
             </div>
             <div className="flex flex-col items-center">
-              <h2 className="text-2xl font-semibold mb-2">Next</h2>
-              {nextPuyos.map((puyo, index) => (
-                <div key={index} className="flex flex-col mb-2">
-                  <div className={`puyo-cell ${getPuyoColorClass(puyo.color2)}`} />
-                  <div className={`puyo-cell ${getPuyoColorClass(puyo.color1)}`} />
-                </div>
+              <h2 className="text-lg sm:text-2xl font-semibold mb-2">{t('game.next')}</h2>
+              {nextPuyos.slice(0, engine.rules.nextCount).map((puyo, index) => (
+                <PairPreview key={index} pair={puyo} t={t} />
               ))}
             </div>
           </div>
           <div className="mt-4 flex gap-4">
-            <Button onClick={togglePause}>{isPaused ? 'Resume' : 'Pause'}</Button>
-            <Button onClick={restartGame}>Restart</Button>
+            <Button onClick={togglePause}>{isPaused ? t('game.resume') : t('game.pause')}</Button>
+            <Button onClick={restartGame}>{t('game.restart')}</Button>
           </div>
+          {settings.virtualPad && <VirtualPad onPress={press} onRelease={release} t={t} />}
         </div>
       )}
       {gameState === 'over' && (
         <div className="text-center">
-          <h2 className="text-3xl font-bold mb-4">Game Over</h2>
-          <p className="text-xl mb-2">Final Score: {score}</p>
-          <p className="text-xl mb-4">High Score: {highScore}</p>
+          <h2 className="text-3xl font-bold mb-4">{t(END_TITLES[modeEnd ?? 'toppedOut'])}</h2>
+          <p className="text-xl mb-2">{t('result.finalScore', { score })}</p>
+          {mode.record === 'time' && modeEnd && isModeCleared(modeEnd) && <p className="text-xl mb-2">{t('result.time', { time: formatTime(elapsed) })}</p>}
+          <p className="text-xl mb-2">
+            {t('title.best', { record: records[gameMode] !== undefined ? formatModeRecord(mode, records[gameMode]) : '—' })}
+            {newRecord && <span className="ml-2 text-red-500">{t('result.newRecord')}</span>}
+          </p>
+          <p className="text-sm text-gray-500 mb-4">{t('game.seed', { seed: engine.sequence.seed })}</p>
           <div className="flex justify-center gap-4">
-            <Button onClick={startGame}>Play Again</Button>
-            <Button onClick={toggleOptions}>オプション</Button>
+            <Button onClick={startGame} autoFocus>{t('result.playAgain')}</Button>
+            <Button onClick={toggleOptions} aria-expanded={showOptions}>{t('nav.options')}</Button>
+            {lastReplay && (
+              <Button onClick={() => downloadFile(replayFileName(lastReplay), serializeReplay(lastReplay))}>{t('result.saveReplay')}</Button>
+            )}
+            <Link href="/replay" className="px-4 py-2 underline">{t('result.watchReplay')}</Link>
           </div>
-          {showOptions && (
-            <div className="mt-4 p-4 bg-white rounded shadow">
-              <h2 className="text-2xl font-bold mb-2">オプション</h2>
-              <div className="mb-4">
-                <h3 className="text-xl font-bold mb-2">操作設定</h3>
-                {Object.entries(controls).map(([action, keys]) => (
-                  <div key={action} className="mb-2">
-                    <label className="block mb-1">{action}:</label>
-                    <div className="flex gap-2">
-                      {keys.map((key, index) => (
-                        <input
-                          key={index}
-                          type="text"
-                          value={key}
-                          onChange={(e) => handleControlChange(action as ControlAction, index, e)}
-                          className="w-1/3 p-2 border rounded"
-                        />
-                      ))}
-                    </div>
-                  </div>
-                ))}
+          {lastStats && <GameSummary stats={lastStats} t={t} />}
+          {lastReplay && (
+            <div className="mt-4 flex flex-col items-center gap-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={playerName}
+                  placeholder={t('result.namePlaceholder')}
+                  maxLength={MAX_NAME_LENGTH}
+                  onChange={(e) => setPlayerName(e.target.value)}
+                  className="w-40 p-2 border rounded"
+                />
+                <Button
+                  onClick={registerScore}
+                  disabled={!normalizeName(playerName) || submitStatus?.state === 'sending' || submitStatus?.state === 'done'}
+                >
+                  {t('result.submit')}
+                </Button>
+                <Link href="/leaderboard" className="underline">{t('result.viewLeaderboard')}</Link>
               </div>
+              {submitStatus?.state === 'sending' && <p className="text-gray-500">{t('result.sending')}</p>}
+              {submitStatus?.state === 'done' && <p>{t('result.submitted', { rank: submitStatus.rank })}</p>}
+              {submitStatus?.state === 'error' && <p className="text-red-500">{submitStatus.message}</p>}
             </div>
           )}
+          {showOptions && (
+            <OptionsPanel
+              controls={controls}
+              onControlsChange={updateControls}
+              settings={settings}
+              onSettingsChange={updateSettings}
+              ruleset={ruleset}
+              onRulesetChange={updateRuleset}
+              t={t}
+            />
+          )}
         </div>
       )}
-      {isPaused && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white p-8 rounded-lg">
-            <h2 className="text-3xl font-bold mb-4">Paused</h2>
-            <div className="flex gap-4">
-              <Button onClick={togglePause}>Resume</Button>
-              <Button onClick={restartGame}>Restart</Button>
-            </div>
+      {isPaused && gameState === 'active' && (
+        <Dialog label={t('game.paused')}>
+          <h2 className="text-3xl font-bold mb-4">{t('game.paused')}</h2>
+          <div className="flex gap-4">
+            <Button onClick={togglePause}>{t('game.resume')}</Button>
+            <Button onClick={restartGame}>{t('game.restart')}</Button>
           </div>
-        </div>
+        </Dialog>
       )}
     </div>
   )
@@ -0,0 +1,198 @@
+'use client'
+
+import React, { useState, useEffect, useCallback, useRef } from 'react'
+import Link from 'next/link'
+import { Button } from "@/components/ui/button"
+import { Dialog } from '@/components/ui/dialog'
+import { Board, PairPreview, puyoStyles } from '@/components/puyo/Board'
+import { ControlAction, EngineEvent, EngineState, getLandingCells, respawnCurrent } from '@/lib/puyo/engine'
+import { CONTROL_SOUNDS } from '@/lib/puyo/controls'
+import {
+  INITIAL_PROGRESS,
+  PUZZLE_PACKS,
+  Puzzle,
+  PuzzleProgress,
+  createPuzzleState,
+  describeObjective,
+  evaluatePlacement,
+  loadClearedPuzzles,
+  saveClearedPuzzles
+} from '@/lib/puyo/puzzle'
+import { useSound } from '@/hooks/useSound'
+import { usePuyoPlayer } from '@/hooks/usePuyoPlayer'
+import { useSettings } from '@/hooks/useSettings'
+import { useControls } from '@/hooks/useControls'
+import { usePlayerInput } from '@/hooks/usePlayerInput'
+
+// Types
+type PuzzleResult = 'clear' | 'failed'
+
+interface HistoryEntry {
+  state: EngineState
+  progress: PuzzleProgress
+}
+
+// Constants
+const ALL_PUZZLES = PUZZLE_PACKS.flatMap(pack => pack.puzzles)
+
+export default function PuzzlePage() {
+  const [puzzle, setPuzzle] = useState<Puzzle | null>(null)
+  const [cleared, setCleared] = useState<string[]>([])
+  const [progress, setProgress] = useState<PuzzleProgress>(INITIAL_PROGRESS)
+  const [history, setHistory] = useState<HistoryEntry[]>([]) // 1手戻す用に置く前の状態を積む
+  const [result, setResult] = useState<PuzzleResult | null>(null)
+  const [settings] = useSettings()
+  const progressRef = useRef(progress)
+  const [controls] = useControls()
+  const playSound = useSound(settings)
+
+  useEffect(() => {
+    setCleared(loadClearedPuzzles())
+  }, [])
+
+  const markCleared = useCallback((id: string) => {
+    setCleared(prev => {
+      if (prev.includes(id)) return prev
+      const updated = [...prev, id]
+      saveClearedPuzzles(updated)
+      return updated
+    })
+  }, [])
+
+  // 置くたびにお題を判定する。ツモを使い切るか窒息したら失敗
+  const handleLock = useCallback((events: EngineEvent[], state: EngineState, previous: EngineState) => {
+    if (!puzzle) return
+    const updated = evaluatePlacement(puzzle.objective, progressRef.current, events)
+    setHistory(prev => [...prev, { state: respawnCurrent(previous), progress: progressRef.current }])
+    progressRef.current = updated
+    setProgress(updated)
+
+    if (updated.achieved) {
+      setResult('clear')
+      markCleared(puzzle.id)
+      playSound('clear')
+    } else if (state.status === 'over') {
+      setResult('failed')
+    }
+  }, [puzzle, markCleared, playSound])
+
+  const player = usePuyoPlayer({
+    active: puzzle !== null && result === null,
+    autoFall: false, // なぞぷよは自然落下しない
+    playSound,
+    onLock: handleLock
+  })
+  const { engine, grid, chainCounter, isAnimating, dispatch, reset } = player
+
+  const restore = useCallback((state: EngineState, restored: PuzzleProgress) => {
+    reset(state)
+    progressRef.current = restored
+    setProgress(restored)
+    setResult(null)
+  }, [reset])
+
+  const startPuzzle = (selected: Puzzle) => {
+    setPuzzle(selected)
+    setHistory([])
+    restore(createPuzzleState(selected), INITIAL_PROGRESS)
+  }
+
+  const retry = () => {
+    if (puzzle) startPuzzle(puzzle)
+  }
+
+  const undo = () => {
+    const last = history[history.length - 1]
+    if (!last) return
+    setHistory(prev => prev.slice(0, -1))
+    restore(last.state, last.progress)
+  }
+
+  const nextPuzzle = puzzle && ALL_PUZZLES[ALL_PUZZLES.findIndex(item => item.id === puzzle.id) + 1]
+
+  const handleAction = useCallback((action: ControlAction) => {
+    if (!puzzle || result || isAnimating) return
+    dispatch(action)
+    playSound(CONTROL_SOUNDS[action])
+  }, [puzzle, result, isAnimating, dispatch, playSound])
+
+  usePlayerInput({ controls, gamepad: 'any', handling: settings, onAction: handleAction })
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100">
+      <style>{puyoStyles}</style>
+      <h1 className="text-4xl font-bold mb-4">なぞぷよ</h1>
+      {!puzzle && (
+        <div className="flex flex-col items-center gap-6">
+          <Link href="/" className="underline">タイトルへ</Link>
+          {PUZZLE_PACKS.map(pack => (
+            <div key={pack.id} className="flex flex-col items-center">
+              <h2 className="text-2xl font-semibold mb-2">
+                {pack.title}
+                <span className="ml-2 text-base text-gray-500">
+                  {pack.puzzles.filter(item => cleared.includes(item.id)).length} / {pack.puzzles.length}
+                </span>
+              </h2>
+              <ul className="flex flex-col gap-1">
+                {pack.puzzles.map((item, index) => (
+                  <li key={item.id}>
+                    <button onClick={() => startPuzzle(item)} className="flex gap-3 items-center hover:underline">
+                      <span className="w-4 text-green-600">{cleared.includes(item.id) ? '✓' : ''}</span>
+                      <span>{index + 1}. {item.title}</span>
+                      <span className="text-sm text-gray-500">{describeObjective(item.objective)}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+      {puzzle && (
+        <div className="flex flex-col items-center">
+          <div className="mb-4 text-center">
+            <h2 className="text-2xl font-semibold">{puzzle.title}</h2>
+            <h3 className="text-xl font-semibold text-red-600">{describeObjective(puzzle.objective)}</h3>
+            {puzzle.objective.type === 'clearColor' && (
+              <p className="text-sm text-gray-600">{Math.min(progress.colorCleared, puzzle.objective.count)} / {puzzle.objective.count}</p>
+            )}
+            <p className="text-lg">{chainCounter}連鎖</p>
+          </div>
+          <div className="flex gap-8">
+            <div className="flex flex-col items-center">
+              <Board
+                grid={grid}
+                current={isAnimating ? null : engine.current}
+                animation={player.animation}
+                ghost={settings.showGhost && engine.current && !isAnimating ? getLandingCells(grid, engine.current) : undefined}
+              />
+            </div>
+            <div className="flex flex-col items-center">
+              <h2 className="text-2xl font-semibold mb-2">Next</h2>
+              {engine.next.map((pair, index) => (
+                <PairPreview key={index} pair={pair} />
+              ))}
+              <p className="text-sm text-gray-500 mt-2">残り {engine.next.length + (engine.current ? 1 : 0)} 手</p>
+            </div>
+          </div>
+          <div className="mt-4 flex gap-4">
+            <Button onClick={undo} disabled={history.length === 0 || isAnimating}>1手戻す</Button>
+            <Button onClick={retry} disabled={isAnimating}>やり直す</Button>
+            <Button onClick={() => setPuzzle(null)}>問題選択へ</Button>
+          </div>
+        </div>
+      )}
+      {puzzle && result && (
+        <Dialog label={result === 'clear' ? 'クリア！' : '失敗…'} className="text-center">
+          <h2 className="text-3xl font-bold mb-4">{result === 'clear' ? 'クリア！' : '失敗…'}</h2>
+          <div className="flex gap-4 justify-center">
+            {result === 'clear' && nextPuzzle && <Button onClick={() => startPuzzle(nextPuzzle)}>次の問題</Button>}
+            {result === 'failed' && <Button onClick={undo}>1手戻す</Button>}
+            <Button onClick={retry}>やり直す</Button>
+            <Button onClick={() => setPuzzle(null)}>問題選択へ</Button>
+          </div>
+        </Dialog>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,182 @@
+'use client'
+
+import React, { useState, useEffect, useMemo, useRef } from 'react'
+import Link from 'next/link'
+import { Button } from "@/components/ui/button"
+import { Board, PairPreview, puyoStyles } from '@/components/puyo/Board'
+import {
+  LAST_REPLAY_KEY,
+  Replay,
+  findFrameIndex,
+  getReplayView,
+  parseReplay,
+  replayFileName,
+  serializeReplay,
+  simulateReplay
+} from '@/lib/puyo/replay'
+import { describeLinkScore } from '@/lib/puyo/scoring'
+import { GAME_MODES } from '@/lib/puyo/modes'
+import { describeRuleset } from '@/lib/puyo/ruleset'
+import { downloadFile } from '@/lib/download'
+
+// Constants
+const SPEEDS = [0.5, 1, 2]
+
+const formatTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+export default function ReplayViewer() {
+  const [replay, setReplay] = useState<Replay | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [time, setTime] = useState(0)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [speed, setSpeed] = useState(1)
+  const timeRef = useRef(0)
+
+  const frames = useMemo(() => replay ? simulateReplay(replay) : [], [replay])
+  const view = frames.length > 0 ? getReplayView(frames, time) : null
+  const frameIndex = frames.length > 0 ? findFrameIndex(frames, time) : 0
+
+  const seek = (t: number) => {
+    timeRef.current = t
+    setTime(t)
+  }
+
+  const loadReplay = (json: string) => {
+    try {
+      setReplay(parseReplay(json))
+      setError(null)
+      seek(0)
+      setIsPlaying(false)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    }
+  }
+
+  useEffect(() => {
+    const stored = localStorage.getItem(LAST_REPLAY_KEY)
+    if (stored) {
+      try {
+        setReplay(parseReplay(stored))
+      } catch {
+        localStorage.removeItem(LAST_REPLAY_KEY)
+      }
+    }
+  }, [])
+
+  // 再生ループ
+  useEffect(() => {
+    if (!isPlaying || !replay) return
+
+    let frame: number
+    let last = performance.now()
+    const tick = (now: number) => {
+      const next = Math.min(timeRef.current + (now - last) * speed, replay.duration)
+      last = now
+      timeRef.current = next
+      setTime(next)
+      if (next >= replay.duration) {
+        setIsPlaying(false)
+        return
+      }
+      frame = requestAnimationFrame(tick)
+    }
+    frame = requestAnimationFrame(tick)
+
+    return () => cancelAnimationFrame(frame)
+  }, [isPlaying, replay, speed])
+
+  const stepFrame = (direction: 1 | -1) => {
+    setIsPlaying(false)
+    const target = Math.min(Math.max(frameIndex + direction, 0), frames.length - 1)
+    seek(frames[target].t)
+  }
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+    file.text().then(loadReplay)
+    event.target.value = ''
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100">
+      <style>{puyoStyles}</style>
+      <h1 className="text-4xl font-bold mb-4">リプレイ</h1>
+      <div className="mb-4 flex gap-4 items-center">
+        <label className="px-4 py-2 bg-blue-500 text-white rounded cursor-pointer">
+          読み込む
+          <input type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        </label>
+        {replay && (
+          <Button onClick={() => downloadFile(replayFileName(replay), serializeReplay(replay))}>保存</Button>
+        )}
+        <Link href="/" className="underline">タイトルへ</Link>
+      </div>
+      {error && <p className="text-red-500 mb-4">{error}</p>}
+      {!replay && <p className="text-xl">リプレイがありません</p>}
+      {replay && view && (
+        <div className="flex flex-col items-center">
+          <div className="mb-4 text-center">
+            <h2 className="text-2xl font-semibold">Score: {view.score}</h2>
+            <h3 className="text-xl font-semibold">{view.chain}連鎖</h3>
+            <p className="text-sm text-gray-600 h-5">{view.link && describeLinkScore(replay.scoring, view.link.score)}</p>
+            <p className="text-sm text-gray-500">{GAME_MODES[replay.mode].label}　{describeRuleset(replay.rules)}　シード: {replay.seed}</p>
+          </div>
+          <div className="flex gap-8">
+            <div className="flex flex-col items-center">
+              <h2 className="text-2xl font-semibold mb-2">Hold</h2>
+              {view.held && <PairPreview pair={view.held} />}
+            </div>
+            <div className="flex flex-col items-center">
+              <Board
+                grid={view.grid}
+                current={view.current}
+                hiddenRows={replay.rules.hiddenRows}
+                animation={view.animation && { plan: view.animation, elapsed: () => view.animationTime }}
+              />
+            </div>
+            <div className="flex flex-col items-center">
+              <h2 className="text-2xl font-semibold mb-2">Next</h2>
+              {view.next.slice(0, replay.rules.nextCount).map((puyo, index) => (
+                <PairPreview key={index} pair={puyo} />
+              ))}
+            </div>
+          </div>
+          <div className="mt-4 flex flex-col items-center gap-2">
+            <input
+              type="range"
+              min={0}
+              max={replay.duration}
+              value={time}
+              onChange={(e) => seek(Number(e.target.value))}
+              className="w-80"
+            />
+            <p>{formatTime(time)} / {formatTime(replay.duration)}（{frameIndex} / {frames.length - 1}）</p>
+            <div className="flex gap-2">
+              <Button onClick={() => stepFrame(-1)}>◀</Button>
+              <Button onClick={() => {
+                if (time >= replay.duration) seek(0)
+                setIsPlaying(!isPlaying)
+              }}>
+                {isPlaying ? 'Pause' : 'Play'}
+              </Button>
+              <Button onClick={() => stepFrame(1)}>▶</Button>
+              {SPEEDS.map(value => (
+                <Button
+                  key={value}
+                  onClick={() => setSpeed(value)}
+                  className={speed === value ? 'ring-2 ring-blue-800' : ''}
+                >
+                  {value}x
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
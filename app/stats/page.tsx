@@ -0,0 +1,147 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Button } from "@/components/ui/button"
+import { puyoStyles } from '@/components/puyo/Board'
+import { ChainHistogram, ClearedBar, LineChart } from '@/components/puyo/StatsCharts'
+import { GameStats, StatsAverage, averageStats, formatDuration, mergeCleared, mergeHistograms } from '@/lib/puyo/stats'
+import { GAME_MODES } from '@/lib/puyo/modes'
+import { findRulesetPreset } from '@/lib/puyo/ruleset'
+import { clearGameHistory, loadGameHistory } from '@/lib/history'
+import { Translate } from '@/lib/i18n'
+import { useSettings } from '@/hooks/useSettings'
+import { useTranslation } from '@/hooks/useTranslation'
+
+// Constants
+const RECENT_OPTIONS = [5, 10, 20, 50]
+
+// Helper functions
+// 記録したときのモード・得点計算・ルール（ルールを選べるようになる前の記録は色数だけ）
+const describeRules = (stats: GameStats, t: Translate): string => {
+  const mode = t(`mode.${GAME_MODES[stats.mode] ? stats.mode : 'endless'}.label`)
+  const preset = stats.rules && findRulesetPreset(stats.rules)
+  const rules = !stats.rules
+    ? t('stats.colorCount', { count: stats.colorCount })
+    : preset
+      ? t(`ruleset.${preset.id}`)
+      : t('stats.customRules', { cols: stats.rules.cols, rows: stats.rules.rows, colors: stats.rules.colorCount, popSize: stats.rules.popSize })
+  return `${mode} ${t(`scoring.${stats.scoring}`)} ${rules}`
+}
+
+const AverageRow: React.FC<{ label: string, average: StatsAverage, t: Translate }> = ({ label, average, t }) => (
+  <tr className="border-b">
+    <td className="px-4 py-2">{t('stats.averageRow', { label, games: average.games })}</td>
+    <td className="px-4 py-2 text-right">{Math.round(average.score)}</td>
+    <td className="px-4 py-2 text-right">{formatDuration(average.duration)}</td>
+    <td className="px-4 py-2 text-right">{average.piecesPerMinute.toFixed(1)}</td>
+    <td className="px-4 py-2 text-right">{average.maxChain.toFixed(1)}</td>
+  </tr>
+)
+
+export default function StatsPage() {
+  const [history, setHistory] = useState<GameStats[] | null>(null)
+  const [recentCount, setRecentCount] = useState(RECENT_OPTIONS[1])
+  const [error, setError] = useState<string | null>(null)
+  const [settings] = useSettings()
+  const [t, locale] = useTranslation(settings.language)
+
+  useEffect(() => {
+    loadGameHistory()
+      .then(setHistory)
+      .catch(() => setError(t('stats.loadError')))
+  }, [t])
+
+  const clearHistory = async () => {
+    if (!window.confirm(t('stats.clearConfirm'))) return
+    await clearGameHistory()
+    setHistory([])
+  }
+
+  const recent = history ? history.slice(-recentCount) : []
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 py-8">
+      <style>{puyoStyles}</style>
+      <h1 className="text-4xl font-bold mb-4">{t('nav.stats')}</h1>
+      <div className="mb-4 flex gap-4 items-center">
+        <label className="flex items-center gap-2">
+          {t('stats.compare')}
+          <select value={recentCount} onChange={(e) => setRecentCount(Number(e.target.value))} className="p-2 border rounded">
+            {RECENT_OPTIONS.map(count => (
+              <option key={count} value={count}>{t('stats.recent', { count })}</option>
+            ))}
+          </select>
+        </label>
+        <Button onClick={clearHistory} disabled={!history || history.length === 0}>{t('stats.clear')}</Button>
+        <Link href="/" className="underline">{t('nav.title')}</Link>
+      </div>
+      {error && <p className="text-red-500 mb-4">{error}</p>}
+      {history && history.length === 0 && <p className="text-xl">{t('stats.empty')}</p>}
+      {history && history.length > 0 && (
+        <div className="flex flex-col items-center gap-6">
+          <div className="flex gap-4 flex-wrap justify-center">
+            <LineChart label={t('stats.score')} values={history.map(stats => stats.score)} t={t} />
+            <LineChart label={t('stats.piecesPerMinute')} values={history.map(stats => stats.piecesPerMinute)} format={value => value.toFixed(1)} t={t} />
+            <LineChart label={t('stats.maxChain')} values={history.map(stats => stats.maxChain)} t={t} />
+          </div>
+          <table className="bg-white rounded shadow">
+            <thead>
+              <tr className="border-b">
+                <th className="px-4 py-2 text-left">{t('stats.average')}</th>
+                <th className="px-4 py-2 text-right">{t('stats.score')}</th>
+                <th className="px-4 py-2 text-right">{t('stats.duration')}</th>
+                <th className="px-4 py-2 text-right">{t('stats.piecesPerMinute')}</th>
+                <th className="px-4 py-2 text-right">{t('stats.maxChain')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              <AverageRow label={t('stats.recent', { count: recentCount })} average={averageStats(recent)} t={t} />
+              <AverageRow label={t('stats.all')} average={averageStats(history)} t={t} />
+            </tbody>
+          </table>
+          <div className="flex gap-12 items-end">
+            <div className="flex flex-col items-center">
+              <h3 className="font-semibold mb-2">{t('stats.chainDistribution', { count: recentCount })}</h3>
+              <ChainHistogram histogram={mergeHistograms(recent)} t={t} />
+            </div>
+            <div className="flex flex-col items-center">
+              <h3 className="font-semibold mb-2">{t('stats.cleared', { count: recentCount })}</h3>
+              <ClearedBar cleared={mergeCleared(recent)} t={t} />
+            </div>
+          </div>
+          <table className="bg-white rounded shadow">
+            <thead>
+              <tr className="border-b">
+                <th className="px-4 py-2">{t('stats.playedAt')}</th>
+                <th className="px-4 py-2 text-left">{t('stats.rules')}</th>
+                <th className="px-4 py-2 text-right">{t('stats.score')}</th>
+                <th className="px-4 py-2 text-right">{t('stats.duration')}</th>
+                <th className="px-4 py-2 text-right">{t('stats.pieces')}</th>
+                <th className="px-4 py-2 text-right">{t('stats.perMinute')}</th>
+                <th className="px-4 py-2 text-right">{t('stats.maxChain')}</th>
+                <th className="px-4 py-2 text-right">{t('stats.holds')}</th>
+                <th className="px-4 py-2 text-right">{t('stats.hardDrops')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...recent].reverse().map(stats => (
+                <tr key={stats.id} className="border-b">
+                  <td className="px-4 py-2">{new Date(stats.playedAt).toLocaleString(locale)}</td>
+                  <td className="px-4 py-2">{describeRules(stats, t)}</td>
+                  <td className="px-4 py-2 text-right">{stats.score}</td>
+                  <td className="px-4 py-2 text-right">{formatDuration(stats.duration)}</td>
+                  <td className="px-4 py-2 text-right">{stats.piecesPlaced}</td>
+                  <td className="px-4 py-2 text-right">{stats.piecesPerMinute.toFixed(1)}</td>
+                  <td className="px-4 py-2 text-right">{stats.maxChain}</td>
+                  <td className="px-4 py-2 text-right">{stats.holds}</td>
+                  <td className="px-4 py-2 text-right">{stats.hardDrops}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
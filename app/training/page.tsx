@@ -0,0 +1,180 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { Button } from "@/components/ui/button"
+import { Board, PairPreview, getPuyoColorClass, getPuyoColorName, puyoStyles } from '@/components/puyo/Board'
+import { ChainLink, ControlAction, EngineEvent, EngineState, Grid, PuyoColor, createInitialState, getLandingCells, respawnCurrent } from '@/lib/puyo/engine'
+import { CONTROL_SOUNDS } from '@/lib/puyo/controls'
+import { COLORS, PairColors, randomSeed } from '@/lib/puyo/sequence'
+import { describeLinkScore } from '@/lib/puyo/scoring'
+import { editQueuePair, previewPlacement, rerollQueue } from '@/lib/puyo/training'
+import { useSound } from '@/hooks/useSound'
+import { usePuyoPlayer } from '@/hooks/usePuyoPlayer'
+import { useSettings } from '@/hooks/useSettings'
+import { useChainSimulation } from '@/hooks/useChainSimulation'
+import { useControls } from '@/hooks/useControls'
+import { usePlayerInput } from '@/hooks/usePlayerInput'
+
+// Constants
+const UNDO_KEY = 'z'
+const REDO_KEY = 'y'
+const FIRE_TEST_KEY = 'f'
+const NO_FIRE_TEST = { grid: [] as Grid, links: [] as ChainLink[] }
+
+export default function TrainingPage() {
+  const [history, setHistory] = useState<EngineState[]>([]) // 置く前の状態
+  const [future, setFuture] = useState<EngineState[]>([])   // 戻した手（やり直し用）
+  const [fireTest, setFireTest] = useState<{ grid: Grid, links: ChainLink[] } | null>(null)
+  const [paint, setPaint] = useState<PuyoColor>(COLORS[0])
+  const [settings] = useSettings()
+  const [controls] = useControls()
+  const playSound = useSound(settings)
+
+  // 置いた手を履歴に積む。新しく置いたらやり直し用の履歴は捨てる
+  const handleLock = useCallback((_events: EngineEvent[], _state: EngineState, previous: EngineState) => {
+    setHistory(prev => [...prev, respawnCurrent(previous)])
+    setFuture([])
+  }, [])
+
+  const player = usePuyoPlayer({
+    active: fireTest === null,
+    autoFall: false, // 練習中は自然落下しない
+    playSound,
+    onLock: handleLock
+  })
+  const { engine, grid, isAnimating, dispatch, reset } = player
+  const chain = useChainSimulation(fireTest?.grid ?? NO_FIRE_TEST.grid, fireTest?.links ?? NO_FIRE_TEST.links)
+
+  const restart = useCallback(() => {
+    reset(createInitialState(randomSeed()))
+    setHistory([])
+    setFuture([])
+    setFireTest(null)
+  }, [reset])
+
+  useEffect(() => {
+    restart()
+  }, [restart])
+
+  const undo = useCallback(() => {
+    const last = history[history.length - 1]
+    if (!last || isAnimating) return
+    setHistory(prev => prev.slice(0, -1))
+    setFuture(prev => [...prev, engine])
+    reset(last)
+  }, [history, engine, isAnimating, reset])
+
+  const redo = useCallback(() => {
+    const last = future[future.length - 1]
+    if (!last || isAnimating) return
+    setFuture(prev => prev.slice(0, -1))
+    setHistory(prev => [...prev, respawnCurrent(engine)])
+    reset(last)
+  }, [future, engine, isAnimating, reset])
+
+  // 今の位置に置いたら起きる連鎖を、盤面を変えずに再生する
+  const startFireTest = useCallback(() => {
+    const preview = previewPlacement(engine)
+    if (!preview) return
+    setFireTest(preview)
+    chain.play()
+  }, [engine, chain])
+
+  const paintNext = (index: number, key: keyof PairColors) => {
+    reset(editQueuePair(engine, index, key, paint))
+  }
+
+  // 発火テスト中はどの操作でもテストを終える
+  const handleAction = useCallback((action: ControlAction) => {
+    if (fireTest) {
+      setFireTest(null)
+      return
+    }
+    if (isAnimating) return
+    dispatch(action)
+    playSound(CONTROL_SOUNDS[action])
+  }, [fireTest, isAnimating, dispatch, playSound])
+
+  usePlayerInput({
+    controls,
+    gamepad: 'any',
+    handling: settings,
+    onAction: handleAction,
+    onKeyDown: (e) => {
+      if (fireTest) return setFireTest(null)
+      if (isAnimating) return
+
+      const key = e.key.toLowerCase()
+      if (key === UNDO_KEY) undo()
+      if (key === REDO_KEY) redo()
+      if (key === FIRE_TEST_KEY) startFireTest()
+    }
+  })
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100">
+      <style>{puyoStyles}</style>
+      <h1 className="text-4xl font-bold mb-4">とこぷよ練習</h1>
+      <div className="mb-4 text-center">
+        <h2 className="text-2xl font-semibold">Score: {player.score}</h2>
+        <h3 className="text-xl font-semibold">{fireTest ? `発火テスト: ${chain.link?.chain ?? 0}連鎖` : `${player.chainCounter}連鎖`}</h3>
+        <p className="text-sm text-gray-600 h-5">
+          {fireTest
+            ? fireTest.links.length === 0 ? '連鎖しません' : chain.link && describeLinkScore(engine.scoring, chain.link.score)
+            : player.lastLink && describeLinkScore(engine.scoring, player.lastLink.score)}
+        </p>
+      </div>
+      <div className="flex gap-8">
+        <div className="flex flex-col items-center">
+          <h2 className="text-2xl font-semibold mb-2">Hold</h2>
+          {engine.held && <PairPreview pair={engine.held} />}
+        </div>
+        <div className="flex flex-col items-center">
+          {fireTest ? (
+            <Board grid={chain.grid} />
+          ) : (
+            <Board
+              grid={grid}
+              current={isAnimating ? null : engine.current}
+              animation={player.animation}
+              ghost={settings.showGhost && engine.current && !isAnimating ? getLandingCells(grid, engine.current) : undefined}
+              banner={engine.status === 'over' ? 'Game Over' : player.allClear ? '全消し！' : undefined}
+            />
+          )}
+        </div>
+        <div className="flex flex-col items-center">
+          <h2 className="text-2xl font-semibold mb-2">Next</h2>
+          {engine.next.map((pair, index) => (
+            <div key={index} className="flex flex-col mb-2">
+              <button className={`puyo-cell ${getPuyoColorClass(pair.color2)}`} aria-label={`ネクスト${index + 1}の上：${getPuyoColorName(pair.color2)}`} onClick={() => paintNext(index, 'color2')} />
+              <button className={`puyo-cell ${getPuyoColorClass(pair.color1)}`} aria-label={`ネクスト${index + 1}の下：${getPuyoColorName(pair.color1)}`} onClick={() => paintNext(index, 'color1')} />
+            </div>
+          ))}
+          <div className="flex gap-1 mt-2">
+            {COLORS.map(color => (
+              <button
+                key={color}
+                onClick={() => setPaint(color)}
+                aria-label={getPuyoColorName(color)}
+                aria-pressed={paint === color}
+                className={`w-4 h-4 ${getPuyoColorClass(color)} ${paint === color ? 'ring-2 ring-black' : ''}`}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+      <div className="mt-4 flex gap-4">
+        <Button onClick={undo} disabled={history.length === 0 || isAnimating}>1手戻す（{UNDO_KEY.toUpperCase()}）</Button>
+        <Button onClick={redo} disabled={future.length === 0 || isAnimating}>やり直し（{REDO_KEY.toUpperCase()}）</Button>
+        <Button onClick={fireTest ? () => setFireTest(null) : startFireTest} disabled={isAnimating || !engine.current}>
+          {fireTest ? 'テスト終了' : `発火テスト（${FIRE_TEST_KEY.toUpperCase()}）`}
+        </Button>
+        <Button onClick={() => reset(rerollQueue(engine, randomSeed()))} disabled={isAnimating}>ネクストを引き直す</Button>
+        <Button onClick={restart}>リセット</Button>
+        <Link href="/" className="px-4 py-2 underline">タイトルへ</Link>
+      </div>
+      <p className="text-sm text-gray-500 mt-2">ネクストのぷよをクリックすると、選んだ色に書き換えます</p>
+    </div>
+  )
+}
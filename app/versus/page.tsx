@@ -0,0 +1,181 @@
+'use client'
+
+import React, { useState, useEffect, useCallback, useRef } from 'react'
+import Link from 'next/link'
+import { Button } from "@/components/ui/button"
+import { Dialog } from '@/components/ui/dialog'
+import { puyoStyles } from '@/components/puyo/Board'
+import { PlayerField } from '@/components/puyo/PlayerField'
+import { VIRTUAL_PAD_HEIGHT, VirtualPad } from '@/components/puyo/VirtualPad'
+import { ControlAction, createInitialState } from '@/lib/puyo/engine'
+import { DIFFICULTIES, Difficulty } from '@/lib/puyo/ai'
+import { CONTROL_SOUNDS } from '@/lib/puyo/controls'
+import { randomSeed } from '@/lib/puyo/sequence'
+import { useMusic, useSound } from '@/hooks/useSound'
+import { usePuyoPlayer } from '@/hooks/usePuyoPlayer'
+import { useCpuPlayer } from '@/hooks/useCpuPlayer'
+import { useSettings } from '@/hooks/useSettings'
+import { useControls } from '@/hooks/useControls'
+import { usePlayerInput } from '@/hooks/usePlayerInput'
+import { useTouchControls } from '@/hooks/useTouchControls'
+import { useCellSize } from '@/hooks/useCellSize'
+import { useTranslation } from '@/hooks/useTranslation'
+
+// Types
+type VersusState = 'title' | 'active' | 'over'
+type Side = 'player' | 'opponent'
+
+// Constants
+const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  easy: 'かんたん',
+  normal: 'ふつう',
+  hard: 'むずかしい'
+}
+const FIELD_SIDE_WIDTH = 120 // 盤面の横のネクストと余白（px）
+const FIELD_HUD_HEIGHT = 320 // 見出し・スコア・ボタン（px）
+
+export default function VersusGame() {
+  const [versusState, setVersusState] = useState<VersusState>('title')
+  const [isPaused, setIsPaused] = useState(false)
+  const [winner, setWinner] = useState<Side | null>(null)
+  const [difficulty, setDifficulty] = useState<Difficulty>('normal')
+  const [settings] = useSettings()
+  const [controls] = useControls()
+  const [t] = useTranslation(settings.language)
+  const playSound = useSound(settings)
+  const sendToOpponent = useRef<(count: number) => void>(() => {})
+  const sendToPlayer = useRef<(count: number) => void>(() => {})
+
+  const active = versusState === 'active' && !isPaused
+  useMusic(active)
+
+  const handleGameOver = useCallback((loser: Side) => {
+    setWinner(prev => prev ?? (loser === 'player' ? 'opponent' : 'player'))
+    setVersusState('over')
+  }, [])
+
+  const player = usePuyoPlayer({
+    active,
+    lockDelay: settings.lockDelay,
+    playSound,
+    onGarbage: useCallback((count: number) => sendToOpponent.current(count), []),
+    onGameOver: useCallback(() => handleGameOver('player'), [handleGameOver])
+  })
+  const opponent = usePuyoPlayer({
+    active,
+    playSound,
+    onGarbage: useCallback((count: number) => sendToPlayer.current(count), []),
+    onGameOver: useCallback(() => handleGameOver('opponent'), [handleGameOver])
+  })
+
+  useEffect(() => {
+    sendToOpponent.current = opponent.receiveGarbage
+    sendToPlayer.current = player.receiveGarbage
+  }, [player.receiveGarbage, opponent.receiveGarbage])
+
+  const startGame = () => {
+    // 両者に同じツモを配る
+    const seed = randomSeed()
+    player.reset(createInitialState(seed))
+    opponent.reset(createInitialState(seed))
+    setWinner(null)
+    setIsPaused(false)
+    setVersusState('active')
+  }
+
+  const togglePause = useCallback(() => {
+    setIsPaused(prev => !prev)
+  }, [])
+
+  const { dispatch, isAnimating } = player
+  const handleAction = useCallback((action: ControlAction) => {
+    if (isPaused || isAnimating || versusState !== 'active') return
+    dispatch(action)
+    playSound(CONTROL_SOUNDS[action])
+  }, [versusState, isPaused, isAnimating, dispatch, playSound])
+
+  const { press, release } = usePlayerInput({
+    controls,
+    gamepad: 'any',
+    handling: settings,
+    onAction: handleAction,
+    onKeyDown: (e) => {
+      if (e.key.toLowerCase() === 'escape') togglePause()
+    },
+    onStart: togglePause
+  })
+  const touchRef = useTouchControls({ handling: settings, onAction: handleAction })
+  // 2人分の盤面を横に並べるので、画面の幅を半分ずつ使う
+  const cellSize = useCellSize(player.engine.rules.cols, player.engine.rules.rows, {
+    reservedWidth: FIELD_SIDE_WIDTH,
+    reservedHeight: FIELD_HUD_HEIGHT + (settings.virtualPad ? VIRTUAL_PAD_HEIGHT : 0),
+    share: 0.5
+  })
+
+  useCpuPlayer({
+    engine: opponent.engine,
+    active,
+    isAnimating: opponent.isAnimating,
+    settings: DIFFICULTIES[difficulty],
+    dispatch: opponent.dispatch
+  })
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100">
+      <style>{puyoStyles}</style>
+      <h1 className="text-4xl font-bold mb-4">対戦</h1>
+      {versusState === 'title' && (
+        <div className="text-center">
+          <Button onClick={startGame} className="mb-4">対戦スタート</Button>
+          <Link href="/" className="mb-4 ml-4 underline">タイトルへ</Link>
+          <div className="flex gap-2 justify-center">
+            CPU:
+            {(Object.keys(DIFFICULTIES) as Difficulty[]).map(level => (
+              <label key={level} className="flex items-center gap-1">
+                <input
+                  type="radio"
+                  name="difficulty"
+                  checked={difficulty === level}
+                  onChange={() => setDifficulty(level)}
+                />
+                {DIFFICULTY_LABELS[level]}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+      {versusState !== 'title' && (
+        <div className="flex flex-col items-center">
+          <div className="flex gap-2 sm:gap-12">
+            <PlayerField label="1P" player={player} cellSize={cellSize} boardRef={touchRef} />
+            <PlayerField label={`CPU（${DIFFICULTY_LABELS[difficulty]}）`} player={opponent} cellSize={cellSize} />
+          </div>
+          <div className="mt-4 flex gap-4">
+            {versusState === 'active' && <Button onClick={togglePause}>{isPaused ? 'Resume' : 'Pause'}</Button>}
+            <Button onClick={startGame}>Restart</Button>
+            <Link href="/" className="px-4 py-2 underline">タイトルへ</Link>
+          </div>
+          {settings.virtualPad && versusState === 'active' && <VirtualPad onPress={press} onRelease={release} t={t} />}
+        </div>
+      )}
+      {versusState === 'over' && winner && (
+        <Dialog label={winner === 'player' ? 'YOU WIN' : 'YOU LOSE'} className="text-center">
+          <h2 className="text-3xl font-bold mb-4">{winner === 'player' ? 'YOU WIN' : 'YOU LOSE'}</h2>
+          <div className="flex gap-4 justify-center">
+            <Button onClick={startGame}>もう一度</Button>
+            <Link href="/" className="px-4 py-2 underline">タイトルへ</Link>
+          </div>
+        </Dialog>
+      )}
+      {isPaused && (
+        <Dialog label="ポーズ">
+          <h2 className="text-3xl font-bold mb-4">Paused</h2>
+          <div className="flex gap-4">
+            <Button onClick={togglePause}>Resume</Button>
+            <Button onClick={startGame}>Restart</Button>
+          </div>
+        </Dialog>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,24 @@
+import { DEFAULT_LOCALE, FALLBACK_LOCALE, LOCALES, LOCALE_PENDING_ATTRIBUTE } from '@/lib/i18n'
+import { SETTINGS_KEY } from '@/lib/settings'
+
+const MAX_PENDING_MS = 3000
+
+// ページは既定の言語で静的に書き出すので、描画より前に保存された設定とブラウザの言語から <html lang> を決める
+// 既定と違う言語なら、翻訳した内容に描き替わる（applyLocale が呼ばれる）まで本文を隠す
+// スクリプトが読み込めなかったときに隠れたままにならないよう、一定時間で必ず表示する
+const script = `(() => {
+  try {
+    const locales = ${JSON.stringify(LOCALES)}
+    const saved = JSON.parse(localStorage.getItem(${JSON.stringify(SETTINGS_KEY)}) || '{}').language
+    const detected = navigator.languages.map(tag => tag.toLowerCase().split('-')[0]).find(tag => locales.includes(tag))
+    const locale = locales.includes(saved) ? saved : detected || ${JSON.stringify(FALLBACK_LOCALE)}
+    if (locale === ${JSON.stringify(DEFAULT_LOCALE)}) return
+    document.documentElement.lang = locale
+    document.documentElement.setAttribute(${JSON.stringify(LOCALE_PENDING_ATTRIBUTE)}, '')
+    setTimeout(() => document.documentElement.removeAttribute(${JSON.stringify(LOCALE_PENDING_ATTRIBUTE)}), ${MAX_PENDING_MS})
+  } catch {}
+})()`
+
+export const LocaleScript: React.FC = () => (
+  <script dangerouslySetInnerHTML={{ __html: script }} />
+)
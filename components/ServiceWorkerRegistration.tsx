@@ -0,0 +1,21 @@
+'use client'
+
+import { useEffect } from 'react'
+
+// オフラインで遊べるようにサービスワーカーを登録する（開発中はキャッシュが邪魔になるので本番だけ）
+export const ServiceWorkerRegistration: React.FC = () => {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return
+
+    navigator.serviceWorker.register('/sw.js')
+      .then(() => navigator.serviceWorker.ready)
+      .then(registration => {
+        // 登録より前に読み込んだスクリプトやスタイルもキャッシュしてもらう
+        const urls = performance.getEntriesByType('resource').map(entry => entry.name)
+        registration.active?.postMessage({ type: 'cache', urls: [location.href, ...urls] })
+      })
+      .catch(() => {})
+  }, [])
+
+  return null
+}
@@ -0,0 +1,18 @@
+'use client'
+
+import { useLayoutEffect } from 'react'
+import { loadSettings } from '@/lib/settings'
+import { applyAppearance } from '@/lib/theme'
+import { applyLocale, resolveLocale } from '@/lib/i18n'
+
+// 保存されたテーマと言語をどのページでも最初に反映する（設定を使わないページもあるのでレイアウトに置く）
+// 隠していた本文を表示する前に反映したいので、描画前に実行する
+export const SettingsLoader: React.FC = () => {
+  useLayoutEffect(() => {
+    const { theme, colorShapes, language } = loadSettings()
+    applyAppearance(theme, colorShapes)
+    applyLocale(resolveLocale(language, navigator.languages))
+  }, [])
+
+  return null
+}
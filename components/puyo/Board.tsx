@@ -0,0 +1,308 @@
+import React, { useEffect, useRef } from 'react'
+import { Cell, Grid, HIDDEN_ROWS, PuyoColor, PuyoPair } from '@/lib/puyo/engine'
+import { AnimationClock, ChainPopup, POP_MS, sampleAnimation } from '@/lib/puyo/animation'
+import { DEFAULT_CELL_SIZE } from '@/hooks/useCellSize'
+import { Appearance, PUYO_GLYPHS, THEMES, Theme, readAppearance } from '@/lib/theme'
+import { DEFAULT_LOCALE, Translate, createTranslator } from '@/lib/i18n'
+
+const PUYO_COLOR_KEYS = Object.keys(PUYO_GLYPHS) as NonNullable<PuyoColor>[]
+const DEFAULT_TRANSLATE = createTranslator(DEFAULT_LOCALE) // 翻訳に対応していないページ用
+
+// Custom CSS classes (in case Tailwind classes are not available)
+// 盤面は canvas に描くので、ホールド・ネクストなどの表示で使う
+// 色はテーマの CSS 変数から取り、記号表示が有効なら色ごとの記号を重ねる
+export const puyoStyles = `
+${PUYO_COLOR_KEYS.map(color => `  .puyo-${color} { background-color: var(--puyo-${color}, ${THEMES.classic.puyo[color]}); }`).join('\n')}
+  .puyo-red, .puyo-green, .puyo-blue, .puyo-yellow, .puyo-purple, .puyo-garbage {
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    box-shadow: inset 0 0 0 2px var(--puyo-outline, transparent);
+    color: var(--puyo-glyph, #FFFFFF);
+    font-size: 0.75rem;
+    line-height: 1;
+  }
+${PUYO_COLOR_KEYS.map(color => `  [data-color-shapes='on'] .puyo-${color}::after { content: '${PUYO_GLYPHS[color]}'; }`).join('\n')}
+  .puyo-cell {
+    width: var(--puyo-cell-size, 2rem);
+    height: var(--puyo-cell-size, 2rem);
+    border: 1px solid #D1D5DB;
+    transition: all 0.2s;
+  }
+  .puyo-cell::after { font-size: 1rem; }
+`
+
+export const getPuyoColorClass = (color: PuyoColor): string => {
+  switch (color) {
+    case 'garbage': return 'puyo-garbage rounded-full'
+    case null: return 'bg-gray-100'
+    default: return `puyo-${color}`
+  }
+}
+
+// 読み上げや凡例で使う色の名前（空きマスは color.none）
+export const getPuyoColorName = (color: PuyoColor, t: Translate = DEFAULT_TRANSLATE): string => t(`color.${color ?? 'none'}`)
+
+interface BoardProps {
+  grid: Grid
+  current?: PuyoPair | null
+  ghost?: Cell[]      // 着地位置のゴースト
+  highlight?: Cell[]  // 消える予定のぷよ
+  banner?: string     // 盤面中央に重ねて表示する文字（全消しなど）
+  hiddenRows?: number // 表示しない上の段数（ルールによって変わる）
+  animation?: AnimationClock | null // 固定・連鎖のアニメーション。再生中は grid の代わりに描く
+  cellSize?: number   // 表示する1マスの大きさ（px）。画面に合わせて変える
+  onCellPaint?: (x: number, y: number) => void // エディタ用。クリック・ドラッグしたマス
+  t?: Translate
+}
+
+// 操作中のぷよの表示位置（目標位置に滑らかに追いつく）
+interface ShownPair {
+  x: number
+  y: number
+  angle: number
+  color1: PuyoColor
+  color2: PuyoColor
+}
+
+// Constants
+const CELL_SIZE = 32           // 描画に使う1マスの大きさ。表示の大きさには canvas ごと拡大縮小する
+const PUYO_RADIUS = 0.42      // マスに対する半径
+const BRIDGE_WIDTH = 0.55     // 同じ色のぷよをつなぐ部分の太さ（マスに対する割合）
+const SMOOTH_MS = 40          // 操作中のぷよが目標位置に追いつく速さ
+const FLASH_MS = 60           // 消える前の点滅の間隔
+const FLASH_PART = 0.6        // 消えるアニメーションのうち点滅している割合
+const GLYPH_SIZE = 0.5        // 記号の大きさ（マスに対する割合）
+
+// Helper functions
+// x, y は表示上のマス（小数可）
+const drawPuyo = (ctx: CanvasRenderingContext2D, { theme, shapes }: Appearance, x: number, y: number, color: PuyoColor, scale = 1) => {
+  if (!color || scale <= 0) return
+  const cx = (x + 0.5) * CELL_SIZE
+  const cy = (y + 0.5) * CELL_SIZE
+  const radius = PUYO_RADIUS * CELL_SIZE * scale
+  ctx.fillStyle = theme.puyo[color]
+  ctx.beginPath()
+  ctx.arc(cx, cy, radius, 0, Math.PI * 2)
+  ctx.fill()
+  if (theme.outline) {
+    ctx.strokeStyle = theme.outline
+    ctx.lineWidth = 2
+    ctx.stroke()
+  }
+  if (shapes) {
+    ctx.fillStyle = theme.glyph
+    ctx.font = `bold ${Math.round(GLYPH_SIZE * CELL_SIZE * scale)}px sans-serif`
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'middle'
+    ctx.fillText(PUYO_GLYPHS[color], cx, cy + 1)
+    return
+  }
+  // つや（記号と重なるので記号表示のときは描かない）
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.35)'
+  ctx.beginPath()
+  ctx.arc(cx - radius * 0.35, cy - radius * 0.35, radius * 0.3, 0, Math.PI * 2)
+  ctx.fill()
+}
+
+// 隣り合う同じ色のぷよ（おじゃまぷよと見えない段は除く）をつなげて描く
+const drawBridges = (ctx: CanvasRenderingContext2D, theme: Theme, grid: Grid, hiddenRows: number) => {
+  const width = BRIDGE_WIDTH * CELL_SIZE
+  grid.forEach((row, y) => row.forEach((color, x) => {
+    if (!color || color === 'garbage' || y < hiddenRows) return
+    ctx.fillStyle = theme.puyo[color]
+    const top = (y - hiddenRows + 0.5) * CELL_SIZE
+    const left = (x + 0.5) * CELL_SIZE
+    if (row[x + 1] === color) ctx.fillRect(left, top - width / 2, CELL_SIZE, width)
+    if (grid[y + 1]?.[x] === color) ctx.fillRect(left - width / 2, top, width, CELL_SIZE)
+  }))
+}
+
+const drawGrid = (ctx: CanvasRenderingContext2D, appearance: Appearance, grid: Grid, hiddenRows: number) => {
+  drawBridges(ctx, appearance.theme, grid, hiddenRows)
+  grid.forEach((row, y) => row.forEach((color, x) => drawPuyo(ctx, appearance, x, y - hiddenRows, color)))
+}
+
+const drawBackground = (ctx: CanvasRenderingContext2D, theme: Theme, cols: number, rows: number) => {
+  ctx.fillStyle = theme.background
+  ctx.fillRect(0, 0, cols * CELL_SIZE, rows * CELL_SIZE)
+  ctx.strokeStyle = theme.gridLine
+  ctx.lineWidth = 1
+  for (let x = 0; x <= cols; x++) {
+    ctx.beginPath()
+    ctx.moveTo(x * CELL_SIZE + 0.5, 0)
+    ctx.lineTo(x * CELL_SIZE + 0.5, rows * CELL_SIZE)
+    ctx.stroke()
+  }
+  for (let y = 0; y <= rows; y++) {
+    ctx.beginPath()
+    ctx.moveTo(0, y * CELL_SIZE + 0.5)
+    ctx.lineTo(cols * CELL_SIZE, y * CELL_SIZE + 0.5)
+    ctx.stroke()
+  }
+}
+
+const drawPopup = (ctx: CanvasRenderingContext2D, theme: Theme, popup: ChainPopup, hiddenRows: number, t: Translate) => {
+  ctx.globalAlpha = 1 - popup.progress * popup.progress
+  ctx.font = 'bold 18px sans-serif'
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'middle'
+  ctx.lineWidth = 4
+  ctx.strokeStyle = '#FFFFFF'
+  ctx.fillStyle = theme.puyo.yellow
+  const text = t('game.chain', { chain: popup.chain })
+  const x = (popup.x + 0.5) * CELL_SIZE
+  const y = (popup.y - hiddenRows + 0.5 - popup.progress) * CELL_SIZE
+  ctx.strokeText(text, x, y)
+  ctx.fillText(text, x, y)
+  ctx.globalAlpha = 1
+}
+
+// 目標の向きに最短で回る角度
+const nearestAngle = (from: number, rotation: number): number => {
+  const target = (rotation * Math.PI) / 2
+  const diff = ((target - from) % (Math.PI * 2) + Math.PI * 3) % (Math.PI * 2) - Math.PI
+  return from + diff
+}
+
+// 前回の表示位置から目標に近づける。別のぷよに替わったか大きく離れたらそのまま移す
+const followPair = (shown: ShownPair | null, pair: PuyoPair, dt: number): ShownPair => {
+  const target = { x: pair.x, y: pair.y, angle: (pair.rotation * Math.PI) / 2, color1: pair.color1, color2: pair.color2 }
+  if (
+    !shown || shown.color1 !== pair.color1 || shown.color2 !== pair.color2 ||
+    Math.abs(shown.x - pair.x) > 2 || Math.abs(shown.y - pair.y) > 2
+  ) {
+    return target
+  }
+  const t = 1 - Math.exp(-dt / SMOOTH_MS)
+  const angle = nearestAngle(shown.angle, pair.rotation)
+  return {
+    ...target,
+    x: shown.x + (pair.x - shown.x) * t,
+    y: shown.y + (pair.y - shown.y) * t,
+    angle: shown.angle + (angle - shown.angle) * t
+  }
+}
+
+export const Board: React.FC<BoardProps> = (props) => {
+  const { grid, banner, hiddenRows = HIDDEN_ROWS, cellSize = DEFAULT_CELL_SIZE, onCellPaint, t = DEFAULT_TRANSLATE } = props
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const propsRef = useRef(props)
+  const lastPainted = useRef<string | null>(null)
+  const rows = grid.length - hiddenRows
+  const cols = grid[0]?.length ?? 0
+
+  useEffect(() => {
+    propsRef.current = props
+  })
+
+  // 毎フレーム最新の props から描き直す
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext('2d')
+    if (!canvas || !ctx) return
+
+    const ratio = (window.devicePixelRatio || 1) * (cellSize / CELL_SIZE)
+    canvas.width = Math.round(cols * CELL_SIZE * ratio)
+    canvas.height = Math.round(rows * CELL_SIZE * ratio)
+    let shown: ShownPair | null = null
+    let last = performance.now()
+    let frame = 0
+
+    const draw = (now: number) => {
+      const { grid, current, ghost, highlight, animation, hiddenRows = HIDDEN_ROWS, t = DEFAULT_TRANSLATE } = propsRef.current
+      const dt = now - last
+      last = now
+      const animationFrame = animation ? sampleAnimation(animation.plan, animation.elapsed()) : null
+      const appearance = readAppearance()
+
+      ctx.setTransform(ratio, 0, 0, ratio, 0, 0)
+      ctx.clearRect(0, 0, cols * CELL_SIZE, rows * CELL_SIZE)
+      ctx.translate((animationFrame?.shake ?? 0) * CELL_SIZE, 0)
+      drawBackground(ctx, appearance.theme, cols, rows)
+
+      if (animationFrame) {
+        drawGrid(ctx, appearance, animationFrame.grid, hiddenRows)
+        animationFrame.falling.forEach(({ x, y, color }) => drawPuyo(ctx, appearance, x, y - hiddenRows, color))
+        // 点滅してから縮んで消える
+        const { popProgress } = animationFrame
+        const flashing = popProgress < FLASH_PART
+        const lit = flashing && Math.floor((popProgress * POP_MS) / FLASH_MS) % 2 === 1
+        animationFrame.popping.forEach(({ x, y, color }) => {
+          drawPuyo(ctx, appearance, x, y - hiddenRows, color, flashing ? 1 : 1 - (popProgress - FLASH_PART) / (1 - FLASH_PART))
+          if (!lit) return
+          ctx.fillStyle = 'rgba(255, 255, 255, 0.7)'
+          ctx.beginPath()
+          ctx.arc((x + 0.5) * CELL_SIZE, (y - hiddenRows + 0.5) * CELL_SIZE, PUYO_RADIUS * CELL_SIZE, 0, Math.PI * 2)
+          ctx.fill()
+        })
+        animationFrame.popups.forEach(popup => drawPopup(ctx, appearance.theme, popup, hiddenRows, t))
+      } else {
+        drawGrid(ctx, appearance, grid, hiddenRows)
+        ctx.globalAlpha = 0.35
+        ghost?.forEach(({ x, y, color }) => drawPuyo(ctx, appearance, x, y - hiddenRows, color))
+        ctx.globalAlpha = 1
+        if (highlight && highlight.length > 0) {
+          ctx.strokeStyle = `rgba(255, 255, 255, ${0.6 + 0.4 * Math.sin(now / 100)})`
+          ctx.lineWidth = 3
+          highlight.forEach(({ x, y }) => {
+            ctx.beginPath()
+            ctx.arc((x + 0.5) * CELL_SIZE, (y - hiddenRows + 0.5) * CELL_SIZE, PUYO_RADIUS * CELL_SIZE - 1.5, 0, Math.PI * 2)
+            ctx.stroke()
+          })
+        }
+      }
+
+      shown = current ? followPair(shown, current, dt) : null
+      if (shown) {
+        drawPuyo(ctx, appearance, shown.x, shown.y - hiddenRows, shown.color1)
+        drawPuyo(ctx, appearance, shown.x + Math.sin(shown.angle), shown.y - Math.cos(shown.angle) - hiddenRows, shown.color2)
+      }
+
+      frame = requestAnimationFrame(draw)
+    }
+    frame = requestAnimationFrame(draw)
+    return () => cancelAnimationFrame(frame)
+  }, [rows, cols, cellSize])
+
+  const paintAt = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!onCellPaint) return
+    const rect = e.currentTarget.getBoundingClientRect()
+    const x = Math.floor((e.clientX - rect.left) / cellSize)
+    const y = Math.floor((e.clientY - rect.top) / cellSize) + hiddenRows
+    const key = `${x},${y}`
+    if (x < 0 || x >= cols || y < hiddenRows || y >= grid.length || key === lastPainted.current) return
+    lastPainted.current = key
+    onCellPaint(x, y)
+  }
+
+  return (
+    <div className="border-2 border-gray-400 relative" style={{ overflow: 'hidden' }}>
+      <canvas
+        ref={canvasRef}
+        className="block"
+        role="img"
+        aria-label={t('board.label')}
+        style={{ width: `${cols * cellSize}px`, height: `${rows * cellSize}px` }}
+        onMouseDown={onCellPaint && ((e) => {
+          lastPainted.current = null
+          paintAt(e)
+        })}
+        onMouseMove={onCellPaint && ((e) => { if (e.buttons === 1) paintAt(e) })}
+      />
+      {banner && (
+        <div className="absolute inset-0 flex items-center justify-center" style={{ zIndex: 30 }}>
+          <span className="px-2 py-1 bg-white bg-opacity-80 rounded text-2xl font-bold text-yellow-500">{banner}</span>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// ホールド・ネクスト表示用（color2 が上）
+export const PairPreview: React.FC<{ pair: PuyoPair, t?: Translate }> = ({ pair, t = DEFAULT_TRANSLATE }) => (
+  <div className="flex flex-col mb-2" role="img" aria-label={t('board.pair', { top: getPuyoColorName(pair.color2, t), bottom: getPuyoColorName(pair.color1, t) })}>
+    <div className={`puyo-cell ${getPuyoColorClass(pair.color2)}`} />
+    <div className={`puyo-cell ${getPuyoColorClass(pair.color1)}`} />
+  </div>
+)
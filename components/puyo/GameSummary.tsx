@@ -0,0 +1,21 @@
+import React from 'react'
+import { GameStats, formatDuration } from '@/lib/puyo/stats'
+import { Translate } from '@/lib/i18n'
+import { ChainHistogram, ClearedBar } from './StatsCharts'
+
+// ゲームオーバー画面に出す成績のまとめ
+export const GameSummary: React.FC<{ stats: GameStats, t: Translate }> = ({ stats, t }) => (
+  <div className="mt-4 p-4 bg-white rounded shadow flex flex-col items-center gap-2">
+    <h3 className="text-xl font-bold">{t('summary.title')}</h3>
+    <div className="grid grid-cols-3 gap-x-6 gap-y-1 text-left">
+      <span>{t('summary.duration', { value: formatDuration(stats.duration) })}</span>
+      <span>{t('summary.pieces', { value: stats.piecesPlaced })}</span>
+      <span>{t('summary.piecesPerMinute', { value: stats.piecesPerMinute.toFixed(1) })}</span>
+      <span>{t('summary.maxChain', { value: stats.maxChain })}</span>
+      <span>{t('summary.holds', { value: stats.holds })}</span>
+      <span>{t('summary.hardDrops', { value: stats.hardDrops })}</span>
+    </div>
+    {stats.chainHistogram.length > 1 && <ChainHistogram histogram={stats.chainHistogram} t={t} />}
+    <ClearedBar cleared={stats.clearedByColor} t={t} />
+  </div>
+)
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react'
+import { ControlAction } from '@/lib/puyo/engine'
+import { CONTROL_ACTIONS } from '@/lib/puyo/controls'
+import { bindButton, findPressedButton, formatButton, getGamepadBindings } from '@/lib/puyo/gamepad'
+import { Translate } from '@/lib/i18n'
+import { useGamepadProfiles } from '@/hooks/useGamepadProfiles'
+
+// Helper functions
+const listGamepads = (): Gamepad[] => navigator.getGamepads().filter((gamepad): gamepad is Gamepad => gamepad !== null)
+
+// 接続中のコントローラーを選んで、ボタンを押して割り当てる
+export const GamepadPanel: React.FC<{ t: Translate }> = ({ t }) => {
+  const [gamepads, setGamepads] = useState<Gamepad[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [capturing, setCapturing] = useState<ControlAction | null>(null)
+  const [profiles, updateProfile] = useGamepadProfiles()
+
+  useEffect(() => {
+    const refresh = () => setGamepads(listGamepads())
+    refresh()
+    window.addEventListener('gamepadconnected', refresh)
+    window.addEventListener('gamepaddisconnected', refresh)
+    return () => {
+      window.removeEventListener('gamepadconnected', refresh)
+      window.removeEventListener('gamepaddisconnected', refresh)
+    }
+  }, [])
+
+  const selected = gamepads.find(gamepad => gamepad.id === selectedId) ?? gamepads[0]
+  const bindings = selected ? getGamepadBindings(profiles, selected.id) : null
+
+  // 入力待ちの間は、押しっぱなしのボタンを離してから次に押されたボタンを割り当てる
+  useEffect(() => {
+    if (!capturing || !selected || !bindings) return
+
+    let frame: number
+    let released = false
+    const poll = () => {
+      const gamepad = navigator.getGamepads()[selected.index]
+      const button = gamepad ? findPressedButton(gamepad) : null
+      if (button === null) {
+        released = true
+      } else if (released) {
+        updateProfile(selected.id, bindButton(bindings, capturing, button))
+        setCapturing(null)
+        return
+      }
+      frame = requestAnimationFrame(poll)
+    }
+    frame = requestAnimationFrame(poll)
+
+    return () => cancelAnimationFrame(frame)
+  }, [capturing, selected, bindings, updateProfile])
+
+  return (
+    <div className="mb-4">
+      <h3 className="text-xl font-bold mb-2">{t('gamepad.title')}</h3>
+      {!selected || !bindings ? (
+        <p className="text-sm text-gray-500">{t('gamepad.connect')}</p>
+      ) : (
+        <>
+          <select
+            value={selected.id}
+            onChange={(e) => setSelectedId(e.target.value)}
+            className="p-2 border rounded mb-2 max-w-full"
+          >
+            {gamepads.map(gamepad => (
+              <option key={gamepad.index} value={gamepad.id}>{gamepad.id}</option>
+            ))}
+          </select>
+          {CONTROL_ACTIONS.map(action => (
+            <div key={action} className="mb-2 flex items-center gap-2">
+              <span className="w-32">{t(`action.${action}`)}</span>
+              <button
+                onClick={() => setCapturing(capturing === action ? null : action)}
+                className={`w-24 p-2 border rounded ${capturing === action ? 'border-blue-500 bg-blue-50' : ''}`}
+              >
+                {capturing === action ? t('options.waiting') : bindings[action].map(formatButton).join(' / ') || '—'}
+              </button>
+            </div>
+          ))}
+          <button onClick={() => updateProfile(selected.id, null)} className="underline">{t('options.reset')}</button>
+        </>
+      )}
+    </div>
+  )
+}
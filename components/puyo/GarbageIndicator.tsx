@@ -0,0 +1,33 @@
+import React from 'react'
+
+// 予告ぷよの単位（大きいものから順に使う）
+const UNITS = [
+  { value: 720, symbol: '👑' },
+  { value: 360, symbol: '🌙' },
+  { value: 180, symbol: '⭐' },
+  { value: 30, symbol: '🪨' },
+  { value: 6, symbol: '⬤' },
+  { value: 1, symbol: '•' }
+]
+const MAX_SYMBOLS = 6
+
+export const toGarbageSymbols = (count: number): string[] => {
+  const symbols: string[] = []
+  let rest = count
+  for (const { value, symbol } of UNITS) {
+    while (rest >= value && symbols.length < MAX_SYMBOLS) {
+      symbols.push(symbol)
+      rest -= value
+    }
+  }
+  return symbols
+}
+
+// 盤面の上に表示する予告おじゃまぷよ
+export const GarbageIndicator: React.FC<{ count: number }> = ({ count }) => (
+  <div className="h-8 flex items-center justify-center gap-1 text-gray-600" title={`おじゃまぷよ ${count}個`}>
+    {toGarbageSymbols(count).map((symbol, index) => (
+      <span key={index}>{symbol}</span>
+    ))}
+  </div>
+)
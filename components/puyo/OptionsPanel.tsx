@@ -0,0 +1,223 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { ControlAction } from '@/lib/puyo/engine'
+import { CONTROL_ACTIONS, Controls, DEFAULT_CONTROLS, RESERVED_KEYS, bindKey, findConflicts, formatKey } from '@/lib/puyo/controls'
+import { Settings } from '@/lib/settings'
+import { THEME_IDS, ThemeId } from '@/lib/theme'
+import { LANGUAGE_SETTINGS, LOCALE_NAMES, LanguageSetting, Translate } from '@/lib/i18n'
+import { Ruleset } from '@/lib/puyo/ruleset'
+import { GamepadPanel } from './GamepadPanel'
+import { RulesetEditor } from './RulesetEditor'
+
+// Types
+type HandlingKey = 'das' | 'arr' | 'softDropInterval' | 'lockDelay'
+type VolumeKey = 'masterVolume' | 'sfxVolume' | 'musicVolume'
+type TouchKey = 'touchMoveDistance' | 'touchDropDistance' | 'touchFlickDistance'
+
+interface OptionsPanelProps {
+  controls: Controls
+  onControlsChange: (controls: Controls) => void
+  settings: Settings
+  onSettingsChange: (changes: Partial<Settings>) => void
+  ruleset?: Ruleset // ひとり用だけ。渡さなければルールの項目を出さない
+  onRulesetChange?: (changes: Partial<Ruleset>) => void
+  t: Translate
+}
+
+// Constants
+const HANDLING_FIELDS: HandlingKey[] = ['das', 'arr', 'softDropInterval', 'lockDelay']
+const MAX_HANDLING_MS = 2000
+const VOLUME_FIELDS: VolumeKey[] = ['masterVolume', 'sfxVolume', 'musicVolume']
+const TOUCH_FIELDS: TouchKey[] = ['touchMoveDistance', 'touchDropDistance', 'touchFlickDistance']
+const MAX_TOUCH_DISTANCE = 300
+
+export const OptionsPanel: React.FC<OptionsPanelProps> = ({ controls, onControlsChange, settings, onSettingsChange, ruleset, onRulesetChange, t }) => {
+  const [capturing, setCapturing] = useState<{ action: ControlAction, index: number } | null>(null) // キー入力待ちの枠
+  const conflicts = findConflicts(controls)
+  const heading = useRef<HTMLHeadingElement>(null)
+
+  // 開いたら見出しにフォーカスを移し、閉じたら開く前の場所（オプションボタン）に戻す
+  useEffect(() => {
+    const previous = document.activeElement instanceof HTMLElement ? document.activeElement : null
+    heading.current?.focus()
+    return () => previous?.focus()
+  }, [])
+
+  // 入力待ちの間はゲームの操作に渡さず、押されたキーを割り当てる
+  useEffect(() => {
+    if (!capturing) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault()
+      e.stopImmediatePropagation()
+      if (e.key === 'Backspace' || e.key === 'Delete') {
+        onControlsChange(bindKey(controls, capturing.action, capturing.index, ''))
+      } else if (!RESERVED_KEYS.includes(e.key)) {
+        onControlsChange(bindKey(controls, capturing.action, capturing.index, e.key))
+      }
+      setCapturing(null)
+    }
+
+    window.addEventListener('keydown', handleKeyDown, true)
+    return () => window.removeEventListener('keydown', handleKeyDown, true)
+  }, [capturing, controls, onControlsChange])
+
+  return (
+    <section className="mt-4 p-4 bg-white rounded shadow" aria-labelledby="options-heading">
+      <h2 ref={heading} id="options-heading" tabIndex={-1} className="text-2xl font-bold mb-2">{t('options.title')}</h2>
+      <label className="flex items-center gap-2 mb-4">
+        {t('language.label')}:
+        <select
+          value={settings.language}
+          onChange={(e) => onSettingsChange({ language: e.target.value as LanguageSetting })}
+          className="p-2 border rounded"
+        >
+          {LANGUAGE_SETTINGS.map(language => (
+            <option key={language} value={language}>{language === 'auto' ? t('language.auto') : LOCALE_NAMES[language]}</option>
+          ))}
+        </select>
+      </label>
+      {ruleset && onRulesetChange && <RulesetEditor rules={ruleset} onChange={onRulesetChange} t={t} />}
+      <div className="mb-4">
+        <h3 className="text-xl font-bold mb-2">{t('options.display')}</h3>
+        <label className="flex items-center gap-2 mb-1">
+          <input
+            type="checkbox"
+            checked={settings.showGhost}
+            onChange={(e) => onSettingsChange({ showGhost: e.target.checked })}
+          />
+          {t('options.ghost')}
+        </label>
+        <label className="flex items-center gap-2 mb-1">
+          <input
+            type="checkbox"
+            checked={settings.showPopPreview}
+            onChange={(e) => onSettingsChange({ showPopPreview: e.target.checked })}
+          />
+          {t('options.popPreview')}
+        </label>
+        <label className="flex items-center gap-2 mb-1">
+          {t('options.theme')}
+          <select
+            value={settings.theme}
+            onChange={(e) => onSettingsChange({ theme: e.target.value as ThemeId })}
+            className="p-2 border rounded"
+          >
+            {THEME_IDS.map(id => (
+              <option key={id} value={id}>{t(`theme.${id}`)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 mb-1">
+          <input
+            type="checkbox"
+            checked={settings.colorShapes}
+            onChange={(e) => onSettingsChange({ colorShapes: e.target.checked })}
+          />
+          {t('options.colorShapes')}
+        </label>
+      </div>
+      <div className="mb-4">
+        <h3 className="text-xl font-bold mb-2">{t('options.sound')}</h3>
+        <label className="flex items-center gap-2 mb-2">
+          <input
+            type="checkbox"
+            checked={settings.muted}
+            onChange={(e) => onSettingsChange({ muted: e.target.checked })}
+          />
+          {t('options.mute')}
+        </label>
+        {VOLUME_FIELDS.map(key => (
+          <label key={key} className="mb-2 flex items-center gap-2">
+            <span className="w-40">{t(`options.${key}`)}</span>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={settings[key]}
+              disabled={settings.muted}
+              onChange={(e) => onSettingsChange({ [key]: Number(e.target.value) })}
+            />
+            <span className="w-8 text-right">{settings[key]}</span>
+          </label>
+        ))}
+      </div>
+      <div className="mb-4">
+        <h3 className="text-xl font-bold mb-2">{t('options.handling')}</h3>
+        <p className="text-sm text-gray-500 mb-2">{t('options.handlingHint')}</p>
+        {HANDLING_FIELDS.map(key => (
+          <label key={key} className="mb-2 flex items-center gap-2">
+            <span className="w-40">{t(`options.${key}`)}</span>
+            <input
+              type="number"
+              min={0}
+              max={MAX_HANDLING_MS}
+              step={10}
+              value={settings[key]}
+              onChange={(e) => {
+                const value = Number(e.target.value)
+                if (Number.isFinite(value)) onSettingsChange({ [key]: Math.min(MAX_HANDLING_MS, Math.max(0, value)) })
+              }}
+              className="w-24 p-2 border rounded"
+            />
+          </label>
+        ))}
+      </div>
+      <div className="mb-4">
+        <h3 className="text-xl font-bold mb-2">{t('options.touch')}</h3>
+        <p className="text-sm text-gray-500 mb-2">{t('options.touchHint')}</p>
+        {TOUCH_FIELDS.map(key => (
+          <label key={key} className="mb-2 flex items-center gap-2">
+            <span className="w-40">{t(`options.${key}`)}</span>
+            <input
+              type="number"
+              min={1}
+              max={MAX_TOUCH_DISTANCE}
+              value={settings[key]}
+              onChange={(e) => {
+                const value = Number(e.target.value)
+                if (Number.isFinite(value)) onSettingsChange({ [key]: Math.min(MAX_TOUCH_DISTANCE, Math.max(1, value)) })
+              }}
+              className="w-24 p-2 border rounded"
+            />
+          </label>
+        ))}
+        <label className="flex items-center gap-2 mb-1">
+          <input
+            type="checkbox"
+            checked={settings.virtualPad}
+            onChange={(e) => onSettingsChange({ virtualPad: e.target.checked })}
+          />
+          {t('options.virtualPad')}
+        </label>
+      </div>
+      <div className="mb-4">
+        <h3 className="text-xl font-bold mb-2">{t('options.controls')}</h3>
+        <p className="text-sm text-gray-500 mb-2">{t('options.controlsHint')}</p>
+        {CONTROL_ACTIONS.map(action => (
+          <div key={action} className="mb-2 flex items-center gap-2">
+            <span className="w-32">{t(`action.${action}`)}</span>
+            {controls[action].map((key, index) => {
+              const isCapturing = capturing?.action === action && capturing.index === index
+              return (
+                <button
+                  key={index}
+                  onClick={() => setCapturing(isCapturing ? null : { action, index })}
+                  className={`w-24 p-2 border rounded ${isCapturing ? 'border-blue-500 bg-blue-50' : conflicts.has(key) ? 'border-red-500 text-red-500' : ''}`}
+                >
+                  {isCapturing ? t('options.waiting') : key ? formatKey(key) : '—'}
+                </button>
+              )
+            })}
+          </div>
+        ))}
+        {conflicts.size > 0 && (
+          <p className="text-red-500 mb-2">
+            {t('options.conflicts', { keys: Array.from(conflicts).map(formatKey).join(', ') })}
+          </p>
+        )}
+        <button onClick={() => onControlsChange(DEFAULT_CONTROLS)} className="underline">{t('options.reset')}</button>
+      </div>
+      <GamepadPanel t={t} />
+    </section>
+  )
+}
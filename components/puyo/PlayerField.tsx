@@ -0,0 +1,62 @@
+import React from 'react'
+import { Board, PairPreview } from './Board'
+import { GarbageIndicator } from './GarbageIndicator'
+import { LiveRegion } from '@/components/ui/live-region'
+import { describeLinkScore } from '@/lib/puyo/scoring'
+import type { PuyoPlayer } from '@/hooks/usePuyoPlayer'
+import { useAnnouncer, usePlayerAnnouncements } from '@/hooks/useAnnouncer'
+
+interface PlayerFieldProps {
+  label: string
+  player: PuyoPlayer
+  showHold?: boolean
+  wins?: number
+  cellSize?: number
+  boardRef?: (element: HTMLElement | null) => void // タッチ操作を受け付ける盤面
+}
+
+// 対戦画面で使う1人分の盤面・スコア・ネクスト表示
+export const PlayerField: React.FC<PlayerFieldProps> = ({ label, player, showHold = false, wins, cellSize, boardRef }) => {
+  const [announcements, announce] = useAnnouncer()
+  usePlayerAnnouncements(player, announce, { label })
+
+  return (
+    <div
+      className="flex flex-col items-center"
+      style={cellSize ? { '--puyo-cell-size': `${cellSize}px` } as React.CSSProperties : undefined}
+    >
+      <LiveRegion messages={announcements} />
+      <h2 className="text-2xl font-semibold">
+        {label}
+        {wins !== undefined && <span className="ml-2 text-yellow-600">{'★'.repeat(wins)}</span>}
+      </h2>
+      <p className="text-xl">Score: {player.score}</p>
+      <p className="text-lg">{player.chainCounter}連鎖</p>
+      <p className="text-sm text-gray-600 h-5">
+        {player.lastLink && describeLinkScore(player.engine.scoring, player.lastLink.score)}
+      </p>
+      <div className="flex gap-2 sm:gap-4">
+        {showHold && (
+          <div className="flex flex-col items-center pt-8 w-8">
+            {player.engine.held && <PairPreview pair={player.engine.held} />}
+          </div>
+        )}
+        <div ref={boardRef} className={`flex flex-col items-center ${boardRef ? 'touch-none' : ''}`}>
+          <GarbageIndicator count={player.engine.pendingGarbage} />
+          <Board
+            grid={player.grid}
+            current={player.isAnimating ? null : player.engine.current}
+            animation={player.animation}
+            banner={player.allClear ? '全消し！' : undefined}
+            cellSize={cellSize}
+          />
+        </div>
+        <div className="flex flex-col items-center pt-8">
+          {player.engine.next.slice(0, 2).map((puyo, index) => (
+            <PairPreview key={index} pair={puyo} />
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
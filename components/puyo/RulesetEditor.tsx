@@ -0,0 +1,62 @@
+import React from 'react'
+import { RULESET_LIMITS, RULESET_PRESETS, Ruleset, findRulesetPreset } from '@/lib/puyo/ruleset'
+import { Translate } from '@/lib/i18n'
+
+// Types
+interface RulesetProps {
+  rules: Ruleset
+  onChange: (changes: Partial<Ruleset>) => void
+  t: Translate
+}
+
+// Constants
+const CUSTOM = 'custom'
+const EDITABLE_FIELDS: (keyof Ruleset)[] = ['cols', 'rows', 'hiddenRows', 'colorCount', 'popSize', 'spawnX', 'nextCount']
+
+// プリセットから選ぶ。どれにも当てはまらなければ「カスタム」と表示する
+export const RulesetSelect: React.FC<RulesetProps> = ({ rules, onChange, t }) => (
+  <select
+    value={findRulesetPreset(rules)?.id ?? CUSTOM}
+    onChange={(e) => {
+      const preset = RULESET_PRESETS.find(({ id }) => id === e.target.value)
+      if (preset) onChange(preset.rules)
+    }}
+    className="p-2 border rounded"
+  >
+    {RULESET_PRESETS.map(({ id }) => (
+      <option key={id} value={id}>{t(`ruleset.${id}`)}</option>
+    ))}
+    <option value={CUSTOM} disabled>{t('ruleset.custom')}</option>
+  </select>
+)
+
+export const RulesetEditor: React.FC<RulesetProps> = ({ rules, onChange, t }) => (
+  <div className="mb-4">
+    <h3 className="text-xl font-bold mb-2">{t('ruleset.title')}</h3>
+    <label className="mb-2 flex items-center gap-2">
+      <span className="w-40">{t('ruleset.preset')}</span>
+      <RulesetSelect rules={rules} onChange={onChange} t={t} />
+    </label>
+    {EDITABLE_FIELDS.map(key => {
+      // 出現列は画面と同じく1列目から数える
+      const offset = key === 'spawnX' ? 1 : 0
+      const max = key === 'spawnX' ? rules.cols - 1 : RULESET_LIMITS[key].max
+      return (
+        <label key={key} className="mb-2 flex items-center gap-2">
+          <span className="w-40">{t(`ruleset.${key}`)}</span>
+          <input
+            type="number"
+            min={RULESET_LIMITS[key].min + offset}
+            max={max + offset}
+            value={rules[key] + offset}
+            onChange={(e) => {
+              const value = Number(e.target.value)
+              if (Number.isFinite(value)) onChange({ [key]: value - offset })
+            }}
+            className="w-24 p-2 border rounded"
+          />
+        </label>
+      )
+    })}
+  </div>
+)
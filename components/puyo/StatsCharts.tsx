@@ -0,0 +1,67 @@
+import React from 'react'
+import { CLEARED_COLORS, ClearedCounts } from '@/lib/puyo/stats'
+import { Translate } from '@/lib/i18n'
+import { getPuyoColorClass, getPuyoColorName } from './Board'
+
+// Constants
+const CHART_WIDTH = 320
+const CHART_HEIGHT = 120
+const CHART_PADDING = 4
+
+interface LineChartProps {
+  label: string
+  values: number[]
+  format?: (value: number) => string
+  t: Translate
+}
+
+// ゲームごとの推移を折れ線で表示する（古い順）
+export const LineChart: React.FC<LineChartProps> = ({ label, values, format = value => String(Math.round(value)), t }) => {
+  const max = Math.max(...values, 1)
+  const points = values.map((value, index) => {
+    const x = CHART_PADDING + (values.length > 1 ? index / (values.length - 1) : 0.5) * (CHART_WIDTH - CHART_PADDING * 2)
+    const y = CHART_HEIGHT - CHART_PADDING - (value / max) * (CHART_HEIGHT - CHART_PADDING * 2)
+    return `${x},${y}`
+  })
+
+  return (
+    <div className="flex flex-col items-center">
+      <h3 className="font-semibold">{t('stats.chartMax', { label, max: format(max) })}</h3>
+      <svg width={CHART_WIDTH} height={CHART_HEIGHT} className="bg-white border rounded">
+        <polyline points={points.join(' ')} fill="none" stroke="#3B82F6" strokeWidth={2} />
+        {points.map((point, index) => {
+          const [x, y] = point.split(',')
+          return <circle key={index} cx={x} cy={y} r={2} fill="#1D4ED8" />
+        })}
+      </svg>
+    </div>
+  )
+}
+
+// 連鎖数ごとの回数
+export const ChainHistogram: React.FC<{ histogram: number[], t: Translate }> = ({ histogram, t }) => {
+  const max = Math.max(...histogram, 1)
+  return (
+    <div className="flex items-end gap-1 h-32">
+      {histogram.map((count, chain) => chain > 0 && (
+        <div key={chain} className="flex flex-col items-center justify-end h-full" title={t('summary.chainCount', { chain, count })}>
+          <span className="text-xs">{count}</span>
+          <div className="w-6 bg-blue-500" style={{ height: `${(count / max) * 100}%` }} />
+          <span className="text-xs">{chain}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// 色ごとに消した数
+export const ClearedBar: React.FC<{ cleared: ClearedCounts, t: Translate }> = ({ cleared, t }) => (
+  <div className="flex gap-2">
+    {CLEARED_COLORS.map(color => (
+      <div key={color} className="flex flex-col items-center">
+        <div className={`w-4 h-4 ${getPuyoColorClass(color)}`} role="img" aria-label={getPuyoColorName(color, t)} />
+        <span className="text-sm">{cleared[color] ?? 0}</span>
+      </div>
+    ))}
+  </div>
+)
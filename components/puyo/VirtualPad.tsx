@@ -0,0 +1,50 @@
+import React from 'react'
+import { ControlAction } from '@/lib/puyo/engine'
+import { Translate } from '@/lib/i18n'
+
+// Types
+interface VirtualPadProps {
+  onPress: (action: ControlAction) => void
+  onRelease: (action: ControlAction) => void
+  t: Translate
+}
+
+// Constants
+export const VIRTUAL_PAD_HEIGHT = 200 // 盤面の大きさを決めるときに空けておく高さ（px）
+const PAD_ROWS: { action: ControlAction, symbol: string }[][] = [
+  [{ action: 'rotateLeft', symbol: '↺' }, { action: 'hardDrop', symbol: '⤓' }, { action: 'rotateRight', symbol: '↻' }],
+  [{ action: 'left', symbol: '←' }, { action: 'down', symbol: '↓' }, { action: 'right', symbol: '→' }],
+  [{ action: 'hold', symbol: 'H' }]
+]
+
+// 画面上の操作ボタン。押している間はキーと同じくリピートする
+export const VirtualPad: React.FC<VirtualPadProps> = ({ onPress, onRelease, t }) => (
+  <div className="mt-4 flex flex-col items-center gap-2 select-none" role="group" aria-label={t('touch.pad')}>
+    {PAD_ROWS.map((row, index) => (
+      <div key={index} className="flex gap-2">
+        {row.map(({ action, symbol }) => (
+          <button
+            key={action}
+            aria-label={t(`action.${action}`)}
+            className="w-14 h-14 text-2xl bg-gray-300 rounded-full touch-none"
+            onPointerDown={(e) => {
+              e.preventDefault()
+              onPress(action)
+            }}
+            onPointerUp={() => onRelease(action)}
+            onPointerCancel={() => onRelease(action)}
+            onPointerLeave={() => onRelease(action)}
+            onClick={(e) => {
+              // キーボードで押されたとき（ポインターのクリックは押した時点で処理済み）
+              if (e.detail !== 0) return
+              onPress(action)
+              onRelease(action)
+            }}
+          >
+            {symbol}
+          </button>
+        ))}
+      </div>
+    ))}
+  </div>
+)
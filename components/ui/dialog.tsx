@@ -0,0 +1,22 @@
+import React, { useRef } from 'react'
+import { useFocusTrap } from '@/hooks/useFocusTrap'
+
+interface DialogProps {
+  label: string // 読み上げ用の名前
+  className?: string
+  children: React.ReactNode
+}
+
+// 画面全体を覆うダイアログ（ポーズ・結果など）。表示中はフォーカスを中に閉じ込める
+export const Dialog: React.FC<DialogProps> = ({ label, className = '', children }) => {
+  const panel = useRef<HTMLDivElement>(null)
+  useFocusTrap(panel, true)
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div ref={panel} role="dialog" aria-modal="true" aria-label={label} tabIndex={-1} className={`bg-white p-8 rounded-lg ${className}`}>
+        {children}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,10 @@
+import React from 'react'
+import type { Announcements } from '@/hooks/useAnnouncer'
+
+// 画面には出さず、スクリーンリーダーにだけ読み上げさせる
+export const LiveRegion: React.FC<{ messages: Announcements }> = ({ messages }) => (
+  <div className="sr-only">
+    <div role="status" aria-live="polite" aria-atomic="true">{messages.polite}</div>
+    <div role="alert" aria-live="assertive" aria-atomic="true">{messages.assertive}</div>
+  </div>
+)
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { ChainLink, isInDanger } from '@/lib/puyo/engine'
+import { DEFAULT_LOCALE, Translate, createTranslator } from '@/lib/i18n'
+import type { PuyoPlayer } from './usePuyoPlayer'
+
+// Types
+export type Politeness = 'polite' | 'assertive'
+export type Announce = (message: string, politeness?: Politeness) => void
+export type Announcements = Record<Politeness, string>
+
+interface PlayerAnnouncementOptions {
+  label?: string  // 対戦でどちらの盤面かを示す
+  t?: Translate
+}
+
+// Constants
+const DEFAULT_TRANSLATE = createTranslator(DEFAULT_LOCALE)
+
+// スクリーンリーダーに読み上げさせる文を LiveRegion に渡す
+// assertive は危険・ゲームオーバーなど割り込んででも伝えたいもの
+export const useAnnouncer = () => {
+  const [messages, setMessages] = useState<Announcements>({ polite: '', assertive: '' })
+
+  // 同じ文が続いても読み上げられるように、前回と違う文字列にする
+  const announce = useCallback<Announce>((message, politeness = 'polite') => {
+    setMessages(prev => ({ ...prev, [politeness]: prev[politeness] === message ? `${message} ` : message }))
+  }, [])
+
+  return [messages, announce] as const
+}
+
+// 1人分の連鎖・スコア・危険・ゲームオーバーを読み上げる
+export const usePlayerAnnouncements = (player: PuyoPlayer, announce: Announce, { label, t = DEFAULT_TRANSLATE }: PlayerAnnouncementOptions = {}) => {
+  const { engine, lastLink, score, isAnimating } = player
+  const danger = engine.status === 'active' && isInDanger(engine.grid, engine.rules)
+  const over = engine.status === 'over' && !isAnimating
+  const announcedLink = useRef<ChainLink | null>(null)
+
+  const announceFor = useCallback((message: string, politeness?: Politeness) => {
+    announce(label ? t('announce.player', { label, message }) : message, politeness)
+  }, [announce, label, t])
+
+  useEffect(() => {
+    if (!lastLink || lastLink === announcedLink.current) return
+    announcedLink.current = lastLink
+    announceFor(t('announce.chain', { chain: lastLink.chain, score }))
+  }, [lastLink, score, announceFor, t])
+
+  useEffect(() => {
+    if (danger) announceFor(t('announce.danger'), 'assertive')
+  }, [danger, announceFor, t])
+
+  useEffect(() => {
+    if (over) announceFor(t('announce.gameOver', { score }), 'assertive')
+  }, [over, score, announceFor, t])
+}
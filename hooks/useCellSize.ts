@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react'
+
+// Types
+interface CellSizeOptions {
+  reservedWidth: number   // 盤面の横に並ぶもの（ホールド・ネクストなど）の幅（px）
+  reservedHeight: number  // 盤面の上下に並ぶもの（見出し・スコア・ボタンなど）の高さ（px）
+  share?: number          // 画面の幅のうち、この盤面に使える割合（2人並べるなら 0.5）
+}
+
+// Constants
+export const DEFAULT_CELL_SIZE = 32
+const MIN_CELL_SIZE = 14
+const MAX_CELL_SIZE = 40
+
+// Helper functions
+const fitCellSize = (cols: number, rows: number, { reservedWidth, reservedHeight, share = 1 }: CellSizeOptions): number => {
+  const byWidth = (window.innerWidth * share - reservedWidth) / cols
+  const byHeight = (window.innerHeight - reservedHeight) / rows
+  return Math.min(MAX_CELL_SIZE, Math.max(MIN_CELL_SIZE, Math.floor(Math.min(byWidth, byHeight))))
+}
+
+// 画面の大きさに合わせた1マスの大きさ（px）。サーバーでの描画と揃えるため、最初は既定の大きさにする
+export const useCellSize = (cols: number, rows: number, { reservedWidth, reservedHeight, share = 1 }: CellSizeOptions) => {
+  const [cellSize, setCellSize] = useState(DEFAULT_CELL_SIZE)
+
+  useEffect(() => {
+    const update = () => setCellSize(fitCellSize(cols, rows, { reservedWidth, reservedHeight, share }))
+    update()
+    window.addEventListener('resize', update)
+    return () => window.removeEventListener('resize', update)
+  }, [cols, rows, reservedWidth, reservedHeight, share])
+
+  return cellSize
+}
@@ -0,0 +1,50 @@
+import { useState, useEffect, useCallback } from 'react'
+import { ChainLink, Grid } from '@/lib/puyo/engine'
+import { CHAIN_STEP_MS } from '@/lib/puyo/replay'
+
+// 連鎖を1段ずつ（消去・落下の順に）再生する。step 0 が発火前の盤面
+export const useChainSimulation = (grid: Grid, links: ChainLink[]) => {
+  const [step, setStep] = useState(0)
+  const [playing, setPlaying] = useState(false)
+  const lastStep = links.length * 2
+  const link = step > 0 ? links[Math.ceil(step / 2) - 1] : null
+
+  useEffect(() => {
+    if (!playing) return
+    if (step >= lastStep) {
+      setPlaying(false)
+      return
+    }
+    const timer = setTimeout(() => setStep(prev => prev + 1), CHAIN_STEP_MS)
+    return () => clearTimeout(timer)
+  }, [playing, step, lastStep])
+
+  const play = useCallback(() => {
+    setStep(0)
+    setPlaying(true)
+  }, [])
+
+  const togglePlaying = () => {
+    if (step >= lastStep) {
+      play()
+    } else {
+      setPlaying(prev => !prev)
+    }
+  }
+
+  const stepBy = (delta: number) => {
+    setPlaying(false)
+    setStep(prev => Math.min(Math.max(prev + delta, 0), lastStep))
+  }
+
+  return {
+    step,
+    lastStep,
+    link,
+    grid: !link ? grid : step % 2 === 1 ? link.grid : link.settled,
+    playing,
+    play,
+    togglePlaying,
+    stepBy
+  }
+}
@@ -0,0 +1,18 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Controls, DEFAULT_CONTROLS, loadControls, saveControls } from '@/lib/puyo/controls'
+
+// 保存されたキー割り当て。変更するたびに保存する
+export const useControls = () => {
+  const [controls, setControls] = useState<Controls>(DEFAULT_CONTROLS)
+
+  useEffect(() => {
+    setControls(loadControls())
+  }, [])
+
+  const updateControls = useCallback((next: Controls) => {
+    setControls(next)
+    saveControls(next)
+  }, [])
+
+  return [controls, updateControls] as const
+}
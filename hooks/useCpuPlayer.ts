@@ -0,0 +1,76 @@
+import { useEffect, useRef } from 'react'
+import { ControlAction, EngineState } from '@/lib/puyo/engine'
+import { DifficultySettings, Placement, planActions } from '@/lib/puyo/ai'
+import type { AiRequest, AiResponse } from '@/lib/puyo/ai.worker'
+
+interface CpuPlayerOptions {
+  engine: EngineState
+  active: boolean
+  isAnimating: boolean
+  settings: DifficultySettings
+  dispatch: (action: ControlAction) => void
+}
+
+// 新しいツモが来るたびに Web Worker で置き場所を考え、人間と同じ操作で動かす
+export const useCpuPlayer = ({ engine, active, isAnimating, settings, dispatch }: CpuPlayerOptions) => {
+  const workerRef = useRef<Worker | null>(null)
+  const requestId = useRef(0)
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../lib/puyo/ai.worker.ts', import.meta.url))
+    workerRef.current = worker
+    return () => {
+      worker.terminate()
+      workerRef.current = null
+    }
+  }, [])
+
+  // ツモを引くたびに増えるので、1手ごとの識別に使う
+  const pieceKey = engine.sequence.drawn
+  const engineRef = useRef(engine)
+  engineRef.current = engine
+
+  useEffect(() => {
+    const worker = workerRef.current
+    if (!worker || !active || isAnimating || !engineRef.current.current) return
+
+    const id = ++requestId.current
+    const timers: ReturnType<typeof setTimeout>[] = []
+
+    // 考えている間もぷよは落ちるので、今いる位置から届く置き場所を探させる
+    const request = () => {
+      const { current, next, grid, pendingGarbage } = engineRef.current
+      if (!current) return
+      const message: AiRequest = {
+        id,
+        input: { grid, pairs: [current, ...next], pendingGarbage, from: { x: current.x, y: current.y } },
+        settings
+      }
+      worker.postMessage(message)
+    }
+
+    // 1操作ごとに今の状態から操作列を組み立て直して先頭だけ送る。途中で届かなくなったら考え直す
+    const act = (placement: Placement) => {
+      const actions = planActions(engineRef.current, placement)
+      if (!actions) {
+        request()
+        return
+      }
+      dispatch(actions[0])
+      if (actions.length > 1) timers.push(setTimeout(() => act(placement), settings.inputDelay))
+    }
+
+    const handleMessage = (event: MessageEvent<AiResponse>) => {
+      const { placement } = event.data
+      if (event.data.id !== id || !placement) return
+      timers.push(setTimeout(() => act(placement), settings.thinkDelay))
+    }
+    worker.addEventListener('message', handleMessage)
+    request()
+
+    return () => {
+      worker.removeEventListener('message', handleMessage)
+      timers.forEach(clearTimeout)
+    }
+  }, [pieceKey, active, isAnimating, settings, dispatch])
+}
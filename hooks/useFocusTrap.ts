@@ -0,0 +1,40 @@
+import { RefObject, useEffect } from 'react'
+
+// Constants
+const FOCUSABLE = 'button:not([disabled]), a[href], input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])'
+
+// active の間はフォーカスを container の中に閉じ込める（ポーズなどのダイアログ用）
+// 開いたら最初の要素にフォーカスし、閉じたら開く前の要素に戻す
+export const useFocusTrap = (container: RefObject<HTMLElement>, active: boolean) => {
+  useEffect(() => {
+    const element = container.current
+    if (!active || !element) return
+    const previous = document.activeElement instanceof HTMLElement ? document.activeElement : null
+    const focusable = () => Array.from(element.querySelectorAll<HTMLElement>(FOCUSABLE))
+    ;(focusable()[0] ?? element).focus()
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Tab') return
+      const items = focusable()
+      if (items.length === 0) return
+      const first = items[0]
+      const last = items[items.length - 1]
+      if (e.shiftKey && document.activeElement === first) {
+        e.preventDefault()
+        last.focus()
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault()
+        first.focus()
+      } else if (!element.contains(document.activeElement)) {
+        e.preventDefault()
+        first.focus()
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+      previous?.focus()
+    }
+  }, [container, active])
+}
@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useRef } from 'react'
+
+// ポーズ中を除いたゲーム内時間を計る時計
+export const useGameClock = (isPaused: boolean) => {
+  const clockRef = useRef({ startedAt: 0, pausedAt: null as number | null, pausedTotal: 0 })
+
+  useEffect(() => {
+    const clock = clockRef.current
+    if (isPaused) {
+      clock.pausedAt = performance.now()
+    } else if (clock.pausedAt !== null) {
+      clock.pausedTotal += performance.now() - clock.pausedAt
+      clock.pausedAt = null
+    }
+  }, [isPaused])
+
+  // 中断したゲームを再開するときは、それまでの経過時間から数え始める
+  const start = useCallback((offset = 0) => {
+    clockRef.current = { startedAt: performance.now() - offset, pausedAt: null, pausedTotal: 0 }
+  }, [])
+
+  const getElapsed = useCallback(() => {
+    const clock = clockRef.current
+    return Math.round((clock.pausedAt ?? performance.now()) - clock.startedAt - clock.pausedTotal)
+  }, [])
+
+  return { start, getElapsed }
+}
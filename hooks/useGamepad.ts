@@ -0,0 +1,58 @@
+import { useEffect, useRef } from 'react'
+import { ControlAction } from '@/lib/puyo/engine'
+import { GamepadBindings, START_BUTTON, getGamepadBindings, readGamepadActions } from '@/lib/puyo/gamepad'
+import { useGamepadProfiles } from './useGamepadProfiles'
+
+interface GamepadOptions {
+  index: number | 'any' | null // 'any' は最初につながっているもの。使わない場合は null
+  bindings?: GamepadBindings   // 省略するとコントローラーごとに保存された割り当て
+  onAction: (action: ControlAction) => void
+  onRelease?: (action: ControlAction) => void
+  onStart?: () => void
+}
+
+// ゲームパッドを毎フレーム読み取り、押された瞬間と離した瞬間だけ操作を通知する
+export const useGamepad = ({ index, bindings, onAction, onRelease, onStart }: GamepadOptions) => {
+  const callbacks = useRef({ onAction, onRelease, onStart })
+  const [profiles] = useGamepadProfiles()
+  const profilesRef = useRef(profiles) // 割り当てを変えても読み取りのループは止めない
+
+  useEffect(() => {
+    callbacks.current = { onAction, onRelease, onStart }
+  }, [onAction, onRelease, onStart])
+
+  useEffect(() => {
+    profilesRef.current = profiles
+  }, [profiles])
+
+  useEffect(() => {
+    if (index === null) return
+
+    let frame: number
+    let previous: Set<ControlAction> = new Set()
+    let startWasPressed = false
+
+    const poll = () => {
+      const gamepads = navigator.getGamepads()
+      const gamepad = index === 'any' ? gamepads.find(Boolean) : gamepads[index]
+      if (gamepad) {
+        const pressed = readGamepadActions(gamepad, bindings ?? getGamepadBindings(profilesRef.current, gamepad.id))
+        pressed.forEach(action => {
+          if (!previous.has(action)) callbacks.current.onAction(action)
+        })
+        previous.forEach(action => {
+          if (!pressed.has(action)) callbacks.current.onRelease?.(action)
+        })
+        previous = pressed
+
+        const startPressed = Boolean(gamepad.buttons[START_BUTTON]?.pressed)
+        if (startPressed && !startWasPressed) callbacks.current.onStart?.()
+        startWasPressed = startPressed
+      }
+      frame = requestAnimationFrame(poll)
+    }
+    frame = requestAnimationFrame(poll)
+
+    return () => cancelAnimationFrame(frame)
+  }, [index, bindings])
+}
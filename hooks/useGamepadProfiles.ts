@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from 'react'
+import { GAMEPAD_PROFILES_EVENT, GAMEPAD_PROFILES_KEY, GamepadBindings, GamepadProfiles, loadGamepadProfiles, saveGamepadProfiles } from '@/lib/puyo/gamepad'
+
+// コントローラーごとのボタン割り当て。null を渡すと既定値に戻す
+// 設定画面で保存した割り当ては、同じページで遊んでいる盤面にもすぐ反映する
+export const useGamepadProfiles = () => {
+  const [profiles, setProfiles] = useState<GamepadProfiles>({})
+
+  useEffect(() => {
+    const reload = () => setProfiles(loadGamepadProfiles())
+    const reloadStorage = (event: StorageEvent) => {
+      if (event.key === GAMEPAD_PROFILES_KEY) reload()
+    }
+    reload()
+    window.addEventListener(GAMEPAD_PROFILES_EVENT, reload)
+    window.addEventListener('storage', reloadStorage)
+    return () => {
+      window.removeEventListener(GAMEPAD_PROFILES_EVENT, reload)
+      window.removeEventListener('storage', reloadStorage)
+    }
+  }, [])
+
+  // 保存すると GAMEPAD_PROFILES_EVENT でこのフック自身も読み直す
+  const updateProfile = useCallback((id: string, bindings: GamepadBindings | null) => {
+    const next = { ...loadGamepadProfiles() }
+    if (bindings) {
+      next[id] = bindings
+    } else {
+      delete next[id]
+    }
+    saveGamepadProfiles(next)
+  }, [])
+
+  return [profiles, updateProfile] as const
+}
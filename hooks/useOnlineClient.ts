@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { EngineState } from '@/lib/puyo/engine'
+import { OnlineClient, OnlineSnapshot, createOnlineClient } from '@/lib/online/client'
+import { WEBSOCKET_PATH } from '@/lib/online/protocol'
+
+interface OnlineClientHookOptions {
+  onStart: (state: EngineState) => void
+  onGarbage: (count: number) => void
+}
+
+// 再読み込みしても同じ席に戻れるよう、タブごとに ID を保持する
+const CLIENT_ID_KEY = 'puyoPuyoOnlineClientId'
+
+const getClientId = () => {
+  let clientId = sessionStorage.getItem(CLIENT_ID_KEY)
+  if (!clientId) {
+    clientId = Math.random().toString(36).slice(2)
+    sessionStorage.setItem(CLIENT_ID_KEY, clientId)
+  }
+  return clientId
+}
+
+export const useOnlineClient = ({ onStart, onGarbage }: OnlineClientHookOptions) => {
+  const [snapshot, setSnapshot] = useState<OnlineSnapshot | null>(null)
+  const clientRef = useRef<OnlineClient | null>(null)
+  const callbacks = useRef({ onStart, onGarbage })
+
+  useEffect(() => {
+    callbacks.current = { onStart, onGarbage }
+  }, [onStart, onGarbage])
+
+  const connect = useCallback((room: string, name: string) => {
+    clientRef.current?.close()
+    const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws'
+    clientRef.current = createOnlineClient({
+      url: `${protocol}://${window.location.host}${WEBSOCKET_PATH}`,
+      room,
+      name,
+      clientId: getClientId(),
+      onChange: setSnapshot,
+      onStart: state => callbacks.current.onStart(state),
+      onGarbage: count => callbacks.current.onGarbage(count)
+    })
+  }, [])
+
+  const disconnect = useCallback(() => {
+    clientRef.current?.close()
+    clientRef.current = null
+    setSnapshot(null)
+  }, [])
+
+  useEffect(() => () => clientRef.current?.close(), [])
+
+  return {
+    snapshot,
+    connect,
+    disconnect,
+    ready: useCallback(() => clientRef.current?.ready(), []),
+    sendInput: useCallback((...args: Parameters<OnlineClient['sendInput']>) => clientRef.current?.sendInput(...args), [])
+  }
+}
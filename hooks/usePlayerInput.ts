@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useRef } from 'react'
+import { ControlAction } from '@/lib/puyo/engine'
+import { RULESET_LIMITS } from '@/lib/puyo/ruleset'
+import { Controls, findControlAction } from '@/lib/puyo/controls'
+import { Settings } from '@/lib/settings'
+import { useGamepad } from './useGamepad'
+
+// Types
+type Handling = Pick<Settings, 'das' | 'arr' | 'softDropInterval'>
+
+interface HeldAction {
+  pressedAt: number
+  lastFired: number | null // DAS が切れるまでは null
+}
+
+interface PlayerInputOptions {
+  controls: Controls | null       // キーボードを使わない場合は null
+  gamepad?: number | 'any' | null
+  handling: Handling
+  onAction: (action: ControlAction) => void
+  onKeyDown?: (e: KeyboardEvent) => void // 操作に割り当てられていないキー（ポーズなど）
+  onStart?: () => void
+}
+
+// Constants
+const REPEATABLE_ACTIONS: ControlAction[] = ['left', 'right', 'down']
+const OPPOSITE: Partial<Record<ControlAction, ControlAction>> = { left: 'right', right: 'left' }
+
+// キーボードとゲームパッドの入力をまとめ、押しっぱなしのリピートを OS のキーリピートではなく
+// DAS / ARR / ソフトドロップ間隔に従って毎フレーム発生させる
+export const usePlayerInput = ({ controls, gamepad = null, handling, onAction, onKeyDown, onStart }: PlayerInputOptions) => {
+  const held = useRef<Map<ControlAction, HeldAction>>(new Map())
+  const callbacks = useRef({ onAction, onKeyDown, handling })
+
+  useEffect(() => {
+    callbacks.current = { onAction, onKeyDown, handling }
+  }, [onAction, onKeyDown, handling])
+
+  const press = useCallback((action: ControlAction) => {
+    if (held.current.has(action)) return
+    callbacks.current.onAction(action)
+    if (!REPEATABLE_ACTIONS.includes(action)) return
+
+    const now = performance.now()
+    const opposite = OPPOSITE[action]
+    if (opposite) held.current.delete(opposite) // 左右は後から押した方を優先する
+    held.current.set(action, { pressedAt: now, lastFired: null })
+  }, [])
+
+  const release = useCallback((action: ControlAction) => {
+    held.current.delete(action)
+  }, [])
+
+  useEffect(() => {
+    let frame: number
+    const loop = () => {
+      const now = performance.now()
+      const { das, arr, softDropInterval } = callbacks.current.handling
+      held.current.forEach((state, action) => {
+        const delay = action === 'down' ? softDropInterval : das
+        const interval = action === 'down' ? softDropInterval : arr
+        if (now - state.pressedAt < delay) return
+        // DAS が切れた瞬間に1回だけ動かし、ARR はそこから数える（押した時刻から数えるとまとめて動いてしまう）
+        if (state.lastFired === null) state.lastFired = state.pressedAt + delay - interval
+
+        // ARR が 0 なら壁まで一気に動かす（どのルールの盤面幅でも届く回数）
+        const count = interval <= 0 ? RULESET_LIMITS.cols.max : Math.floor((now - state.lastFired) / interval)
+        for (let i = 0; i < count; i++) callbacks.current.onAction(action)
+        if (count > 0) state.lastFired = interval <= 0 ? now : state.lastFired + count * interval
+      })
+      frame = requestAnimationFrame(loop)
+    }
+    frame = requestAnimationFrame(loop)
+    return () => cancelAnimationFrame(frame)
+  }, [])
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return
+      const action = controls && findControlAction(controls, e.key)
+      if (action) {
+        e.preventDefault()
+        if (!e.repeat) press(action) // OS のキーリピートは使わない
+      } else {
+        callbacks.current.onKeyDown?.(e)
+      }
+    }
+    const handleKeyUp = (e: KeyboardEvent) => {
+      const action = controls && findControlAction(controls, e.key)
+      if (action) release(action)
+    }
+    const releaseAll = () => held.current.clear()
+
+    window.addEventListener('keydown', handleKeyDown)
+    window.addEventListener('keyup', handleKeyUp)
+    window.addEventListener('blur', releaseAll)
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown)
+      window.removeEventListener('keyup', handleKeyUp)
+      window.removeEventListener('blur', releaseAll)
+    }
+  }, [controls, press, release])
+
+  useGamepad({ index: gamepad, onAction: press, onRelease: release, onStart })
+
+  // 画面上のボタンもキーと同じようにリピートさせる
+  return { press, release }
+}
@@ -0,0 +1,222 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { ChainLink, EngineAction, EngineEvent, EngineState, createInitialState, receiveGarbage, step } from '@/lib/puyo/engine'
+import { AnimationClock, BoardAnimation, buildAnimation, countScoredLinks } from '@/lib/puyo/animation'
+import { CHAIN_DISPLAY_MS } from '@/lib/puyo/replay'
+import { INITIAL_FALL_SPEED, SPEED_UP_INTERVAL, SPEED_UP_RATE } from '@/lib/puyo/modes'
+import { DEFAULT_SETTINGS } from '@/lib/settings'
+import { PlaySound } from './useSound'
+
+// Types
+interface PuyoPlayerOptions {
+  active: boolean // ゲーム中かつポーズしていない
+  autoFall?: boolean // false なら自然落下しない（なぞぷよ）
+  fallSpeed?: number // 落下間隔（ミリ秒）。指定しなければ10秒ごとに速くなる（対戦）
+  lockDelay?: number // 接地してから固定されるまで（ミリ秒）
+  playSound: PlaySound
+  onDispatch?: (action: EngineAction) => void
+  onGarbage?: (count: number) => void
+  onLock?: (events: EngineEvent[], state: EngineState, previous: EngineState) => void // 連鎖アニメーションの後に呼ぶ
+  onGameOver?: (state: EngineState) => void
+}
+
+// 固定してから次のぷよを出すまでのアニメーション
+interface LockAnimation {
+  plan: BoardAnimation
+  startedAt: number   // performance.now() 基準
+  events: EngineEvent[]
+  state: EngineState  // アニメーション後の状態（エンジンはもう進んでいる）
+  previous: EngineState
+  baseScore: number   // 連鎖前のスコア
+}
+
+// Constants
+const ALL_CLEAR_DISPLAY_MS = 2000
+const NO_EVENTS: EngineEvent[] = []
+
+// 盤面1つ分の状態・落下タイマー・連鎖アニメーションを管理する
+// エンジンは固定した時点で連鎖まで進めてしまい、表示だけを requestAnimationFrame で追いかける
+export const usePuyoPlayer = ({ active, autoFall = true, fallSpeed: fixedFallSpeed, lockDelay = DEFAULT_SETTINGS.lockDelay, playSound, onDispatch, onGarbage, onLock, onGameOver }: PuyoPlayerOptions) => {
+  const [engine, setEngine] = useState<EngineState>(() => createInitialState(0))
+  const engineRef = useRef(engine)
+  const [animation, setAnimation] = useState<LockAnimation | null>(null)
+  const [score, setScore] = useState(0)
+  const [chainCounter, setChainCounter] = useState(0)
+  const [lastLink, setLastLink] = useState<ChainLink | null>(null) // HUD に内訳を出す直近の連鎖
+  const [allClear, setAllClear] = useState(false)
+  const [timedFallSpeed, setTimedFallSpeed] = useState(INITIAL_FALL_SPEED)
+  const fallSpeed = fixedFallSpeed ?? timedFallSpeed
+  const isAnimating = animation !== null
+  const chainResetTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const callbacks = useRef({ onDispatch, onGarbage, onLock, onGameOver })
+
+  useEffect(() => {
+    callbacks.current = { onDispatch, onGarbage, onLock, onGameOver }
+  }, [onDispatch, onGarbage, onLock, onGameOver])
+
+  // 中断したゲームを再開するときは保存した落下間隔から続ける
+  const reset = useCallback((state: EngineState, fallSpeed = INITIAL_FALL_SPEED) => {
+    engineRef.current = state
+    setEngine(state)
+    setAnimation(null)
+    setScore(state.score)
+    setChainCounter(0)
+    setLastLink(null)
+    setAllClear(false)
+    setTimedFallSpeed(fallSpeed)
+  }, [])
+
+  // アニメーションが終わったら HUD を最終的な値にして、固定後の処理を呼ぶ
+  const finishLock = useCallback((events: EngineEvent[], finalState: EngineState, previous: EngineState) => {
+    setAnimation(null)
+    setScore(finalState.score)
+
+    if (events.some(event => event.type === 'allClear')) {
+      playSound('allClear')
+      setAllClear(true)
+      setTimeout(() => setAllClear(false), ALL_CLEAR_DISPLAY_MS)
+    }
+
+    // チェーンカウンターをリセットするタイミングを遅らせる（リプレイの表示と揃える）
+    if (events.some(event => event.type === 'chain')) {
+      if (chainResetTimer.current) clearTimeout(chainResetTimer.current)
+      chainResetTimer.current = setTimeout(() => {
+        setChainCounter(0)
+        setLastLink(null)
+      }, CHAIN_DISPLAY_MS) // 5秒後にリセット
+    }
+
+    callbacks.current.onLock?.(events, finalState, previous)
+
+    if (finalState.status === 'over') {
+      playSound('gameOver')
+      callbacks.current.onGameOver?.(finalState)
+    }
+  }, [playSound])
+
+  // 消え終わった連鎖の得点を加え、最後まで再生したら固定後の処理に進む
+  useEffect(() => {
+    if (!animation) return
+    let popped = 0
+    let scored = 0
+    let frame = 0
+
+    const update = () => {
+      const elapsed = performance.now() - animation.startedAt
+      const popping = animation.plan.phases.filter(phase => phase.type === 'pop' && elapsed >= phase.start).length
+      if (popping > popped) {
+        playSound('pop')
+        popped = popping
+      }
+      const count = countScoredLinks(animation.plan, elapsed)
+      if (count > scored) {
+        const links = animation.plan.links.slice(0, count)
+        setScore(animation.baseScore + links.reduce((sum, link) => sum + link.points, 0))
+        setChainCounter(links[count - 1].chain)
+        setLastLink(links[count - 1])
+        playSound('chain', links[count - 1].chain) // 連鎖数が上がるほど高い声
+        scored = count
+      }
+      if (elapsed >= animation.plan.duration) {
+        finishLock(animation.events, animation.state, animation.previous)
+        return
+      }
+      frame = requestAnimationFrame(update)
+    }
+
+    frame = requestAnimationFrame(update)
+    return () => cancelAnimationFrame(frame)
+  }, [animation, finishLock, playSound])
+
+  const dispatch = useCallback((action: EngineAction) => {
+    if (engineRef.current.status === 'active') {
+      callbacks.current.onDispatch?.(action)
+    }
+    const previous = engineRef.current
+    const { state, events } = step(previous, action)
+    engineRef.current = state
+    setEngine(state)
+
+    events.forEach(event => {
+      if (event.type === 'garbage') {
+        callbacks.current.onGarbage?.(event.sent)
+      }
+    })
+
+    if (events.some(event => event.type === 'lock')) {
+      playSound('land')
+      const plan = buildAnimation(previous, events)
+      const chainPoints = plan.links.reduce((sum, link) => sum + link.points, 0)
+      setScore(state.score - chainPoints)
+      if (plan.duration > 0) {
+        setAnimation({ plan, startedAt: performance.now(), events, state, previous, baseScore: state.score - chainPoints })
+      } else {
+        finishLock(events, state, previous)
+      }
+    } else if (events.some(event => event.type === 'drop')) {
+      setScore(state.score)
+    }
+  }, [finishLock, playSound])
+
+  const addGarbage = useCallback((count: number) => {
+    const state = receiveGarbage(engineRef.current, count)
+    engineRef.current = state
+    setEngine(state)
+    if (count > 0) playSound('garbage')
+  }, [playSound])
+
+  // 移動・回転では落下タイマーをやり直さない（押し続けて落下を止められないように）。tick は dispatch が最新の状態に適用する
+  useEffect(() => {
+    if (active && autoFall && !isAnimating && !engine.grounded) {
+      const gameLoop = setInterval(() => {
+        dispatch('tick')
+      }, fallSpeed)
+
+      return () => clearInterval(gameLoop)
+    }
+  }, [active, autoFall, engine.grounded, dispatch, fallSpeed, isAnimating])
+
+  // 接地したら固定猶予の後に固定する。移動・回転で猶予がリセットされると engine.lockResets が変わる
+  useEffect(() => {
+    if (active && autoFall && !isAnimating && engine.grounded) {
+      const lockTimer = setTimeout(() => {
+        dispatch('tick')
+      }, lockDelay)
+
+      return () => clearTimeout(lockTimer)
+    }
+  }, [active, autoFall, engine.grounded, engine.lockResets, dispatch, lockDelay, isAnimating])
+
+  useEffect(() => {
+    if (active && fixedFallSpeed === undefined) {
+      const speedIncreaseInterval = setInterval(() => {
+        setTimedFallSpeed(prevSpeed => prevSpeed / SPEED_UP_RATE)
+      }, SPEED_UP_INTERVAL)
+
+      return () => clearInterval(speedIncreaseInterval)
+    }
+  }, [active, fixedFallSpeed])
+
+  // 描画側はこの時計で同じアニメーションを再生する
+  const animationClock = useMemo<AnimationClock | null>(() => animation && {
+    plan: animation.plan,
+    elapsed: () => performance.now() - animation.startedAt
+  }, [animation])
+
+  return {
+    engine,
+    grid: engine.grid,
+    animation: animationClock,
+    score,
+    chainCounter,
+    lastLink,
+    allClear,
+    fallSpeed,
+    isAnimating,
+    pendingEvents: animation ? animation.events : NO_EVENTS, // アニメーション中の固定のイベント（onLock はまだ呼んでいない）
+    reset,
+    dispatch,
+    receiveGarbage: addGarbage
+  }
+}
+
+export type PuyoPlayer = ReturnType<typeof usePuyoPlayer>
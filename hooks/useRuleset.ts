@@ -0,0 +1,20 @@
+import { useCallback, useEffect, useState } from 'react'
+import { DEFAULT_RULESET, Ruleset, loadRuleset, normalizeRuleset, saveRuleset } from '@/lib/puyo/ruleset'
+
+export const useRuleset = () => {
+  const [rules, setRules] = useState<Ruleset>(DEFAULT_RULESET)
+
+  useEffect(() => {
+    setRules(loadRuleset())
+  }, [])
+
+  const updateRules = useCallback((changes: Partial<Ruleset>) => {
+    setRules(prev => {
+      const next = normalizeRuleset({ ...prev, ...changes })
+      saveRuleset(next)
+      return next
+    })
+  }, [])
+
+  return [rules, updateRules] as const
+}
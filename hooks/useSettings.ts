@@ -0,0 +1,25 @@
+import { useCallback, useLayoutEffect, useState } from 'react'
+import { DEFAULT_SETTINGS, Settings, loadSettings, saveSettings } from '@/lib/settings'
+import { applyAppearance } from '@/lib/theme'
+import { applyLocale, resolveLocale } from '@/lib/i18n'
+
+export const useSettings = () => {
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS)
+
+  // 保存された言語の文言で最初の描画をするため、描画前に読み込む
+  useLayoutEffect(() => {
+    setSettings(loadSettings())
+  }, [])
+
+  const updateSettings = useCallback((changes: Partial<Settings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...changes }
+      saveSettings(next)
+      applyAppearance(next.theme, next.colorShapes)
+      applyLocale(resolveLocale(next.language, navigator.languages))
+      return next
+    })
+  }, [])
+
+  return [settings, updateSettings] as const
+}
@@ -0,0 +1,43 @@
+import { useCallback, useEffect } from 'react'
+import { SoundId, getAudioEngine } from '@/lib/audio'
+import { Settings } from '@/lib/settings'
+
+export type PlaySound = (sound: SoundId, level?: number) => void
+
+// Constants
+const UNLOCK_EVENTS = ['pointerdown', 'keydown', 'touchstart']
+const MAX_VOLUME = 100
+
+// 効果音を鳴らす関数を返す。音量は設定から反映し、最初の操作で AudioContext を作る
+export const useSound = (settings: Pick<Settings, 'masterVolume' | 'sfxVolume' | 'musicVolume' | 'muted'>): PlaySound => {
+  const { masterVolume, sfxVolume, musicVolume, muted } = settings
+
+  useEffect(() => {
+    const unlock = () => getAudioEngine().unlock()
+    UNLOCK_EVENTS.forEach(type => window.addEventListener(type, unlock))
+    return () => UNLOCK_EVENTS.forEach(type => window.removeEventListener(type, unlock))
+  }, [])
+
+  useEffect(() => {
+    getAudioEngine().setVolumes({
+      master: masterVolume / MAX_VOLUME,
+      sfx: sfxVolume / MAX_VOLUME,
+      music: musicVolume / MAX_VOLUME,
+      muted
+    })
+  }, [masterVolume, sfxVolume, musicVolume, muted])
+
+  return useCallback((sound: SoundId, level?: number) => {
+    getAudioEngine().play(sound, level)
+  }, [])
+}
+
+// playing の間だけ BGM を流す
+export const useMusic = (playing: boolean) => {
+  useEffect(() => {
+    if (!playing) return
+    const audio = getAudioEngine()
+    audio.startMusic()
+    return () => audio.stopMusic()
+  }, [playing])
+}
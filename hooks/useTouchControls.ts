@@ -0,0 +1,117 @@
+import { useEffect, useRef, useState } from 'react'
+import { ControlAction } from '@/lib/puyo/engine'
+import { Settings } from '@/lib/settings'
+
+// Types
+type TouchHandling = Pick<Settings, 'touchMoveDistance' | 'touchDropDistance' | 'touchFlickDistance'>
+
+interface TouchControlsOptions {
+  handling: TouchHandling
+  onAction: (action: ControlAction) => void
+}
+
+interface Gesture {
+  pointerId: number
+  startX: number
+  startY: number
+  startedAt: number
+  anchorX: number   // 最後に1列動かした位置
+  anchorY: number   // 最後に1段落とした位置
+  moved: boolean
+}
+
+// Constants
+const TAP_SLOP = 10   // これより動かなければタップ（px）
+const TAP_MS = 300
+const FLICK_MS = 250  // この時間内に下へはじいたらハードドロップ
+
+// 返した ref を付けた要素の上でのタッチ操作を ControlAction にする（マウスは対象外）
+// 横にドラッグで移動、下にドラッグでソフトドロップ、下にはじくとハードドロップ、
+// タップは左半分なら左回転・右半分なら右回転
+export const useTouchControls = ({ handling, onAction }: TouchControlsOptions) => {
+  const [element, setElement] = useState<HTMLElement | null>(null) // 盤面は後から表示されるので ref ではなく state で持つ
+  const callbacks = useRef({ handling, onAction })
+
+  useEffect(() => {
+    callbacks.current = { handling, onAction }
+  }, [handling, onAction])
+
+  useEffect(() => {
+    if (!element) return
+    let gesture: Gesture | null = null
+
+    const handleDown = (e: PointerEvent) => {
+      if (e.pointerType === 'mouse' || gesture) return
+      e.preventDefault()
+      element.setPointerCapture(e.pointerId)
+      gesture = { pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, startedAt: e.timeStamp, anchorX: e.clientX, anchorY: e.clientY, moved: false }
+    }
+
+    const handleMove = (e: PointerEvent) => {
+      if (!gesture || e.pointerId !== gesture.pointerId) return
+      const { handling: { touchMoveDistance, touchDropDistance }, onAction } = callbacks.current
+      const moveDistance = Math.max(touchMoveDistance, 1)
+      const dropDistance = Math.max(touchDropDistance, 1)
+      while (Math.abs(e.clientX - gesture.anchorX) >= moveDistance) {
+        const direction = e.clientX > gesture.anchorX ? 1 : -1
+        onAction(direction > 0 ? 'right' : 'left')
+        gesture.anchorX += direction * moveDistance
+        gesture.moved = true
+      }
+      while (e.clientY - gesture.anchorY >= dropDistance) {
+        onAction('down')
+        gesture.anchorY += dropDistance
+        gesture.moved = true
+      }
+      // 上に戻した分は落とさない（戻してからまた下げたときに数え直す）
+      if (e.clientY < gesture.anchorY) gesture.anchorY = e.clientY
+    }
+
+    const handleUp = (e: PointerEvent) => {
+      if (!gesture || e.pointerId !== gesture.pointerId) return
+      const { handling: { touchFlickDistance }, onAction } = callbacks.current
+      const dx = e.clientX - gesture.startX
+      const dy = e.clientY - gesture.startY
+      const duration = e.timeStamp - gesture.startedAt
+      if (dy >= touchFlickDistance && dy > Math.abs(dx) && duration <= FLICK_MS) {
+        onAction('hardDrop')
+      } else if (!gesture.moved && Math.hypot(dx, dy) < TAP_SLOP && duration <= TAP_MS) {
+        const rect = element.getBoundingClientRect()
+        onAction(e.clientX < rect.left + rect.width / 2 ? 'rotateLeft' : 'rotateRight')
+      }
+      gesture = null
+    }
+
+    const handleCancel = (e: PointerEvent) => {
+      if (gesture?.pointerId === e.pointerId) gesture = null
+    }
+
+    element.addEventListener('pointerdown', handleDown)
+    element.addEventListener('pointermove', handleMove)
+    element.addEventListener('pointerup', handleUp)
+    element.addEventListener('pointercancel', handleCancel)
+    return () => {
+      element.removeEventListener('pointerdown', handleDown)
+      element.removeEventListener('pointermove', handleMove)
+      element.removeEventListener('pointerup', handleUp)
+      element.removeEventListener('pointercancel', handleCancel)
+    }
+  }, [element])
+
+  return setElement
+}
+
+// 主な入力がタッチの端末か（ホールドボタンなどを出すかの判定）
+export const useCoarsePointer = () => {
+  const [coarse, setCoarse] = useState(false)
+
+  useEffect(() => {
+    const query = window.matchMedia('(pointer: coarse)')
+    const update = () => setCoarse(query.matches)
+    update()
+    query.addEventListener('change', update)
+    return () => query.removeEventListener('change', update)
+  }, [])
+
+  return coarse
+}
@@ -0,0 +1,17 @@
+import { useLayoutEffect, useMemo, useState } from 'react'
+import { DEFAULT_LOCALE, LanguageSetting, Locale, createTranslator, resolveLocale } from '@/lib/i18n'
+
+// 設定の言語で翻訳する関数を返す。'auto' のブラウザの言語はマウント後に読む（静的に書き出した既定の言語と揃えるため）
+// 描画前に読むので、既定と違う言語でも既定の言語の文言は画面に出ない
+export const useTranslation = (language: LanguageSetting) => {
+  const [browserLanguages, setBrowserLanguages] = useState<readonly string[]>([DEFAULT_LOCALE])
+
+  useLayoutEffect(() => {
+    setBrowserLanguages(navigator.languages)
+  }, [])
+
+  const locale: Locale = resolveLocale(language, browserLanguages)
+  const t = useMemo(() => createTranslator(locale), [locale])
+
+  return [t, locale] as const
+}
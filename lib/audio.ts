@@ -0,0 +1,232 @@
+// 効果音と BGM
+// ブラウザは操作前の音声再生を許さないので、AudioContext は最初のクリック・キー入力の後に作る
+
+// Types
+export type SoundId =
+  | 'move'
+  | 'rotate'
+  | 'softDrop'
+  | 'hardDrop'
+  | 'hold'
+  | 'land'
+  | 'pop'
+  | 'chain'     // 連鎖数に応じて高くなる
+  | 'allClear'
+  | 'garbage'   // おじゃまぷよの予告
+  | 'gameOver'
+  | 'clear'     // なぞぷよのクリア
+
+// 0〜1
+export interface AudioVolumes {
+  master: number
+  sfx: number
+  music: number
+  muted: boolean
+}
+
+export interface AudioEngine {
+  unlock: () => void
+  play: (sound: SoundId, level?: number) => void
+  startMusic: () => void
+  stopMusic: () => void
+  setVolumes: (volumes: AudioVolumes) => void
+}
+
+interface Tone {
+  frequency: number
+  duration: number      // 秒
+  type?: OscillatorType
+  delay?: number        // 秒
+  slide?: number        // 鳴り終わりの周波数の倍率
+  gain?: number
+}
+
+interface Buses {
+  context: AudioContext
+  master: GainNode
+  sfx: GainNode
+  music: GainNode
+}
+
+// Constants
+const ATTACK = 0.005
+const SILENCE = 0.0001  // 指数カーブは 0 にできないので、ここまで下げて止める
+const VOLUME_SMOOTHING = 0.02
+
+const SOUND_BANK: Record<Exclude<SoundId, 'chain'>, Tone[]> = {
+  move: [{ frequency: 300, duration: 0.05, type: 'square', gain: 0.08 }],
+  rotate: [{ frequency: 440, duration: 0.07, type: 'triangle', slide: 1.5, gain: 0.2 }],
+  softDrop: [{ frequency: 200, duration: 0.04, type: 'square', gain: 0.05 }],
+  hardDrop: [{ frequency: 220, duration: 0.12, type: 'triangle', slide: 0.4, gain: 0.3 }],
+  hold: [
+    { frequency: 523, duration: 0.08, type: 'sine', gain: 0.2 },
+    { frequency: 784, duration: 0.08, type: 'sine', delay: 0.05, gain: 0.2 }
+  ],
+  land: [{ frequency: 140, duration: 0.1, type: 'triangle', slide: 0.7, gain: 0.35 }],
+  pop: [{ frequency: 880, duration: 0.1, type: 'sine', slide: 1.8, gain: 0.25 }],
+  allClear: [523, 659, 784, 1047].map((frequency, i) => ({ frequency, duration: 0.25, type: 'triangle' as const, delay: i * 0.08, gain: 0.3 })),
+  garbage: [
+    { frequency: 110, duration: 0.25, type: 'sawtooth', slide: 0.8, gain: 0.15 },
+    { frequency: 98, duration: 0.25, type: 'sawtooth', slide: 0.8, delay: 0.12, gain: 0.15 }
+  ],
+  gameOver: [392, 330, 262, 196].map((frequency, i) => ({ frequency, duration: 0.35, type: 'triangle' as const, delay: i * 0.18, gain: 0.3 })),
+  clear: [
+    { frequency: 800, duration: 0.3, type: 'sine', gain: 0.25 },
+    { frequency: 1200, duration: 0.3, type: 'sine', delay: 0.1, gain: 0.25 }
+  ]
+}
+
+// 連鎖の声は1連鎖ごとに全音ずつ上がる（10連鎖で頭打ち）
+const CHAIN_BASE_FREQUENCY = 330
+const MAX_CHAIN_STEP = 9
+
+// BGM：C–Am–F–G を繰り返し、ペンタトニックのメロディを4小節ごとに作り直す
+const MUSIC_BPM = 132
+const MUSIC_STEP = 60 / MUSIC_BPM / 4  // 16分音符（秒）
+const STEPS_PER_BAR = 16
+const MOTIF_BARS = 4
+const LOOKAHEAD = 0.12                  // この先（秒）までの音を予約する
+const SCHEDULE_INTERVAL_MS = 25
+const PROGRESSION = [[48, 52, 55], [45, 48, 52], [41, 45, 48], [43, 47, 50]] // MIDI ノート番号
+const PENTATONIC = [0, 2, 4, 7, 9]
+const MELODY_ROOT = 72
+
+// Helper functions
+const midiToFrequency = (note: number): number => 440 * 2 ** ((note - 69) / 12)
+
+const chainTones = (chain: number): Tone[] => {
+  const step = Math.min(Math.max(chain, 1) - 1, MAX_CHAIN_STEP)
+  const frequency = CHAIN_BASE_FREQUENCY * 2 ** ((step * 2) / 12)
+  const duration = 0.18 + step * 0.02
+  return [
+    { frequency, duration, type: 'square', slide: 1.25, gain: 0.12 },
+    { frequency: frequency * 1.5, duration, type: 'triangle', slide: 1.25, delay: 0.03, gain: 0.18 }
+  ]
+}
+
+// 1音ごとにエンベロープをかけ、鳴り終わったらノードを外す
+const playTone = (context: AudioContext, output: AudioNode, tone: Tone, at: number) => {
+  const start = at + (tone.delay ?? 0)
+  const end = start + tone.duration
+  const oscillator = context.createOscillator()
+  const gain = context.createGain()
+
+  oscillator.type = tone.type ?? 'sine'
+  oscillator.frequency.setValueAtTime(tone.frequency, start)
+  if (tone.slide) oscillator.frequency.exponentialRampToValueAtTime(tone.frequency * tone.slide, end)
+  gain.gain.setValueAtTime(0, start)
+  gain.gain.linearRampToValueAtTime(tone.gain ?? 0.2, start + ATTACK)
+  gain.gain.exponentialRampToValueAtTime(SILENCE, end)
+
+  oscillator.connect(gain)
+  gain.connect(output)
+  oscillator.onended = () => gain.disconnect()
+  oscillator.start(start)
+  oscillator.stop(end + ATTACK)
+}
+
+// MOTIF_BARS 小節分のメロディ（null は休符）
+const createMotif = (): (number | null)[] => (
+  Array.from({ length: STEPS_PER_BAR * MOTIF_BARS }, (_, i) => {
+    if (i % 2 === 1 || Math.random() < 0.4) return null
+    const degree = PENTATONIC[Math.floor(Math.random() * PENTATONIC.length)]
+    return MELODY_ROOT + degree + (Math.random() < 0.2 ? 12 : 0)
+  })
+)
+
+export const createAudioEngine = (): AudioEngine => {
+  let buses: Buses | null = null
+  let volumes: AudioVolumes = { master: 1, sfx: 1, music: 1, muted: false }
+  let musicWanted = false
+  let musicTimer: ReturnType<typeof setInterval> | null = null
+  let nextStepTime = 0
+  let stepIndex = 0
+  let motif = createMotif()
+
+  const applyVolumes = () => {
+    if (!buses) return
+    const now = buses.context.currentTime
+    buses.master.gain.setTargetAtTime(volumes.muted ? 0 : volumes.master, now, VOLUME_SMOOTHING)
+    buses.sfx.gain.setTargetAtTime(volumes.sfx, now, VOLUME_SMOOTHING)
+    buses.music.gain.setTargetAtTime(volumes.music, now, VOLUME_SMOOTHING)
+  }
+
+  const scheduleStep = ({ context, music }: Buses, index: number, at: number) => {
+    const step = index % STEPS_PER_BAR
+    const bar = Math.floor(index / STEPS_PER_BAR)
+    const chord = PROGRESSION[bar % PROGRESSION.length]
+    if (step === 0 && bar % MOTIF_BARS === 0 && index > 0) motif = createMotif()
+
+    if (step % 8 === 0) {
+      playTone(context, music, { frequency: midiToFrequency(chord[0] - 12), duration: MUSIC_STEP * 6, type: 'triangle', gain: 0.3 }, at)
+    }
+    if (step % 2 === 0) {
+      const note = chord[(step / 2) % chord.length] + 12
+      playTone(context, music, { frequency: midiToFrequency(note), duration: MUSIC_STEP * 1.5, type: 'square', gain: 0.04 }, at)
+    }
+    const melody = motif[index % motif.length]
+    if (melody !== null) {
+      playTone(context, music, { frequency: midiToFrequency(melody), duration: MUSIC_STEP * 2, type: 'triangle', gain: 0.12 }, at)
+    }
+  }
+
+  const startScheduler = () => {
+    if (!buses || musicTimer) return
+    const current = buses
+    nextStepTime = current.context.currentTime + 0.05
+    musicTimer = setInterval(() => {
+      while (nextStepTime < current.context.currentTime + LOOKAHEAD) {
+        scheduleStep(current, stepIndex, nextStepTime)
+        nextStepTime += MUSIC_STEP
+        stepIndex++
+      }
+    }, SCHEDULE_INTERVAL_MS)
+  }
+
+  return {
+    unlock: () => {
+      if (!buses) {
+        const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext
+        const context = new AudioContextClass()
+        const master = context.createGain()
+        const sfx = context.createGain()
+        const music = context.createGain()
+        sfx.connect(master)
+        music.connect(master)
+        master.connect(context.destination)
+        buses = { context, master, sfx, music }
+        applyVolumes()
+        if (musicWanted) startScheduler()
+      }
+      if (buses.context.state === 'suspended') buses.context.resume().catch(() => {})
+    },
+    play: (sound, level = 1) => {
+      if (!buses || buses.context.state !== 'running') return
+      const { context, sfx } = buses
+      const tones = sound === 'chain' ? chainTones(level) : SOUND_BANK[sound]
+      tones.forEach(tone => playTone(context, sfx, tone, context.currentTime))
+    },
+    startMusic: () => {
+      musicWanted = true
+      startScheduler()
+    },
+    stopMusic: () => {
+      musicWanted = false
+      if (musicTimer) clearInterval(musicTimer)
+      musicTimer = null
+      stepIndex = 0
+    },
+    setVolumes: (next) => {
+      volumes = next
+      applyVolumes()
+    }
+  }
+}
+
+// ページをまたいで1つの AudioContext を使い回す
+let sharedEngine: AudioEngine | null = null
+
+export const getAudioEngine = (): AudioEngine => {
+  if (!sharedEngine) sharedEngine = createAudioEngine()
+  return sharedEngine
+}
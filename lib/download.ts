@@ -0,0 +1,9 @@
+// テキストをファイルとしてダウンロードさせる
+export const downloadFile = (fileName: string, content: string, type = 'application/json') => {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,43 @@
+// 終わったゲームの成績を IndexedDB に残す
+// localStorage と違って件数が増えても困らないので、全ゲーム分をそのまま保存する
+
+import { GameStats } from './puyo/stats'
+
+// Constants
+const DB_NAME = 'puyoPuyo'
+const DB_VERSION = 1
+const GAMES_STORE = 'games'
+
+// Helper functions
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result)
+  request.onerror = () => reject(request.error)
+})
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION)
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(GAMES_STORE, { keyPath: 'id', autoIncrement: true })
+  }
+  request.onsuccess = () => resolve(request.result)
+  request.onerror = () => reject(request.error)
+})
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase()
+  try {
+    return await requestToPromise(run(db.transaction(GAMES_STORE, mode).objectStore(GAMES_STORE)))
+  } finally {
+    db.close()
+  }
+}
+
+// 保存したゲームのキーを返す。id は自動で振られる
+export const saveGameStats = async (stats: GameStats): Promise<number> => (
+  Number(await withStore('readwrite', store => store.add(stats)))
+)
+
+// 古い順に並べて返す
+export const loadGameHistory = (): Promise<GameStats[]> => withStore('readonly', store => store.getAll())
+
+export const clearGameHistory = (): Promise<void> => withStore('readwrite', store => store.clear()).then(() => undefined)
@@ -0,0 +1,191 @@
+// 英語のメッセージ。キーは ja.ts と同じものをすべて揃える
+
+import type { Messages } from './index'
+
+export const en: Messages = {
+  'meta.title': 'Puyo Puyo Remix',
+  'meta.description': 'Puyo Puyo in the browser: solo modes, versus CPU, online matches and puzzles',
+
+  'language.label': 'Language',
+  'language.auto': 'Auto (browser setting)',
+
+  'nav.start': 'Start Game',
+  'nav.options': 'Options',
+  'nav.versus': 'Versus CPU',
+  'nav.local': '2 Players',
+  'nav.online': 'Online',
+  'nav.puzzle': 'Puzzles',
+  'nav.training': 'Training',
+  'nav.editor': 'Editor',
+  'nav.replay': 'Replays',
+  'nav.leaderboard': 'Leaderboard',
+  'nav.stats': 'Stats',
+  'nav.title': 'Back to title',
+
+  'mode.endless.label': 'Endless',
+  'mode.endless.description': 'Play until you top out and go for a high score',
+  'mode.sprint.label': 'Sprint',
+  'mode.sprint.description': 'Clear {goal} puyos as fast as you can',
+  'mode.timeAttack.label': 'Time Attack',
+  'mode.timeAttack.description': 'Score as much as you can in {minutes} minutes',
+  'mode.marathon.label': 'Marathon',
+  'mode.marathon.description': 'The level rises every {size} puyos cleared. Clear level {levels} to finish',
+
+  'scoring.tsu': 'Puyo Puyo Tsu',
+  'scoring.classic': 'Classic',
+
+  'title.best': 'Best: {record}',
+  'title.seed': 'Seed:',
+  'title.seedPlaceholder': 'Random',
+  'title.seedInvalid': 'The seed must be a whole number from 0 to 4294967295',
+  'title.rules': 'Rules:',
+  'title.rulesSummary': '{cols} columns × {rows} rows, {colors} colors, {popSize} to pop (fine-tune in Options)',
+  'title.threeColorStart': 'First two pairs use three colors',
+  'title.scoring': 'Scoring:',
+  'title.continue': 'Continue',
+  'title.suspended': 'Suspended game: {mode}, score {score}, {time} (starting a new game discards it)',
+
+  'game.score': 'Score: {score}',
+  'game.chain': '{chain}-chain',
+  'game.remaining': '{time} left',
+  'game.level': 'Level {level}',
+  'game.goal': '{cleared} / {goal} puyos',
+  'game.seed': 'Seed: {seed}',
+  'game.hold': 'Hold',
+  'game.next': 'Next',
+  'game.pause': 'Pause',
+  'game.resume': 'Resume',
+  'game.restart': 'Restart',
+  'game.paused': 'Paused',
+  'game.allClear': 'All Clear!',
+
+  'board.label': 'Board',
+  'board.pair': '{top} over {bottom}',
+  'color.red': 'red',
+  'color.green': 'green',
+  'color.blue': 'blue',
+  'color.yellow': 'yellow',
+  'color.purple': 'purple',
+  'color.garbage': 'garbage',
+  'color.none': 'empty',
+
+  'end.toppedOut': 'Game Over',
+  'end.goal': 'Cleared!',
+  'end.timeUp': 'Time\'s Up!',
+
+  'result.finalScore': 'Final Score: {score}',
+  'result.time': 'Time: {time}',
+  'result.newRecord': 'New record!',
+  'result.playAgain': 'Play Again',
+  'result.saveReplay': 'Save Replay',
+  'result.watchReplay': 'Watch Replay',
+  'result.namePlaceholder': 'Name',
+  'result.submit': 'Submit Score',
+  'result.viewLeaderboard': 'View Leaderboard',
+  'result.sending': 'Verifying…',
+  'result.submitted': 'Submitted (rank #{rank})',
+
+  'summary.title': 'This Game',
+  'summary.duration': 'Time: {value}',
+  'summary.pieces': 'Pieces: {value}',
+  'summary.piecesPerMinute': 'Per minute: {value}',
+  'summary.maxChain': 'Max chain: {value}',
+  'summary.holds': 'Holds: {value}',
+  'summary.hardDrops': 'Hard drops: {value}',
+  'summary.chainCount': '{chain}-chain: {count} times',
+
+  'stats.compare': 'Compare:',
+  'stats.recent': 'Last {count} games',
+  'stats.all': 'All games',
+  'stats.clear': 'Clear history',
+  'stats.clearConfirm': 'Delete the whole game history?',
+  'stats.loadError': 'Could not load the game history',
+  'stats.empty': 'No games recorded yet',
+  'stats.chartMax': '{label} (best {max})',
+  'stats.averageRow': '{label} ({games} games)',
+  'stats.average': 'Average',
+  'stats.playedAt': 'Played',
+  'stats.rules': 'Rules',
+  'stats.score': 'Score',
+  'stats.duration': 'Time',
+  'stats.pieces': 'Pieces',
+  'stats.perMinute': 'Per min',
+  'stats.piecesPerMinute': 'Pieces per minute',
+  'stats.maxChain': 'Max chain',
+  'stats.holds': 'Holds',
+  'stats.hardDrops': 'Hard drops',
+  'stats.chainDistribution': 'Chains (last {count} games)',
+  'stats.cleared': 'Puyos cleared (last {count} games)',
+  'stats.customRules': 'Custom ({cols}×{rows}, {colors} colors, pop {popSize})',
+  'stats.colorCount': '{count} colors',
+
+  'announce.player': '{label}: {message}',
+  'announce.chain': '{chain}-chain, score {score}',
+  'announce.danger': 'Danger: the stack is close to the spawn point',
+  'announce.gameOver': 'Game over, score {score}',
+  'announce.end': '{title}, score {score}',
+
+  'options.title': 'Options',
+  'options.display': 'Display',
+  'options.ghost': 'Show ghost (landing position)',
+  'options.popPreview': 'Highlight puyos that would pop',
+  'options.theme': 'Colors:',
+  'options.colorShapes': 'Show a shape for each color (●▲■◆★)',
+  'options.sound': 'Sound',
+  'options.mute': 'Mute',
+  'options.masterVolume': 'Master',
+  'options.sfxVolume': 'Effects',
+  'options.musicVolume': 'Music',
+  'options.handling': 'Handling',
+  'options.handlingHint': 'All values are in milliseconds (an ARR of 0 moves straight to the wall)',
+  'options.das': 'Repeat delay (DAS)',
+  'options.arr': 'Repeat rate (ARR)',
+  'options.softDropInterval': 'Soft drop interval',
+  'options.lockDelay': 'Lock delay',
+  'options.controls': 'Controls',
+  'options.controlsHint': 'Click a slot, then press a key (Backspace clears it, Esc is reserved for pause)',
+  'options.waiting': 'Waiting…',
+  'options.conflicts': 'These keys are bound to more than one action: {keys}',
+  'options.reset': 'Reset to defaults',
+  'options.touch': 'Touch',
+  'options.touchHint': 'Drag sideways to move, drag down to soft drop, flick down to hard drop and tap the left or right half of the board to rotate. Distances are in pixels',
+  'options.touchMoveDistance': 'Drag per column',
+  'options.touchDropDistance': 'Drag per row',
+  'options.touchFlickDistance': 'Flick for hard drop',
+  'options.virtualPad': 'Show on-screen controls',
+
+  'touch.pad': 'On-screen controls',
+
+  'action.left': 'Move left',
+  'action.right': 'Move right',
+  'action.down': 'Soft drop',
+  'action.rotateLeft': 'Rotate left',
+  'action.rotateRight': 'Rotate right',
+  'action.hold': 'Hold',
+  'action.hardDrop': 'Hard drop',
+
+  'gamepad.title': 'Gamepad',
+  'gamepad.connect': 'Connect a controller and press any button',
+
+  'theme.classic': 'Classic',
+  'theme.highContrast': 'High contrast',
+  'theme.deuteranopia': 'Deuteranopia',
+  'theme.protanopia': 'Protanopia',
+  'theme.dark': 'Dark',
+
+  'ruleset.title': 'Rules',
+  'ruleset.preset': 'Preset',
+  'ruleset.custom': 'Custom',
+  'ruleset.standard': 'Standard',
+  'ruleset.tsu': 'Puyo Puyo Tsu',
+  'ruleset.beginner': '3 colors (beginner)',
+  'ruleset.wide': 'Wide (8 columns)',
+  'ruleset.party': 'Party (pop at 3)',
+  'ruleset.cols': 'Columns',
+  'ruleset.rows': 'Rows',
+  'ruleset.hiddenRows': 'Hidden rows',
+  'ruleset.colorCount': 'Colors',
+  'ruleset.popSize': 'Puyos to pop',
+  'ruleset.spawnX': 'Spawn column',
+  'ruleset.nextCount': 'Next pairs shown'
+}
@@ -0,0 +1,57 @@
+// 画面の文言の翻訳
+// 言語は設定で選ぶか、「自動」ならブラウザの言語から決める
+
+import { ja } from './ja'
+import { en } from './en'
+
+// Types
+export type Locale = 'ja' | 'en'
+export type LanguageSetting = Locale | 'auto'
+export type MessageKey = keyof typeof ja
+export type Messages = Record<MessageKey, string>
+export type MessageParams = Record<string, string | number>
+export type Translate = (key: MessageKey, params?: MessageParams) => string
+
+// Constants
+export const LOCALES: Locale[] = ['ja', 'en']
+export const DEFAULT_LOCALE: Locale = 'ja'      // 静的に書き出すページの言語
+export const FALLBACK_LOCALE: Locale = 'en'      // ブラウザの言語がどれにも当てはまらないとき
+export const LOCALE_PENDING_ATTRIBUTE = 'data-locale-pending' // 既定と違う言語を反映するまで本文を隠す
+export const LANGUAGE_SETTINGS: LanguageSetting[] = ['auto', ...LOCALES]
+
+// 言語の名前はその言語自身で書く
+export const LOCALE_NAMES: Record<Locale, string> = {
+  ja: '日本語',
+  en: 'English'
+}
+
+const CATALOGS: Record<Locale, Messages> = { ja, en }
+
+export const isLanguageSetting = (value: unknown): value is LanguageSetting => LANGUAGE_SETTINGS.includes(value as LanguageSetting)
+
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string => (
+  CATALOGS[locale][key].replace(/\{(\w+)\}/g, (match, name: string) => name in params ? String(params[name]) : match)
+)
+
+export const createTranslator = (locale: Locale): Translate => (key, params) => translate(locale, key, params)
+
+// 'en-US' のような言語タグを優先順に見て、最初に対応している言語を選ぶ
+export const detectLocale = (languages: readonly string[]): Locale => {
+  for (const language of languages) {
+    const primary = language.toLowerCase().split('-')[0]
+    const locale = LOCALES.find(candidate => candidate === primary)
+    if (locale) return locale
+  }
+  return FALLBACK_LOCALE
+}
+
+export const resolveLocale = (setting: LanguageSetting, languages: readonly string[]): Locale => (
+  setting === 'auto' ? detectLocale(languages) : setting
+)
+
+// <html lang> とタブのタイトルを今の言語に合わせ、隠していた本文を表示する
+export const applyLocale = (locale: Locale) => {
+  document.documentElement.lang = locale
+  document.documentElement.removeAttribute(LOCALE_PENDING_ATTRIBUTE)
+  document.title = translate(locale, 'meta.title')
+}
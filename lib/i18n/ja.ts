@@ -0,0 +1,190 @@
+// 日本語のメッセージ（キーの一覧もここが元になる）
+// {name} の部分は translate に渡した値で置き換える
+
+export const ja = {
+  'meta.title': '改造ぷよぷよ',
+  'meta.description': 'ブラウザで遊べるぷよぷよ。ひとり用・CPU 対戦・オンライン対戦・なぞぷよ',
+
+  'language.label': '言語',
+  'language.auto': '自動（ブラウザの設定）',
+
+  'nav.start': 'ゲームスタート',
+  'nav.options': 'オプション',
+  'nav.versus': '対戦',
+  'nav.local': '2人対戦',
+  'nav.online': 'オンライン対戦',
+  'nav.puzzle': 'なぞぷよ',
+  'nav.training': '練習',
+  'nav.editor': 'エディタ',
+  'nav.replay': 'リプレイ',
+  'nav.leaderboard': 'ランキング',
+  'nav.stats': '成績',
+  'nav.title': 'タイトルへ',
+
+  'mode.endless.label': 'エンドレス',
+  'mode.endless.description': '窒息するまで続けてスコアを競う',
+  'mode.sprint.label': 'スプリント',
+  'mode.sprint.description': '{goal}個消すまでのタイムを競う',
+  'mode.timeAttack.label': 'タイムアタック',
+  'mode.timeAttack.description': '{minutes}分間のスコアを競う',
+  'mode.marathon.label': 'マラソン',
+  'mode.marathon.description': '{size}個消すごとにレベルが上がる。レベル{levels}をクリアすると終了',
+
+  'scoring.tsu': 'ぷよぷよ通',
+  'scoring.classic': 'クラシック',
+
+  'title.best': '自己ベスト: {record}',
+  'title.seed': 'シード:',
+  'title.seedPlaceholder': 'ランダム',
+  'title.seedInvalid': 'シードは 0〜4294967295 の整数で入力してください',
+  'title.rules': 'ルール:',
+  'title.rulesSummary': '{cols}列×{rows}段・{colors}色・{popSize}個で消える（オプションで細かく変更できます）',
+  'title.threeColorStart': '最初の2手は3色',
+  'title.scoring': '得点計算:',
+  'title.continue': '続きから',
+  'title.suspended': '中断したゲーム: {mode}・スコア {score}・{time}（新しく始めると消えます）',
+
+  'game.score': 'スコア: {score}',
+  'game.chain': '{chain}連鎖',
+  'game.remaining': '残り {time}',
+  'game.level': 'レベル {level}',
+  'game.goal': '{cleared} / {goal}個',
+  'game.seed': 'シード: {seed}',
+  'game.hold': 'ホールド',
+  'game.next': 'ネクスト',
+  'game.pause': 'ポーズ',
+  'game.resume': '再開',
+  'game.restart': 'やり直す',
+  'game.paused': 'ポーズ中',
+  'game.allClear': '全消し！',
+
+  'board.label': '盤面',
+  'board.pair': '{top}と{bottom}',
+  'color.red': '赤',
+  'color.green': '緑',
+  'color.blue': '青',
+  'color.yellow': '黄',
+  'color.purple': '紫',
+  'color.garbage': 'おじゃま',
+  'color.none': 'なし',
+
+  'end.toppedOut': 'ゲームオーバー',
+  'end.goal': 'クリア！',
+  'end.timeUp': 'タイムアップ！',
+
+  'result.finalScore': '最終スコア: {score}',
+  'result.time': 'タイム: {time}',
+  'result.newRecord': '更新！',
+  'result.playAgain': 'もう一度',
+  'result.saveReplay': 'リプレイを保存',
+  'result.watchReplay': 'リプレイを見る',
+  'result.namePlaceholder': '名前',
+  'result.submit': 'ランキングに登録',
+  'result.viewLeaderboard': 'ランキングを見る',
+  'result.sending': '確認中…',
+  'result.submitted': '登録しました（{rank}位）',
+
+  'summary.title': '今回の成績',
+  'summary.duration': '時間: {value}',
+  'summary.pieces': '設置数: {value}',
+  'summary.piecesPerMinute': '毎分: {value}手',
+  'summary.maxChain': '最大連鎖: {value}',
+  'summary.holds': 'ホールド: {value}回',
+  'summary.hardDrops': 'ハードドロップ: {value}回',
+  'summary.chainCount': '{chain}連鎖: {count}回',
+
+  'stats.compare': '比べるゲーム数:',
+  'stats.recent': '直近{count}ゲーム',
+  'stats.all': '全体',
+  'stats.clear': '履歴を削除',
+  'stats.clearConfirm': '成績の履歴をすべて削除しますか？',
+  'stats.loadError': '成績の履歴を読み込めません',
+  'stats.empty': 'まだ記録がありません',
+  'stats.chartMax': '{label}（最高 {max}）',
+  'stats.averageRow': '{label}（{games}ゲーム）',
+  'stats.average': '平均',
+  'stats.playedAt': '日時',
+  'stats.rules': 'ルール',
+  'stats.score': 'スコア',
+  'stats.duration': '時間',
+  'stats.pieces': '設置数',
+  'stats.perMinute': '毎分',
+  'stats.piecesPerMinute': '毎分の設置数',
+  'stats.maxChain': '最大連鎖',
+  'stats.holds': 'ホールド',
+  'stats.hardDrops': 'ハードドロップ',
+  'stats.chainDistribution': '連鎖数の分布（直近{count}ゲーム）',
+  'stats.cleared': '消したぷよ（直近{count}ゲーム）',
+  'stats.customRules': 'カスタム（{cols}列×{rows}段・{colors}色・{popSize}個消し）',
+  'stats.colorCount': '{count}色',
+
+  'announce.player': '{label}：{message}',
+  'announce.chain': '{chain}連鎖、スコア {score}点',
+  'announce.danger': '危険：出現位置の近くまで積み上がっています',
+  'announce.gameOver': 'ゲームオーバー、スコア {score}点',
+  'announce.end': '{title}、スコア {score}点',
+
+  'options.title': 'オプション',
+  'options.display': '表示設定',
+  'options.ghost': 'ゴースト（着地位置）を表示',
+  'options.popPreview': '置いたら消えるぷよを表示',
+  'options.theme': '配色:',
+  'options.colorShapes': 'ぷよに色ごとの記号を表示（●▲■◆★）',
+  'options.sound': 'サウンド',
+  'options.mute': 'ミュート',
+  'options.masterVolume': '全体',
+  'options.sfxVolume': '効果音',
+  'options.musicVolume': 'BGM',
+  'options.handling': '操作感',
+  'options.handlingHint': '単位はミリ秒です（ARR を 0 にすると壁まで一気に動きます）',
+  'options.das': 'リピート開始（DAS）',
+  'options.arr': 'リピート間隔（ARR）',
+  'options.softDropInterval': 'ソフトドロップ間隔',
+  'options.lockDelay': '接地後の猶予',
+  'options.controls': '操作設定',
+  'options.controlsHint': '枠をクリックしてからキーを押してください（Backspace で解除、Esc はポーズ用）',
+  'options.waiting': '入力待ち…',
+  'options.conflicts': '同じキーが複数の操作に割り当てられています: {keys}',
+  'options.reset': '初期設定に戻す',
+  'options.touch': 'タッチ操作',
+  'options.touchHint': '横にドラッグで移動、下にドラッグでソフトドロップ、下にはじくとハードドロップ、盤面の左右をタップで回転します。距離の単位は px です',
+  'options.touchMoveDistance': '1列動かす距離',
+  'options.touchDropDistance': '1段落とす距離',
+  'options.touchFlickDistance': 'ハードドロップのはじき幅',
+  'options.virtualPad': '画面上に操作ボタンを表示',
+
+  'touch.pad': '操作ボタン',
+
+  'action.left': '左移動',
+  'action.right': '右移動',
+  'action.down': '下移動',
+  'action.rotateLeft': '左回転',
+  'action.rotateRight': '右回転',
+  'action.hold': 'ホールド',
+  'action.hardDrop': 'ハードドロップ',
+
+  'gamepad.title': 'ゲームパッド',
+  'gamepad.connect': 'コントローラーを接続して、いずれかのボタンを押してください',
+
+  'theme.classic': 'クラシック',
+  'theme.highContrast': 'ハイコントラスト',
+  'theme.deuteranopia': '2型色覚（緑）向け',
+  'theme.protanopia': '1型色覚（赤）向け',
+  'theme.dark': 'ダーク',
+
+  'ruleset.title': 'ルール',
+  'ruleset.preset': 'プリセット',
+  'ruleset.custom': 'カスタム',
+  'ruleset.standard': '標準',
+  'ruleset.tsu': 'ぷよぷよ通',
+  'ruleset.beginner': '3色（入門）',
+  'ruleset.wide': 'ワイド（8列）',
+  'ruleset.party': 'パーティー（3個で消える）',
+  'ruleset.cols': '列数',
+  'ruleset.rows': '段数',
+  'ruleset.hiddenRows': '見えない段数',
+  'ruleset.colorCount': '色数',
+  'ruleset.popSize': '消える個数',
+  'ruleset.spawnX': '出現列',
+  'ruleset.nextCount': 'ネクスト表示数'
+}
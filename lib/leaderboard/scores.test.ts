@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { EngineAction, createInitialState, step } from '../puyo/engine'
+import { DEFAULT_SEQUENCE_OPTIONS } from '../puyo/sequence'
+import { Replay, createReplay, finishReplay, recordInput, serializeReplay } from '../puyo/replay'
+import { ScoreSubmission, verifySubmission } from './scores'
+
+// Constants
+const SEED = 11
+const PIECE_INTERVAL = 500
+
+// Helper functions
+// エンドレスで窒息するまで、組ぷよごとに actions を入力してからハードドロップする
+const playUntilTopOut = (actions: EngineAction[]): { replay: Replay, score: number, maxChain: number } => {
+  let replay = createReplay(SEED, DEFAULT_SEQUENCE_OPTIONS, 'tsu', 'endless')
+  let state = createInitialState(replay.seed, replay.options, replay.scoring, replay.rules)
+  let maxChain = 0
+  for (let piece = 1; state.status === 'active'; piece++) {
+    for (const action of [...actions, 'hardDrop' as const]) {
+      const result = step(state, action)
+      result.events.forEach(event => {
+        if (event.type === 'chain') maxChain = Math.max(maxChain, event.link.chain)
+      })
+      state = result.state
+      replay = recordInput(replay, piece * PIECE_INTERVAL, action)
+    }
+  }
+  return { replay: finishReplay(replay, replay.duration), score: state.score, maxChain }
+}
+
+// 入力の順番はそのままで、時刻だけを詰める
+const squeeze = (replay: Replay, interval: number): Replay => ({
+  ...replay,
+  duration: replay.inputs.length * interval,
+  inputs: replay.inputs.map(([, action], index) => [index * interval, action])
+})
+
+const submit = ({ replay, score, maxChain }: { replay: Replay, score: number, maxChain: number }) => {
+  const submission: ScoreSubmission = { name: 'test', score, maxChain, replay: serializeReplay(replay) }
+  return verifySubmission(submission, 'id', 'date')
+}
+
+describe('score submissions', () => {
+  it('accepts a replay played at a human pace', () => {
+    const game = playUntilTopOut(['left', 'rotateRight'])
+    const record = submit(game)
+    expect(record.score).toBe(game.score)
+    expect(record.time).toBe(game.replay.duration)
+  })
+
+  it('rejects a log squeezed into a few milliseconds', () => {
+    const game = playUntilTopOut(['left', 'rotateRight'])
+    expect(() => submit({ ...game, replay: squeeze(game.replay, 0) })).toThrow('速すぎます')
+  })
+
+  it('rejects pairs placed faster than the minimum time per pair', () => {
+    // 入力のペースは足りていても、組ぷよ1つに3入力では置くペースが速すぎる
+    const game = playUntilTopOut(['left', 'rotateRight'])
+    expect(() => submit({ ...game, replay: squeeze(game.replay, 25) })).toThrow('組ぷよを置くペース')
+  })
+
+  it('rejects inputs faster than the minimum time per input', () => {
+    // 組ぷよは十分な間隔で置いていても、1つのあいだに入力を詰め込みすぎている
+    expect(() => submit(playUntilTopOut(Array(40).fill('rotateRight')))).toThrow('入力のペース')
+  })
+})
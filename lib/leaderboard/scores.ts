@@ -0,0 +1,189 @@
+// ランキングの登録データと集計（API ルートとランキング画面で共有する）
+// 登録にはシードと入力ログ（リプレイ）を添え、サーバーがエンジンで再シミュレーションしてスコアを確かめる
+
+import { Replay, parseReplay } from '../puyo/replay'
+import { SCORING_LABELS, SCORING_RULES, ScoringRule } from '../puyo/scoring'
+import { DEFAULT_GAME_MODE, GAME_MODES, GAME_MODE_IDS, GameModeId, formatModeRecord, isRecordable, simulateMode } from '../puyo/modes'
+import { DEFAULT_RULESET, Ruleset, decodeRuleset, describeRuleset, encodeRuleset } from '../puyo/ruleset'
+
+// Types
+export interface ScoreEntry {
+  id: string
+  name: string
+  mode: string      // ゲームモード・得点ルール・盤面ルール（scoreMode を参照）
+  score: number
+  maxChain: number
+  time: number      // 終わるまでのミリ秒（スプリントはこれで比べる）
+  date: string
+}
+
+// ストアに保存する1件。リプレイも残しておく
+export interface ScoreRecord extends ScoreEntry {
+  replay: Replay
+}
+
+// クライアントから送る登録内容。score と maxChain はサーバーの再計算と一致しなければならない
+export interface ScoreSubmission {
+  name: string
+  score: number
+  maxChain: number
+  replay: string // serializeReplay した JSON
+}
+
+export type ScoreView = 'top' | 'best' // 上位 N 件 / プレイヤーごとの自己ベスト
+
+export interface ScoreQuery {
+  mode?: string
+  name?: string
+  view?: ScoreView
+  limit?: number
+}
+
+// API の応答
+export interface ScoreList {
+  scores: ScoreEntry[]
+  modes: string[] // 登録のあるモード
+}
+
+export interface SubmitResult {
+  entry: ScoreEntry
+  rank: number // そのモードでの順位
+}
+
+// Constants
+export const SCORES_API_PATH = '/api/scores'
+export const PLAYER_NAME_KEY = 'puyoPuyoPlayerName'
+export const MAX_NAME_LENGTH = 16
+export const DEFAULT_SCORE_LIMIT = 20
+export const MAX_SCORE_LIMIT = 100
+export const MAX_REPLAY_LENGTH = 5_000_000 // 登録できるリプレイ JSON の最大文字数
+export const SCORE_VIEWS: ScoreView[] = ['top', 'best']
+// 入力1つあたりの最短の時間（平均）。左右リピートの間隔 0 では同時刻の入力が続くので、1つずつではなく累計で比べる
+export const MIN_INPUT_MS = 20
+
+// 同じ条件で遊んだスコアだけを比べる
+export const scoreMode = (replay: Pick<Replay, 'mode' | 'scoring' | 'rules'>): string => (
+  `${replay.mode}-${replay.scoring}-${encodeRuleset(replay.rules)}`
+)
+
+// モードができる前の登録は「得点ルール-色数」なのでエンドレスとして扱う
+// ルールが選べるようになる前の登録は末尾が色数だけなので、その色数の標準ルールとして扱う
+const parseScoreMode = (mode: string): { gameMode: GameModeId, rule: string, rules: Ruleset | null } => {
+  const parts = mode.split('-')
+  const [gameMode, rule, ruleset] = parts.length === 2 ? [DEFAULT_GAME_MODE, ...parts] : parts
+  const rules = /^\d+$/.test(ruleset ?? '') ? { ...DEFAULT_RULESET, colorCount: Number(ruleset) } : decodeRuleset(ruleset ?? '')
+  return { gameMode: GAME_MODE_IDS.includes(gameMode as GameModeId) ? gameMode as GameModeId : DEFAULT_GAME_MODE, rule, rules }
+}
+
+export const describeScoreMode = (mode: string): string => {
+  const { gameMode, rule, rules } = parseScoreMode(mode)
+  const label = SCORING_RULES.includes(rule as ScoringRule) ? SCORING_LABELS[rule as ScoringRule] : rule
+  return `${GAME_MODES[gameMode].label} ${label} ${rules ? describeRuleset(rules) : '不明なルール'}`
+}
+
+// ランキングに出す記録（スプリントはタイム、それ以外はスコア）
+export const formatScoreRecord = (entry: ScoreEntry): string => {
+  const mode = GAME_MODES[parseScoreMode(entry.mode).gameMode]
+  return formatModeRecord(mode, mode.record === 'time' ? entry.time : entry.score)
+}
+
+export const normalizeName = (name: string): string => name.trim().slice(0, MAX_NAME_LENGTH)
+
+// リプレイをモードのルールで最後まで再生し、スコア・最大連鎖・タイムを求める
+// 組ぷよを置くペースは simulateMode が、入力のペースはここで確かめる
+export const verifyReplay = (replay: Replay): { score: number, maxChain: number, time: number } => {
+  if (replay.inputs.some(([t], index) => t < index * MIN_INPUT_MS)) throw new Error('入力のペースが速すぎます')
+  const result = simulateMode(replay)
+  if (!isRecordable(GAME_MODES[replay.mode], result.end)) throw new Error('目標を達成していないので記録できません')
+  return { score: result.state.score, maxChain: result.maxChain, time: result.time }
+}
+
+// 登録内容を検証して保存用の1件にする。不正な登録は Error を投げる
+export const verifySubmission = (data: unknown, id: string, date: string): ScoreRecord => {
+  const submission = data as Partial<ScoreSubmission>
+  if (
+    typeof submission !== 'object' || submission === null ||
+    typeof submission.name !== 'string' ||
+    typeof submission.score !== 'number' ||
+    typeof submission.maxChain !== 'number' ||
+    typeof submission.replay !== 'string'
+  ) {
+    throw new Error('登録内容が壊れています')
+  }
+
+  const name = normalizeName(submission.name)
+  if (!name) throw new Error('名前を入力してください')
+  if (submission.replay.length > MAX_REPLAY_LENGTH) throw new Error('リプレイが大きすぎます')
+
+  const replay = parseReplay(submission.replay)
+  const { score, maxChain, time } = verifyReplay(replay)
+  if (score !== submission.score || maxChain !== submission.maxChain) {
+    throw new Error('リプレイを再生した結果とスコアが一致しません')
+  }
+
+  return { id, name, mode: scoreMode(replay), score, maxChain, time, date, replay }
+}
+
+// タイムがない古い登録はリプレイの長さを使う
+export const toScoreEntry = ({ id, name, mode, score, maxChain, time, date, replay }: ScoreRecord): ScoreEntry => (
+  { id, name, mode, score, maxChain, time: time ?? replay.duration, date }
+)
+
+// スコアの高い順（スプリントはタイムの短い順）。同点なら先に出した方を上にする
+export const compareScores = (a: ScoreEntry, b: ScoreEntry): number => {
+  const byTime = [a, b].every(entry => GAME_MODES[parseScoreMode(entry.mode).gameMode].record === 'time')
+  return (byTime ? a.time - b.time : b.score - a.score) || b.maxChain - a.maxChain || a.date.localeCompare(b.date)
+}
+
+export const rankScores = (entries: ScoreEntry[], { mode, name, view = 'top', limit = DEFAULT_SCORE_LIMIT }: ScoreQuery): ScoreEntry[] => {
+  const sorted = entries
+    .filter(entry => (!mode || entry.mode === mode) && (!name || entry.name === name))
+    .sort(compareScores)
+
+  // 自己ベストはプレイヤーとモードごとに最高スコアの1件だけ残す
+  const seen = new Set<string>()
+  const ranked = view === 'best'
+    ? sorted.filter(entry => {
+      const key = `${entry.mode}/${entry.name}`
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+    : sorted
+
+  return ranked.slice(0, Math.min(Math.max(limit, 1), MAX_SCORE_LIMIT))
+}
+
+export const fetchScores = async (query: ScoreQuery): Promise<ScoreList> => {
+  const params = new URLSearchParams()
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value))
+  })
+  const response = await fetch(`${SCORES_API_PATH}?${params}`)
+  if (!response.ok) throw new Error('ランキングを読み込めません')
+  return response.json()
+}
+
+// 登録に失敗した場合はサーバーの理由を Error で投げる
+export const submitScore = async (submission: ScoreSubmission): Promise<SubmitResult> => {
+  const response = await fetch(SCORES_API_PATH, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(submission)
+  })
+  const result = await response.json().catch(() => ({ error: 'ランキングに登録できません' }))
+  if (!response.ok) throw new Error(result.error ?? 'ランキングに登録できません')
+  return result
+}
+
+export const loadPlayerName = (): string => {
+  try {
+    return localStorage.getItem(PLAYER_NAME_KEY) ?? ''
+  } catch {
+    return ''
+  }
+}
+
+export const savePlayerName = (name: string) => {
+  localStorage.setItem(PLAYER_NAME_KEY, name)
+}
@@ -0,0 +1,43 @@
+// ランキングの保存先（サーバー専用）
+// JSON ファイル1つに全件を持つ。書き込みは順番に行い、途中で落ちても壊れないよう一時ファイルから置き換える
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { ScoreRecord } from './scores'
+
+export const DEFAULT_SCORES_FILE = path.join(process.cwd(), 'data', 'scores.json')
+
+export const createScoreStore = (file: string = DEFAULT_SCORES_FILE) => {
+  let records: ScoreRecord[] | null = null
+  let writing: Promise<void> = Promise.resolve()
+
+  const load = async (): Promise<ScoreRecord[]> => {
+    if (records) return records
+    try {
+      const stored = JSON.parse(await fs.readFile(file, 'utf8'))
+      records = Array.isArray(stored) ? stored : []
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+      records = []
+    }
+    return records
+  }
+
+  const list = async (): Promise<ScoreRecord[]> => [...await load()]
+
+  const add = (record: ScoreRecord): Promise<void> => {
+    const write = writing.then(async () => {
+      const next = [...await load(), record]
+      await fs.mkdir(path.dirname(file), { recursive: true })
+      await fs.writeFile(`${file}.tmp`, JSON.stringify(next))
+      await fs.rename(`${file}.tmp`, file)
+      records = next
+    })
+    writing = write.catch(() => {}) // 失敗しても後続の書き込みは続ける
+    return write
+  }
+
+  return { list, add }
+}
+
+export type ScoreStore = ReturnType<typeof createScoreStore>
@@ -0,0 +1,261 @@
+// オンライン対戦のクライアント（React にも DOM にも依存しない）
+// Node からは ws の WebSocket を渡せば、ヘッドレスで対戦させられる
+
+import { EngineState, createInitialState } from '../puyo/engine'
+import {
+  ClientMessage,
+  HASH_INTERVAL,
+  LobbySeat,
+  OnlineInput,
+  PROTOCOL_VERSION,
+  ServerMessage,
+  applyOnlineInput,
+  decodeMessage,
+  encodeMessage,
+  hashState
+} from './protocol'
+
+// Types
+export type OnlineStatus = 'connecting' | 'lobby' | 'playing' | 'result' | 'disconnected' | 'closed'
+
+export interface OnlineSnapshot {
+  status: OnlineStatus
+  player: number | null
+  seats: (LobbySeat | null)[]
+  wins: number[]
+  round: number
+  remote: EngineState | null
+  winner: number | null
+  desyncs: number
+  error: string | null
+}
+
+interface WebSocketLike {
+  readyState: number
+  send: (data: string) => void
+  close: () => void
+  onopen: ((event: unknown) => void) | null
+  onmessage: ((event: { data: unknown }) => void) | null
+  onclose: ((event: unknown) => void) | null
+}
+
+export interface OnlineClientOptions {
+  url: string
+  room: string
+  name: string
+  clientId: string
+  WebSocket?: new (url: string) => WebSocketLike
+  reconnectDelay?: number
+  onChange?: (snapshot: OnlineSnapshot) => void
+  onStart?: (state: EngineState) => void  // 自分の盤面をこの状態から始める（再接続時は途中から）
+  onGarbage?: (count: number) => void     // 相手の連鎖でおじゃまぷよが届いた
+}
+
+// Constants
+const OPEN = 1
+const MAX_RECONNECT_DELAY = 10000
+
+export const createOnlineClient = ({
+  url,
+  room,
+  name,
+  clientId,
+  WebSocket: Socket = globalThis.WebSocket as unknown as new (url: string) => WebSocketLike,
+  reconnectDelay = 1000,
+  onChange,
+  onStart,
+  onGarbage
+}: OnlineClientOptions) => {
+  let socket: WebSocketLike | null = null
+  let closed = false
+  let retryDelay = reconnectDelay
+  let retryTimer: ReturnType<typeof setTimeout> | null = null
+
+  let snapshot: OnlineSnapshot = {
+    status: 'connecting',
+    player: null,
+    seats: [null, null],
+    wins: [0, 0],
+    round: 0,
+    remote: null,
+    winner: null,
+    desyncs: 0,
+    error: null
+  }
+  let seed = 0
+  let local: EngineState | null = null
+  let log: OnlineInput[] = []
+  let remoteLength = 0
+  let garbageSent = 0     // 相手の盤面から計算した、相手が送ってきた総数
+  let garbageReceived = 0 // 自分の入力ログに記録済みの総数
+
+  const update = (changes: Partial<OnlineSnapshot>) => {
+    snapshot = { ...snapshot, ...changes }
+    onChange?.(snapshot)
+  }
+
+  const send = (message: ClientMessage) => {
+    if (socket && socket.readyState === OPEN) {
+      socket.send(encodeMessage(message))
+    }
+  }
+
+  const pushLocal = (input: OnlineInput) => {
+    if (!local) return
+    const seq = log.length
+    log.push(input)
+    local = applyOnlineInput(local, input).state
+    send({ type: 'input', seq, input })
+    if (seq % HASH_INTERVAL === HASH_INTERVAL - 1) {
+      send({ type: 'hash', seq, hash: hashState(local) })
+    }
+    if (local.status === 'over') {
+      send({ type: 'gameOver' })
+    }
+  }
+
+  // 相手の連鎖で増えたおじゃまぷよのうち、まだ受け取っていない分を自分に適用する
+  const settleGarbage = () => {
+    const owed = garbageSent - garbageReceived
+    if (owed <= 0 || !local || local.status !== 'active') return
+    garbageReceived += owed
+    pushLocal({ garbage: owed })
+    onGarbage?.(owed)
+  }
+
+  const applyRemote = (input: OnlineInput) => {
+    if (!snapshot.remote) return
+    const { state, events } = applyOnlineInput(snapshot.remote, input)
+    events.forEach(event => {
+      if (event.type === 'garbage') garbageSent += event.sent
+    })
+    remoteLength++
+    update({ remote: state })
+  }
+
+  const replayLog = (inputs: OnlineInput[], onGarbageSent?: (count: number) => void): EngineState => {
+    let state = createInitialState(seed)
+    inputs.forEach(input => {
+      const result = applyOnlineInput(state, input)
+      result.events.forEach(event => {
+        if (event.type === 'garbage') onGarbageSent?.(event.sent)
+      })
+      state = result.state
+    })
+    return state
+  }
+
+  const startRound = (newSeed: number, round: number) => {
+    seed = newSeed
+    log = []
+    remoteLength = 0
+    garbageSent = 0
+    garbageReceived = 0
+    local = createInitialState(seed)
+    update({ status: 'playing', round, remote: createInitialState(seed), winner: null })
+    onStart?.(local)
+  }
+
+  // 再接続: サーバーのログから両者の盤面を組み立て直し、届いていない自分の入力を送り直す
+  const resync = (newSeed: number, round: number, logs: OnlineInput[][]) => {
+    const player = snapshot.player ?? 0
+    const serverLog = logs[player] ?? []
+    const peerLog = logs[1 - player] ?? []
+    const isSameRound = round === snapshot.round && log.length >= serverLog.length
+
+    seed = newSeed
+    if (!isSameRound) {
+      log = [...serverLog]
+      local = replayLog(log)
+      onStart?.(local)
+    }
+    garbageReceived = log.reduce((sum, input) => sum + (typeof input === 'string' ? 0 : input.garbage), 0)
+    garbageSent = 0
+    const remote = replayLog(peerLog, count => { garbageSent += count })
+    remoteLength = peerLog.length
+    update({ status: 'playing', round, remote })
+
+    for (let seq = serverLog.length; seq < log.length; seq++) {
+      send({ type: 'input', seq, input: log[seq] })
+    }
+    settleGarbage()
+  }
+
+  const handleMessage = (message: ServerMessage) => {
+    switch (message.type) {
+      case 'joined':
+        retryDelay = reconnectDelay
+        update({ player: message.player, status: snapshot.status === 'playing' ? 'playing' : 'lobby', error: null })
+        break
+      case 'lobby':
+        update({ seats: message.seats, wins: message.wins })
+        break
+      case 'start':
+        startRound(message.seed, message.round)
+        break
+      case 'sync':
+        resync(message.seed, message.round, message.logs)
+        break
+      case 'peerInput':
+        if (message.seq !== remoteLength) return
+        applyRemote(message.input)
+        settleGarbage()
+        break
+      case 'peerHash':
+        if (snapshot.remote && message.seq === remoteLength - 1 && hashState(snapshot.remote) !== message.hash) {
+          update({ desyncs: snapshot.desyncs + 1 })
+          send({ type: 'resync' })
+        }
+        break
+      case 'resync':
+        if (local) send({ type: 'state', seq: log.length - 1, state: local })
+        break
+      case 'peerState':
+        if (message.seq === remoteLength - 1) update({ remote: message.state })
+        break
+      case 'result':
+        update({ status: 'result', winner: message.winner, wins: message.wins })
+        break
+      case 'error':
+        update({ error: message.message })
+        break
+    }
+  }
+
+  const connect = () => {
+    socket = new Socket(url)
+    socket.onopen = () => {
+      send({ type: 'join', version: PROTOCOL_VERSION, room, clientId, name })
+    }
+    socket.onmessage = event => {
+      const message = decodeMessage<ServerMessage>(String(event.data))
+      if (message) handleMessage(message)
+    }
+    socket.onclose = () => {
+      socket = null
+      if (closed) return
+      update({ status: 'disconnected' })
+      retryTimer = setTimeout(connect, retryDelay)
+      retryDelay = Math.min(retryDelay * 2, MAX_RECONNECT_DELAY)
+    }
+  }
+
+  connect()
+
+  return {
+    getSnapshot: () => snapshot,
+    getLocalState: () => local,
+    sendInput: (input: OnlineInput) => {
+      if (snapshot.status === 'playing' && local?.status === 'active') pushLocal(input)
+    },
+    ready: () => send({ type: 'ready' }),
+    close: () => {
+      closed = true
+      if (retryTimer) clearTimeout(retryTimer)
+      socket?.close()
+      update({ status: 'closed' })
+    }
+  }
+}
+
+export type OnlineClient = ReturnType<typeof createOnlineClient>
@@ -0,0 +1,154 @@
+import { AddressInfo } from 'net'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { WebSocket, WebSocketServer } from 'ws'
+import { ControlAction, EngineState, createInitialState } from '../puyo/engine'
+import { playGreedyUntil } from '../puyo/testing'
+import { createRoomServer } from './server'
+import { OnlineClient, OnlineClientOptions, createOnlineClient } from './client'
+import { ClientMessage, HASH_INTERVAL, WEBSOCKET_PATH, decodeMessage, encodeMessage, hashState } from './protocol'
+
+// Types
+// ws のイベントの型はブラウザの WebSocket に合わせた WebSocketLike より細かいので、コンストラクタごと読み替える
+type SocketClass = NonNullable<OnlineClientOptions['WebSocket']>
+
+// Constants
+const SEED = 12345
+const WAIT_TIMEOUT = 5000
+
+// Helper functions
+const waitFor = async (condition: () => boolean, timeout = WAIT_TIMEOUT) => {
+  const startedAt = Date.now()
+  while (!condition()) {
+    if (Date.now() - startedAt > timeout) throw new Error('timed out waiting for the condition')
+    await new Promise(resolve => setTimeout(resolve, 5))
+  }
+}
+
+// 送信するメッセージを書き換えられる WebSocket（盤面のずれをわざと起こすのに使う）
+const tamperingSocket = (rewrite: (message: ClientMessage) => ClientMessage) => class extends WebSocket {
+  send(data: string) {
+    const message = decodeMessage<ClientMessage>(data)
+    super.send(message ? encodeMessage(rewrite(message)) : data)
+  }
+}
+
+// 貪欲法で置き続け、相手におじゃまぷよを送るまでの操作を返す
+const actionsUntilGarbage = (initial: EngineState): ControlAction[] => (
+  playGreedyUntil(initial, events => events.some(event => event.type === 'garbage')).actions
+)
+
+describe('online match', () => {
+  let wss: WebSocketServer
+  let url: string
+  const serverSockets: WebSocket[] = []
+  const clients: OnlineClient[] = []
+
+  beforeEach(async () => {
+    const rooms = createRoomServer({ createSeed: () => SEED })
+    wss = new WebSocketServer({ port: 0, path: WEBSOCKET_PATH })
+    wss.on('connection', socket => {
+      serverSockets.push(socket)
+      const connection = rooms.connect({
+        send: data => socket.send(data),
+        close: () => socket.close()
+      })
+      socket.on('message', data => connection.message(data.toString()))
+      socket.on('close', () => connection.close())
+    })
+    await new Promise(resolve => wss.once('listening', resolve))
+    url = `ws://localhost:${(wss.address() as AddressInfo).port}${WEBSOCKET_PATH}`
+  })
+
+  afterEach(async () => {
+    clients.splice(0).forEach(client => client.close())
+    serverSockets.splice(0)
+    await new Promise(resolve => wss.close(resolve))
+  })
+
+  const join = (clientId: string, Socket: SocketClass = WebSocket as unknown as SocketClass) => {
+    const client = createOnlineClient({ url, room: 'test', name: clientId, clientId, WebSocket: Socket, reconnectDelay: 20 })
+    clients.push(client)
+    return client
+  }
+
+  // 2人が入室して準備完了し、対戦が始まるまで進める
+  const startMatch = async (Socket?: SocketClass) => {
+    const first = join('first', Socket)
+    await waitFor(() => first.getSnapshot().player === 0)
+    const second = join('second')
+    await waitFor(() => second.getSnapshot().player === 1)
+    first.ready()
+    second.ready()
+    await waitFor(() => first.getSnapshot().status === 'playing' && second.getSnapshot().status === 'playing')
+    return [first, second]
+  }
+
+  // 相手の画面に自分の盤面が届くまで待つ
+  const waitForRemote = (from: OnlineClient, to: OnlineClient) => waitFor(() => {
+    const remote = to.getSnapshot().remote
+    return remote !== null && hashState(remote) === hashState(from.getLocalState() as EngineState)
+  })
+
+  it('joins, readies up and starts both boards from the same seed', async () => {
+    const [first, second] = await startMatch()
+    expect(first.getSnapshot().seats.map(seat => seat?.name)).toEqual(['first', 'second'])
+    expect(first.getSnapshot().round).toBe(1)
+    expect(first.getLocalState()).toEqual(createInitialState(SEED))
+    expect(second.getSnapshot().remote).toEqual(createInitialState(SEED))
+  })
+
+  it('relays inputs so the opponent re-simulates the same board', async () => {
+    const [first, second] = await startMatch()
+    const inputs: ControlAction[] = ['left', 'rotateRight', 'hardDrop', 'right', 'right', 'hardDrop']
+    inputs.forEach(input => first.sendInput(input))
+    await waitForRemote(first, second)
+    expect(second.getSnapshot().remote).toEqual(first.getLocalState())
+    expect(second.getSnapshot().desyncs).toBe(0)
+  })
+
+  it('sends garbage from a chain to the opponent', async () => {
+    const [first, second] = await startMatch()
+    const actions = actionsUntilGarbage(first.getLocalState() as EngineState)
+    actions.forEach(action => first.sendInput(action))
+
+    // 相手は受け取ったおじゃまぷよを自分の入力ログに記録し、こちらの画面にも反映される
+    await waitFor(() => (second.getLocalState()?.pendingGarbage ?? 0) > 0)
+    await waitForRemote(second, first)
+    expect(first.getSnapshot().remote?.pendingGarbage).toBe(second.getLocalState()?.pendingGarbage)
+  })
+
+  it('resyncs the full state when the periodic hash does not match', async () => {
+    // 最初の入力だけ中継される内容を変え、相手の画面の盤面をずらす
+    let tampered = false
+    const Socket = tamperingSocket(message => {
+      if (message.type !== 'input' || tampered) return message
+      tampered = true
+      return { ...message, input: 'right' }
+    }) as unknown as SocketClass
+    const [first, second] = await startMatch(Socket)
+    first.sendInput('left')
+    for (let i = 1; i < HASH_INTERVAL; i++) first.sendInput(i % 2 === 0 ? 'rotateLeft' : 'rotateRight')
+
+    await waitFor(() => second.getSnapshot().desyncs > 0)
+    await waitForRemote(first, second)
+    expect(second.getSnapshot().desyncs).toBe(1)
+    expect(second.getSnapshot().remote).toEqual(first.getLocalState())
+  })
+
+  it('returns a dropped player to the same seat by clientId', async () => {
+    const [first, second] = await startMatch()
+    first.sendInput('left')
+
+    // サーバー側から切断し、その間に相手が進めた入力も再接続時に受け取る
+    serverSockets[1].close()
+    await waitFor(() => second.getSnapshot().status === 'disconnected')
+    first.sendInput('hardDrop')
+    await waitFor(() => second.getSnapshot().status === 'playing')
+
+    expect(second.getSnapshot().player).toBe(1)
+    await waitFor(() => first.getSnapshot().seats[1]?.connected === true)
+    await waitForRemote(first, second)
+    expect(second.getSnapshot().remote).toEqual(first.getLocalState())
+    expect(first.getSnapshot().status).toBe('playing')
+  })
+})
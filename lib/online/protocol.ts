@@ -0,0 +1,84 @@
+// オンライン対戦のプロトコル
+// 各クライアントは自分の盤面だけに責任を持ち、入力ログを相手に送る。
+// 相手側は同じシードと入力ログから盤面を再現するので、入力遅延があってもずれない。
+//
+// 固定の入力遅延（ロックステップ）は入れない。2つの盤面は互いの入力で動くわけではなく、
+// 影響し合うのはおじゃまぷよだけで、それも受け取った側が自分の入力ログに { garbage } として記録する。
+// そのため自分の操作はすぐに自分の盤面へ反映してよく、相手の盤面は届いた分だけ遅れて表示されるだけになる。
+// 万一ずれても HASH_INTERVAL ごとのハッシュで検出し、持ち主から状態を丸ごと送り直して直す（resync）。
+
+import { EngineAction, EngineState, StepResult, receiveGarbage, step } from '../puyo/engine'
+
+// Types
+// 自分が受け取ったおじゃまぷよも入力ログに含め、相手側で同じ順番に適用させる
+export type OnlineInput = EngineAction | { garbage: number }
+
+export type ClientMessage =
+  | { type: 'join', version: number, room: string, clientId: string, name: string }
+  | { type: 'ready' }
+  | { type: 'input', seq: number, input: OnlineInput }
+  | { type: 'hash', seq: number, hash: number }
+  | { type: 'resync' }
+  | { type: 'state', seq: number, state: EngineState }
+  | { type: 'gameOver' }
+
+export interface LobbySeat {
+  name: string
+  connected: boolean
+  ready: boolean
+}
+
+export type ServerMessage =
+  | { type: 'joined', player: number }
+  | { type: 'lobby', seats: (LobbySeat | null)[], wins: number[] }
+  | { type: 'start', seed: number, round: number }
+  | { type: 'sync', seed: number, round: number, logs: OnlineInput[][] } // 再接続時に両者のログを送り直す
+  | { type: 'peerInput', seq: number, input: OnlineInput }
+  | { type: 'peerHash', seq: number, hash: number }
+  | { type: 'resync' }
+  | { type: 'peerState', seq: number, state: EngineState }
+  | { type: 'result', winner: number, wins: number[] }
+  | { type: 'error', message: string }
+
+// Constants
+export const PROTOCOL_VERSION = 1
+export const HASH_INTERVAL = 16       // この入力数ごとに状態ハッシュを送る
+export const RECONNECT_GRACE_MS = 30000 // 切断後に席を確保しておく時間
+export const WEBSOCKET_PATH = '/ws'
+
+export const encodeMessage = (message: ClientMessage | ServerMessage): string => JSON.stringify(message)
+
+// 受信データを解釈する。壊れたメッセージは null
+export const decodeMessage = <T extends ClientMessage | ServerMessage>(raw: string): T | null => {
+  try {
+    const message = JSON.parse(raw)
+    return typeof message === 'object' && message !== null && typeof message.type === 'string' ? message as T : null
+  } catch {
+    return null
+  }
+}
+
+export const applyOnlineInput = (state: EngineState, input: OnlineInput): StepResult => (
+  typeof input === 'string'
+    ? step(state, input)
+    : { state: receiveGarbage(state, input.garbage), events: [] }
+)
+
+// 盤面のずれを検出するための FNV-1a ハッシュ
+export const hashState = (state: EngineState): number => {
+  const text = JSON.stringify([
+    state.grid,
+    state.current,
+    state.held,
+    state.score,
+    state.pendingGarbage,
+    state.status,
+    state.sequence.drawn
+  ])
+  let hash = 0x811C9DC5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
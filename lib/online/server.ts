@@ -0,0 +1,221 @@
+// 対戦ルームの管理（WebSocket の実装には依存しない）
+// 入力ログの中継・再接続時のログ再送・勝敗の記録だけを行い、盤面の計算はクライアントに任せる
+
+import { randomSeed } from '../puyo/sequence'
+import {
+  ClientMessage,
+  LobbySeat,
+  OnlineInput,
+  PROTOCOL_VERSION,
+  RECONNECT_GRACE_MS,
+  ServerMessage,
+  decodeMessage,
+  encodeMessage
+} from './protocol'
+
+// Types
+export interface RoomSocket {
+  send: (data: string) => void
+  close: () => void
+}
+
+interface Seat {
+  clientId: string
+  name: string
+  socket: RoomSocket | null
+  ready: boolean
+  log: OnlineInput[]
+  dropTimer: ReturnType<typeof setTimeout> | null
+}
+
+interface Room {
+  id: string
+  seats: (Seat | null)[]
+  seed: number
+  round: number
+  playing: boolean
+  wins: number[]
+}
+
+interface RoomServerOptions {
+  graceMs?: number
+  createSeed?: () => number
+}
+
+// Constants
+const MAX_ROOM_ID_LENGTH = 32
+const MAX_NAME_LENGTH = 16
+
+export const createRoomServer = ({ graceMs = RECONNECT_GRACE_MS, createSeed = randomSeed }: RoomServerOptions = {}) => {
+  const rooms: Map<string, Room> = new Map()
+  const connections: Map<RoomSocket, { room: Room, player: number }> = new Map()
+
+  const sendTo = (socket: RoomSocket | null | undefined, message: ServerMessage) => {
+    socket?.send(encodeMessage(message))
+  }
+
+  const toLobbySeat = (seat: Seat | null): LobbySeat | null => (
+    seat && { name: seat.name, connected: seat.socket !== null, ready: seat.ready }
+  )
+
+  const broadcastLobby = (room: Room) => {
+    const message: ServerMessage = { type: 'lobby', seats: room.seats.map(toLobbySeat), wins: room.wins }
+    room.seats.forEach(seat => sendTo(seat?.socket, message))
+  }
+
+  const startRound = (room: Room) => {
+    room.seed = createSeed()
+    room.round++
+    room.playing = true
+    room.seats.forEach(seat => {
+      if (!seat) return
+      seat.ready = false
+      seat.log = []
+      sendTo(seat.socket, { type: 'start', seed: room.seed, round: room.round })
+    })
+    broadcastLobby(room)
+  }
+
+  const finishRound = (room: Room, winner: number) => {
+    room.playing = false
+    room.wins[winner]++
+    room.seats.forEach(seat => sendTo(seat?.socket, { type: 'result', winner, wins: room.wins }))
+    broadcastLobby(room)
+  }
+
+  const join = (socket: RoomSocket, message: Extract<ClientMessage, { type: 'join' }>) => {
+    if (message.version !== PROTOCOL_VERSION) {
+      sendTo(socket, { type: 'error', message: 'プロトコルのバージョンが違います' })
+      return
+    }
+    const roomId = String(message.room).slice(0, MAX_ROOM_ID_LENGTH)
+    if (!roomId) {
+      sendTo(socket, { type: 'error', message: 'ルーム名を入力してください' })
+      return
+    }
+
+    let room = rooms.get(roomId)
+    if (!room) {
+      room = { id: roomId, seats: [null, null], seed: 0, round: 0, playing: false, wins: [0, 0] }
+      rooms.set(roomId, room)
+    }
+
+    // 同じ clientId なら再接続として元の席に戻す
+    let player = room.seats.findIndex(seat => seat?.clientId === message.clientId)
+    if (player === -1) {
+      player = room.seats.findIndex(seat => seat === null)
+      if (player === -1) {
+        sendTo(socket, { type: 'error', message: 'ルームが満員です' })
+        return
+      }
+      room.seats[player] = {
+        clientId: message.clientId,
+        name: String(message.name).slice(0, MAX_NAME_LENGTH) || `${player + 1}P`,
+        socket: null,
+        ready: false,
+        log: [],
+        dropTimer: null
+      }
+    }
+
+    const seat = room.seats[player] as Seat
+    if (seat.dropTimer) clearTimeout(seat.dropTimer)
+    seat.dropTimer = null
+    if (seat.socket && seat.socket !== socket) {
+      connections.delete(seat.socket)
+      seat.socket.close()
+    }
+    seat.socket = socket
+    connections.set(socket, { room, player })
+
+    sendTo(socket, { type: 'joined', player })
+    if (room.playing) {
+      sendTo(socket, {
+        type: 'sync',
+        seed: room.seed,
+        round: room.round,
+        logs: room.seats.map(other => other?.log ?? [])
+      })
+    }
+    broadcastLobby(room)
+  }
+
+  const handleMessage = (socket: RoomSocket, raw: string) => {
+    const message = decodeMessage<ClientMessage>(raw)
+    if (!message) return
+    if (message.type === 'join') {
+      join(socket, message)
+      return
+    }
+
+    const connection = connections.get(socket)
+    if (!connection) return
+    const { room, player } = connection
+    const seat = room.seats[player] as Seat
+    const peer = room.seats[1 - player]
+
+    switch (message.type) {
+      case 'ready':
+        seat.ready = true
+        if (!room.playing && room.seats.every(other => other?.ready)) {
+          startRound(room)
+        } else {
+          broadcastLobby(room)
+        }
+        break
+      case 'input':
+        // 再接続時の再送で重複した入力は捨てる
+        if (!room.playing || message.seq !== seat.log.length) return
+        seat.log.push(message.input)
+        sendTo(peer?.socket, { type: 'peerInput', seq: message.seq, input: message.input })
+        break
+      case 'hash':
+        sendTo(peer?.socket, { type: 'peerHash', seq: message.seq, hash: message.hash })
+        break
+      case 'resync':
+        sendTo(peer?.socket, { type: 'resync' })
+        break
+      case 'state':
+        sendTo(peer?.socket, { type: 'peerState', seq: message.seq, state: message.state })
+        break
+      case 'gameOver':
+        if (room.playing) finishRound(room, 1 - player)
+        break
+    }
+  }
+
+  const handleClose = (socket: RoomSocket) => {
+    const connection = connections.get(socket)
+    if (!connection) return
+    connections.delete(socket)
+
+    const { room, player } = connection
+    const seat = room.seats[player] as Seat
+    seat.socket = null
+    seat.ready = false
+
+    // 猶予時間内に戻ってこなければ席を空け、対戦中なら相手の勝ちにする
+    seat.dropTimer = setTimeout(() => {
+      room.seats[player] = null
+      if (room.playing) {
+        finishRound(room, 1 - player)
+      }
+      if (room.seats.every(other => other === null)) {
+        rooms.delete(room.id)
+      } else {
+        broadcastLobby(room)
+      }
+    }, graceMs)
+    broadcastLobby(room)
+  }
+
+  return {
+    rooms,
+    connect: (socket: RoomSocket) => ({
+      message: (raw: string) => handleMessage(socket, raw),
+      close: () => handleClose(socket)
+    })
+  }
+}
+
+export type RoomServer = ReturnType<typeof createRoomServer>
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { ControlAction, EngineState, SPAWN_X, SPAWN_Y, createEmptyGrid, createInitialState, step } from './engine'
+import { listPlacements, planActions } from './ai'
+
+// Helper functions
+const withColumn = (x: number, fromY: number): EngineState => {
+  const grid = createEmptyGrid()
+  for (let y = fromY; y < grid.length; y++) grid[y][x] = 'garbage'
+  return { ...createInitialState(1), grid }
+}
+
+// 最後の hardDrop の直前まで進めたときのツモ
+const pairBeforeDrop = (state: EngineState, actions: ControlAction[]) => (
+  actions.slice(0, -1).reduce((current, action) => step(current, action).state, state).current
+)
+
+describe('planActions', () => {
+  it('reaches every placement listed on an empty board', () => {
+    const state = createInitialState(1)
+    const placements = listPlacements(state.grid, state.current!)
+    expect(placements).toHaveLength(22)
+    placements.forEach(placement => {
+      const actions = planActions(state, placement)
+      expect(actions?.at(-1)).toBe('hardDrop')
+      expect(pairBeforeDrop(state, actions!)).toMatchObject(placement)
+    })
+  })
+
+  it('follows the x shift of a wall kick', () => {
+    // 右隣の列がふさがっているので、右回転すると左に1マス蹴られる
+    const state = withColumn(SPAWN_X + 1, SPAWN_Y)
+    expect(planActions(state, { x: SPAWN_X - 1, rotation: 1 })).toEqual(['rotateRight', 'hardDrop'])
+  })
+
+  it('plans from where the pair has fallen to', () => {
+    const state = withColumn(SPAWN_X - 1, 6)
+    const fallen = { ...state, current: { ...state.current!, y: 8 } }
+    expect(listPlacements(state.grid, state.current!).some(({ x }) => x === 0)).toBe(true)
+    expect(listPlacements(fallen.grid, fallen.current!, fallen.current!).some(({ x }) => x === 0)).toBe(false)
+    expect(planActions(state, { x: 0, rotation: 0 })).toEqual(['left', 'left', 'hardDrop'])
+    expect(planActions(fallen, { x: 0, rotation: 0 })).toBeNull()
+  })
+})
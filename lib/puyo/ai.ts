@@ -0,0 +1,227 @@
+// CPU 対戦相手の思考ルーチン
+// 配置候補をビームサーチで探索し、連鎖の伸びしろで盤面を評価する
+
+import {
+  ControlAction,
+  EngineState,
+  GRID_COLS,
+  GRID_ROWS,
+  Grid,
+  HIDDEN_ROWS,
+  DEATH_X,
+  PuyoColor,
+  PuyoPair,
+  SPAWN_X,
+  SPAWN_Y,
+  applyGravity,
+  findConnectedPuyos,
+  getDropPosition,
+  isGameOver,
+  isValidMove,
+  placePair,
+  resolveChain,
+  step
+} from './engine'
+import type { PairColors } from './sequence'
+
+// Types
+export type Difficulty = 'easy' | 'normal' | 'hard'
+
+export interface DifficultySettings {
+  depth: number        // 探索する手数（現在のツモ＋ネクスト）
+  beamWidth: number    // 各段で残す候補数
+  thinkDelay: number   // 新しいツモが来てから動き出すまで（ミリ秒）
+  inputDelay: number   // 1操作ごとの間隔（ミリ秒）
+  mistakeRate: number  // わざと適当な位置に置く確率
+  fireChain: number    // この連鎖数以上なら発火する
+}
+
+export interface Placement {
+  x: number
+  rotation: number
+}
+
+export interface Position {
+  x: number
+  y: number
+}
+
+export interface AiInput {
+  grid: Grid
+  pairs: PairColors[]   // 現在のツモから順に
+  pendingGarbage: number
+  from?: Position       // 現在のツモの位置（省略時は出現位置）
+}
+
+interface SearchNode {
+  grid: Grid
+  first: Placement | null
+  fired: number // これまでに打った連鎖の評価
+  value: number
+}
+
+// Constants
+export const DIFFICULTIES: Record<Difficulty, DifficultySettings> = {
+  easy: { depth: 1, beamWidth: 4, thinkDelay: 600, inputDelay: 250, mistakeRate: 0.25, fireChain: 2 },
+  normal: { depth: 2, beamWidth: 8, thinkDelay: 300, inputDelay: 120, mistakeRate: 0.08, fireChain: 4 },
+  hard: { depth: 3, beamWidth: 12, thinkDelay: 100, inputDelay: 50, mistakeRate: 0, fireChain: 6 }
+}
+const DEAD_VALUE = -1e9
+const DANGER_HEIGHT = 9 // 窒息列がこの高さを超えたら早めに発火する
+const MAX_PLAN_STEPS = 32 // 壁蹴りで回転と移動が行き来しても操作列の組み立てを必ず止める
+const SPAWN_POSITION: Position = { x: SPAWN_X, y: SPAWN_Y }
+
+// Helper functions
+export const columnHeight = (grid: Grid, x: number): number => {
+  const top = grid.findIndex(row => row[x] !== null)
+  return top === -1 ? 0 : GRID_ROWS - top
+}
+
+// ツモの位置から、その高さのまま壁や積みぷよにぶつからずに届く配置
+// 操作中もぷよは落ち続けるので、CPU は今いる位置を from に渡す
+export const listPlacements = (grid: Grid, colors: PairColors, from: Position = SPAWN_POSITION): Placement[] => {
+  const placements: Placement[] = []
+  for (let rotation = 0; rotation < 4; rotation++) {
+    const start: PuyoPair = { ...colors, x: from.x, y: from.y, rotation }
+    if (!isValidMove(grid, start)) continue
+
+    placements.push({ x: from.x, rotation })
+    for (const direction of [-1, 1]) {
+      for (let x = from.x + direction; x >= 0 && x < GRID_COLS; x += direction) {
+        if (!isValidMove(grid, { ...start, x })) break
+        placements.push({ x, rotation })
+      }
+    }
+  }
+  return placements
+}
+
+export const simulatePlacement = (grid: Grid, colors: PairColors, { x, rotation }: Placement) => {
+  const landed = getDropPosition(grid, { ...colors, x, y: SPAWN_Y, rotation })
+  const resolved = resolveChain(applyGravity(placePair(grid, landed)))
+  return {
+    grid: resolved.grid,
+    chain: resolved.links.length,
+    points: resolved.links.reduce((sum, link) => sum + link.points, 0),
+    dead: isGameOver(resolved.grid)
+  }
+}
+
+// どこかに同じ色を2個置いたときに起きる連鎖の最大数
+export const chainPotential = (grid: Grid): number => {
+  const colors = new Set<PuyoColor>()
+  grid.forEach(row => row.forEach(color => { if (color && color !== 'garbage') colors.add(color) }))
+
+  let best = 0
+  colors.forEach(color => {
+    for (let x = 0; x < GRID_COLS; x++) {
+      if (columnHeight(grid, x) >= GRID_ROWS - HIDDEN_ROWS - 1) continue
+      const { chain } = simulatePlacement(grid, { color1: color, color2: color }, { x, rotation: 0 })
+      best = Math.max(best, chain)
+    }
+  })
+  return best
+}
+
+// 盤面の評価値（大きいほど良い）
+export const evaluateField = (grid: Grid): number => {
+  let value = 0
+
+  // つながり
+  const seen: Set<string> = new Set()
+  for (let y = HIDDEN_ROWS; y < GRID_ROWS; y++) {
+    for (let x = 0; x < GRID_COLS; x++) {
+      const color = grid[y][x]
+      if (!color || color === 'garbage' || seen.has(`${x},${y}`)) continue
+      const connected = findConnectedPuyos(grid, x, y, color)
+      connected.forEach(key => seen.add(key))
+      value += connected.size === 2 ? 2 : connected.size === 3 ? 6 : 0
+    }
+  }
+
+  // 連鎖の伸びしろ
+  const potential = chainPotential(grid)
+  value += potential * potential * 12
+
+  // 高さと凸凹
+  const heights = Array.from({ length: GRID_COLS }, (_, x) => columnHeight(grid, x))
+  value -= heights.reduce((sum, height) => sum + height, 0) * 0.5
+  for (let x = 1; x < GRID_COLS; x++) {
+    value -= Math.abs(heights[x] - heights[x - 1]) * 1.5
+  }
+  if (heights[DEATH_X] > DANGER_HEIGHT) {
+    value -= (heights[DEATH_X] - DANGER_HEIGHT) * 40
+  }
+
+  return value
+}
+
+// 連鎖を打ったときの評価。発火条件を満たさない小連鎖は種の無駄遣いとして減点する
+const evaluateFire = (chain: number, points: number, grid: Grid, input: AiInput, settings: DifficultySettings): number | null => {
+  if (chain === 0) return null
+  const danger = columnHeight(grid, DEATH_X) > DANGER_HEIGHT
+  if (chain >= settings.fireChain || danger || input.pendingGarbage > 0) {
+    return 1000 * chain + points
+  }
+  return -30 * chain
+}
+
+// 次に置く位置を決める。置ける場所がなければ null
+export const decide = (input: AiInput, settings: DifficultySettings, random: () => number = Math.random): Placement | null => {
+  const depth = Math.min(settings.depth, input.pairs.length)
+  let beam: SearchNode[] = [{ grid: input.grid, first: null, fired: -Infinity, value: 0 }]
+
+  for (let level = 0; level < depth; level++) {
+    const children: SearchNode[] = []
+    for (const node of beam) {
+      const from = level === 0 ? input.from : undefined
+      for (const placement of listPlacements(node.grid, input.pairs[level], from)) {
+        const result = simulatePlacement(node.grid, input.pairs[level], placement)
+        const first = node.first ?? placement
+        if (result.dead) {
+          children.push({ grid: result.grid, first, fired: node.fired, value: DEAD_VALUE })
+          continue
+        }
+        const fire = evaluateFire(result.chain, result.points, node.grid, input, settings)
+        const fired = fire !== null && fire > 0 ? Math.max(node.fired, fire) : node.fired
+        const value = Math.max(fired, evaluateField(result.grid) + (fire ?? 0))
+        children.push({ grid: result.grid, first, fired, value })
+      }
+    }
+    if (children.length === 0) break
+
+    if (level === 0 && random() < settings.mistakeRate) {
+      return children[Math.floor(random() * children.length)].first
+    }
+    children.sort((a, b) => b.value - a.value)
+    beam = children.slice(0, settings.beamWidth)
+  }
+
+  return beam[0]?.first ?? null
+}
+
+// 今の状態から実際に step を進めて、配置までの人間と同じ操作列を組み立てる
+// 壁蹴りやクイックターンで横にずれた分もそのまま反映される。届かなければ null
+export const planActions = (state: EngineState, { x, rotation }: Placement): ControlAction[] | null => {
+  const actions: ControlAction[] = []
+  let planned = state
+  const tryAction = (action: ControlAction): boolean => {
+    const next = step(planned, action).state
+    if (next === planned) return false // 壁などで動けなかった
+    actions.push(action)
+    planned = next
+    return true
+  }
+
+  for (let i = 0; i < MAX_PLAN_STEPS && planned.current; i++) {
+    const current = planned.current
+    const turns = (rotation - current.rotation + 4) % 4
+    if (turns !== 0 && tryAction(turns === 3 ? 'rotateLeft' : 'rotateRight')) continue
+    if (current.x !== x && tryAction(current.x > x ? 'left' : 'right')) continue
+    break
+  }
+  if (planned.current?.x !== x || planned.current.rotation !== rotation) return null
+
+  actions.push('hardDrop')
+  return actions
+}
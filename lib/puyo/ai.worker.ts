@@ -0,0 +1,19 @@
+// CPU の思考をメインスレッドから切り離して実行する
+import { AiInput, DifficultySettings, Placement, decide } from './ai'
+
+export interface AiRequest {
+  id: number
+  input: AiInput
+  settings: DifficultySettings
+}
+
+export interface AiResponse {
+  id: number
+  placement: Placement | null
+}
+
+self.onmessage = (event: MessageEvent<AiRequest>) => {
+  const { id, input, settings } = event.data
+  const response: AiResponse = { id, placement: decide(input, settings) }
+  self.postMessage(response)
+}
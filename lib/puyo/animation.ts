@@ -0,0 +1,184 @@
+// 固定・連鎖・おじゃまぷよのアニメーション
+// エンジンが返したイベントから時間割を作り、任意の時刻の見た目を計算する（描画や待機はしない）
+
+import { Cell, ChainLink, EngineEvent, EngineState, Grid, PuyoColor, getDropPosition, placePair } from './engine'
+
+// Types
+export interface FallingCell {
+  x: number
+  fromY: number
+  toY: number
+  color: PuyoColor
+}
+
+export type AnimationPhase =
+  | { type: 'fall', start: number, duration: number, base: Grid, cells: FallingCell[] } // base は落ちるぷよを除いた盤面
+  | { type: 'pop', start: number, duration: number, grid: Grid, link: ChainLink }       // grid は消える直前の盤面
+
+export interface BoardAnimation {
+  phases: AnimationPhase[]
+  links: ChainLink[]
+  duration: number
+}
+
+// 描画側に渡す再生中のアニメーション。elapsed はゲームでは実時間、リプレイでは再生位置から求める
+export interface AnimationClock {
+  plan: BoardAnimation
+  elapsed: () => number
+}
+
+export interface ChainPopup {
+  chain: number
+  x: number         // 消えたぷよの中心（マス単位）
+  y: number
+  progress: number  // 0〜1
+}
+
+// ある時刻の盤面の見た目
+export interface AnimationFrame {
+  grid: Grid                                            // 止まっているぷよ
+  falling: { x: number, y: number, color: PuyoColor }[] // y は小数
+  popping: Cell[]
+  popProgress: number                                   // 0〜1
+  popups: ChainPopup[]
+  shake: number                                         // 揺れ幅（マス単位）
+  scored: number                                        // 得点が入った連鎖の段数
+}
+
+// Constants
+export const POP_MS = 250
+export const POPUP_MS = 800
+const GRAVITY = 0.00025   // マス / ミリ秒²（12段をおよそ0.3秒で落ちる）
+const SHAKE_CHAIN = 3     // この連鎖数から盤面を揺らす
+const SHAKE_MS = 400
+const SHAKE_PER_CHAIN = 0.05
+const MAX_SHAKE = 0.3
+
+// Helper functions
+const fallTime = (rows: number): number => Math.sqrt((2 * rows) / GRAVITY)
+
+const fallDuration = (cells: FallingCell[]): number => (
+  cells.reduce((longest, cell) => Math.max(longest, fallTime(cell.toY - cell.fromY)), 0)
+)
+
+// 列ごとに下から詰めたときに、どのぷよがどこへ落ちるか。詰めた結果が to と合わなければ null
+export const planFall = (from: Grid, to: Grid): { base: Grid, cells: FallingCell[] } | null => {
+  const base = to.map(row => [...row])
+  const cells: FallingCell[] = []
+  for (let x = 0; x < (from[0]?.length ?? 0); x++) {
+    const sources = from.map((row, y) => ({ y, color: row[x] })).filter(({ color }) => color !== null).reverse()
+    const targets = to.map((row, y) => ({ y, color: row[x] })).filter(({ color }) => color !== null).reverse()
+    if (sources.length !== targets.length) return null
+    for (let i = 0; i < sources.length; i++) {
+      if (sources[i].color !== targets[i].color) return null
+      if (sources[i].y === targets[i].y) continue
+      cells.push({ x, fromY: sources[i].y, toY: targets[i].y, color: targets[i].color })
+      base[targets[i].y][x] = null
+    }
+  }
+  return { base, cells }
+}
+
+// 新しく現れたおじゃまぷよは盤面の上から降らせる
+const planGarbageFall = (before: Grid, after: Grid): { base: Grid, cells: FallingCell[] } => {
+  const cells: FallingCell[] = []
+  after.forEach((row, y) => row.forEach((color, x) => {
+    if (color !== null && before[y][x] === null) cells.push({ x, fromY: y - after.length, toY: y, color })
+  }))
+  return { base: before, cells }
+}
+
+export const buildAnimation = (previous: EngineState, events: EngineEvent[]): BoardAnimation => {
+  const phases: AnimationPhase[] = []
+  const links: ChainLink[] = []
+  let time = 0
+  let grid = previous.grid
+
+  const addFall = (fall: { base: Grid, cells: FallingCell[] } | null) => {
+    if (!fall || fall.cells.length === 0) return
+    const duration = fallDuration(fall.cells)
+    phases.push({ type: 'fall', start: time, duration, ...fall })
+    time += duration
+  }
+
+  events.forEach(event => {
+    if (event.type === 'lock') {
+      // 着地した後にちぎれて落ちる分
+      const placed = previous.current ? placePair(previous.grid, getDropPosition(previous.grid, previous.current)) : grid
+      addFall(planFall(placed, event.grid))
+      grid = event.grid
+    }
+    if (event.type === 'chain') {
+      const { link } = event
+      phases.push({ type: 'pop', start: time, duration: POP_MS, grid, link })
+      time += POP_MS
+      links.push(link)
+      addFall(planFall(link.grid, link.settled))
+      grid = link.settled
+    }
+    if (event.type === 'garbageDrop') {
+      addFall(planGarbageFall(grid, event.grid))
+      grid = event.grid
+    }
+  })
+
+  return { phases, links, duration: time }
+}
+
+// time までに消え終わった連鎖の段数
+export const countScoredLinks = (animation: BoardAnimation, time: number): number => (
+  animation.phases.filter(phase => phase.type === 'pop' && time >= phase.start + phase.duration).length
+)
+
+export const sampleAnimation = (animation: BoardAnimation, time: number): AnimationFrame | null => {
+  const { phases } = animation
+  const phase = phases.find(({ start, duration }) => time < start + duration) ?? phases[phases.length - 1]
+  if (!phase) return null
+  const elapsed = Math.min(Math.max(time - phase.start, 0), phase.duration)
+
+  const frame: AnimationFrame = {
+    grid: phase.type === 'fall' ? phase.base : phase.grid,
+    falling: [],
+    popping: [],
+    popProgress: 0,
+    popups: [],
+    shake: 0,
+    scored: countScoredLinks(animation, time)
+  }
+
+  if (phase.type === 'fall') {
+    frame.falling = phase.cells.map(({ x, fromY, toY, color }) => ({
+      x,
+      y: Math.min(toY, fromY + 0.5 * GRAVITY * elapsed * elapsed),
+      color
+    }))
+  } else {
+    const popping = [...phase.link.cleared, ...phase.link.clearedGarbage]
+    const keys = new Set(popping.map(({ x, y }) => `${x},${y}`))
+    frame.grid = phase.grid.map((row, y) => row.map((color, x) => keys.has(`${x},${y}`) ? null : color))
+    frame.popping = popping
+    frame.popProgress = phase.duration > 0 ? elapsed / phase.duration : 1
+  }
+
+  phases.forEach(pop => {
+    if (pop.type !== 'pop') return
+    const since = time - pop.start
+    if (since >= 0 && since < POPUP_MS) {
+      const { cleared, chain } = pop.link
+      frame.popups.push({
+        chain,
+        x: cleared.reduce((sum, cell) => sum + cell.x, 0) / cleared.length,
+        y: cleared.reduce((sum, cell) => sum + cell.y, 0) / cleared.length,
+        progress: since / POPUP_MS
+      })
+    }
+    // 大連鎖は消えた直後に盤面を揺らす
+    const shaking = time - pop.start - pop.duration
+    if (pop.link.chain >= SHAKE_CHAIN && shaking >= 0 && shaking < SHAKE_MS) {
+      const amplitude = Math.min(MAX_SHAKE, (pop.link.chain - SHAKE_CHAIN + 1) * SHAKE_PER_CHAIN)
+      frame.shake = amplitude * (1 - shaking / SHAKE_MS) * Math.sin((shaking / SHAKE_MS) * Math.PI * 8)
+    }
+  })
+
+  return frame
+}
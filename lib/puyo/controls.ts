@@ -0,0 +1,112 @@
+// キー割り当て
+import type { ControlAction } from './engine'
+import type { SoundId } from '../audio'
+
+// Types
+export type Controls = Record<ControlAction, string[]>
+
+// Constants
+export const DEFAULT_CONTROLS: Controls = {
+  left: ['a', 'ArrowLeft', ''],
+  right: ['d', 'ArrowRight', ''],
+  down: ['s', 'ArrowDown', ''],
+  rotateLeft: ['o', '', ''],
+  rotateRight: ['p', '', ''],
+  hold: ['q', ' ', ''],
+  hardDrop: ['w', 'ArrowUp', ''] // 新しい高速落下の設定
+}
+
+export const CONTROL_ACTIONS = Object.keys(DEFAULT_CONTROLS) as ControlAction[]
+export const CONTROLS_KEY = 'puyoPuyoControls'
+export const RESERVED_KEYS = ['Escape'] // ポーズ用なので割り当てられない
+const KEY_LABELS: Record<string, string> = {
+  ' ': 'Space',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓'
+}
+
+// 2人対戦で1台のキーボードを分け合うときの割り当て
+export const SPLIT_KEYBOARD_CONTROLS: [Controls, Controls] = [
+  {
+    left: ['a', '', ''],
+    right: ['d', '', ''],
+    down: ['s', '', ''],
+    rotateLeft: ['c', '', ''],
+    rotateRight: ['v', '', ''],
+    hold: ['q', '', ''],
+    hardDrop: ['w', '', '']
+  },
+  {
+    left: ['ArrowLeft', '', ''],
+    right: ['ArrowRight', '', ''],
+    down: ['ArrowDown', '', ''],
+    rotateLeft: ['k', '', ''],
+    rotateRight: ['l', '', ''],
+    hold: ['j', '', ''],
+    hardDrop: ['ArrowUp', '', '']
+  }
+]
+
+// 操作ごとの効果音
+export const CONTROL_SOUNDS: Record<ControlAction, SoundId> = {
+  left: 'move',
+  right: 'move',
+  down: 'softDrop',
+  rotateLeft: 'rotate',
+  rotateRight: 'rotate',
+  hold: 'hold',
+  hardDrop: 'hardDrop'
+}
+
+export const findControlAction = (controls: Controls, key: string): ControlAction | undefined => (
+  Object.entries(controls).find(([, keys]) => keys.includes(key))?.[0] as ControlAction | undefined
+)
+
+export const formatKey = (key: string): string => KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key)
+
+// 押されたキーを割り当てる。ほかの枠に同じキーがあれば外す
+export const bindKey = (controls: Controls, action: ControlAction, index: number, key: string): Controls => {
+  const updated = {} as Controls
+  CONTROL_ACTIONS.forEach(name => {
+    updated[name] = controls[name].map(bound => bound === key ? '' : bound)
+  })
+  updated[action][index] = key
+  return updated
+}
+
+// 複数の操作に割り当てられているキー
+export const findConflicts = (controls: Controls): Set<string> => {
+  const seen: Map<string, ControlAction> = new Map()
+  const conflicts: Set<string> = new Set()
+  CONTROL_ACTIONS.forEach(action => {
+    controls[action].filter(Boolean).forEach(key => {
+      const owner = seen.get(key)
+      if (owner && owner !== action) conflicts.add(key)
+      seen.set(key, action)
+    })
+  })
+  return conflicts
+}
+
+// 保存されたキー割り当てを読み込む。壊れている操作は既定値に戻す
+export const loadControls = (): Controls => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CONTROLS_KEY) ?? '{}')
+    const controls = { ...DEFAULT_CONTROLS }
+    CONTROL_ACTIONS.forEach(action => {
+      const keys = stored[action]
+      if (Array.isArray(keys) && keys.length === DEFAULT_CONTROLS[action].length && keys.every(key => typeof key === 'string')) {
+        controls[action] = keys
+      }
+    })
+    return controls
+  } catch {
+    return { ...DEFAULT_CONTROLS }
+  }
+}
+
+export const saveControls = (controls: Controls) => {
+  localStorage.setItem(CONTROLS_KEY, JSON.stringify(controls))
+}
@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest'
+import {
+  EngineState,
+  Grid,
+  MAX_LOCK_RESETS,
+  PuyoColor,
+  applyGravity,
+  createEmptyGrid,
+  createInitialState,
+  findConnectedPuyos,
+  isGameOver,
+  resolveChain,
+  step
+} from './engine'
+import { DEFAULT_RULESET } from './ruleset'
+
+// Helper functions
+const CELLS: Record<string, PuyoColor> = { R: 'red', G: 'green', B: 'blue', Y: 'yellow', P: 'purple', O: 'garbage', '.': null }
+
+// 下詰めで盤面を作る。1文字が1マス（R/G/B/Y/P は色、O はおじゃま、. は空き）
+const gridOf = (...rows: string[]): Grid => {
+  const grid = createEmptyGrid()
+  const top = grid.length - rows.length
+  rows.forEach((row, i) => {
+    row.split('').forEach((cell, x) => { grid[top + i][x] = CELLS[cell] })
+  })
+  return grid
+}
+
+const stateWith = (grid: Grid): EngineState => ({ ...createInitialState(1), grid })
+
+const run = (state: EngineState, ...actions: Parameters<typeof step>[1][]): EngineState => (
+  actions.reduce((current, action) => step(current, action).state, state)
+)
+
+describe('resolveChain (tsu scoring)', () => {
+  it('scores a single group of four with the minimum multiplier', () => {
+    const { links } = resolveChain(gridOf('RRRR..'), 'tsu')
+    expect(links).toHaveLength(1)
+    expect(links[0].points).toBe(40)
+  })
+
+  it('counts each link of a chain and applies the chain power', () => {
+    const { grid, links } = resolveChain(gridOf(
+      'B.....',
+      'RBB...',
+      'RRRB..'
+    ), 'tsu')
+    expect(links.map(link => link.chain)).toEqual([1, 2])
+    expect(links.map(link => link.points)).toEqual([40, 4 * 10 * 8])
+    expect(grid).toEqual(createEmptyGrid())
+  })
+
+  it('adds the color and group bonuses', () => {
+    const twoColors = resolveChain(gridOf('....GG', 'RRRRGG'), 'tsu').links[0]
+    expect(twoColors.score.colorBonus).toBe(3)
+    expect(twoColors.points).toBe(80 * 3)
+    const fiveGroup = resolveChain(gridOf('R.....', 'RRRR..'), 'tsu').links[0]
+    expect(fiveGroup.score.groupBonus).toBe(2)
+    expect(fiveGroup.points).toBe(50 * 2)
+  })
+
+  it('clears garbage next to a popping group without counting it', () => {
+    const link = resolveChain(gridOf('RRRRO.'), 'tsu').links[0]
+    expect(link.clearedGarbage).toEqual([{ x: 4, y: 12, color: 'garbage' }])
+    expect(link.cleared).toHaveLength(4)
+  })
+})
+
+describe('applyGravity', () => {
+  it('drops floating puyos and keeps their order in each column', () => {
+    const grid = createEmptyGrid()
+    grid[3][0] = 'red'
+    grid[5][0] = 'blue'
+    grid[8][2] = 'green'
+    const settled = applyGravity(grid)
+    expect(settled[12][0]).toBe('blue')
+    expect(settled[11][0]).toBe('red')
+    expect(settled[12][2]).toBe('green')
+    expect(settled.flat().filter(Boolean)).toHaveLength(3)
+  })
+})
+
+describe('findConnectedPuyos', () => {
+  it('connects only orthogonal neighbours', () => {
+    const grid = gridOf(
+      '.R....',
+      'R.R...',
+      '.RR...'
+    )
+    expect(findConnectedPuyos(grid, 1, 12, 'red').size).toBe(3)
+    expect(findConnectedPuyos(grid, 0, 11, 'red').size).toBe(1)
+    expect(resolveChain(grid).links).toHaveLength(0)
+  })
+
+  it('ignores the hidden row', () => {
+    const grid = createEmptyGrid()
+    grid[0][0] = 'red'
+    grid[1][0] = 'red'
+    grid[2][0] = 'red'
+    grid[3][0] = 'red'
+    expect(findConnectedPuyos(grid, 0, 1, 'red').size).toBe(3)
+  })
+})
+
+describe('game over', () => {
+  it('is the top visible cell of the spawn column', () => {
+    const grid = createEmptyGrid()
+    expect(isGameOver(grid)).toBe(false)
+    grid[DEFAULT_RULESET.hiddenRows][DEFAULT_RULESET.spawnX] = 'garbage'
+    expect(isGameOver(grid)).toBe(true)
+  })
+
+  it('ends the game when a lock fills that cell', () => {
+    const grid = createEmptyGrid()
+    for (let y = DEFAULT_RULESET.hiddenRows + 2; y < grid.length; y++) grid[y][DEFAULT_RULESET.spawnX] = 'garbage'
+    const { state, events } = step(stateWith(grid), 'hardDrop')
+    expect(state.status).toBe('over')
+    expect(events.map(event => event.type)).toContain('gameOver')
+  })
+})
+
+describe('hold', () => {
+  it('stores the current pair once per piece and swaps it back later', () => {
+    const initial = createInitialState(1)
+    const held = step(initial, 'hold').state
+    expect(held.held).toMatchObject({ color1: initial.current?.color1, color2: initial.current?.color2 })
+    expect(held.current).toMatchObject({ color1: initial.next[0].color1, color2: initial.next[0].color2 })
+    expect(held.canHold).toBe(false)
+
+    // 同じツモの間はもう一度ホールドできない
+    expect(step(held, 'hold').events).toEqual([])
+
+    const afterLock = step(held, 'hardDrop').state
+    expect(afterLock.canHold).toBe(true)
+    const swapped = step(afterLock, 'hold').state
+    expect(swapped.current).toMatchObject({ color1: initial.current?.color1, color2: initial.current?.color2, x: DEFAULT_RULESET.spawnX })
+    expect(swapped.held).toMatchObject({ color1: afterLock.current?.color1, color2: afterLock.current?.color2 })
+  })
+})
+
+describe('lock delay', () => {
+  const landed = () => {
+    let state = createInitialState(1)
+    while (!state.grounded) state = step(state, 'tick').state
+    return state
+  }
+
+  it('waits for a second tick before locking', () => {
+    const state = landed()
+    expect(state.grid.flat().filter(Boolean)).toHaveLength(0)
+    const { events } = step(state, 'tick')
+    expect(events.map(event => event.type)).toContain('lock')
+  })
+
+  it('resets the delay on moves up to MAX_LOCK_RESETS times', () => {
+    let state = landed()
+    for (let i = 0; i < MAX_LOCK_RESETS + 3; i++) {
+      state = step(state, i % 2 === 0 ? 'left' : 'right').state
+    }
+    expect(state.grounded).toBe(true)
+    expect(state.lockResets).toBe(MAX_LOCK_RESETS)
+    expect(step(state, 'tick').events.map(event => event.type)).toContain('lock')
+  })
+})
+
+describe('quick turn', () => {
+  it('flips the pair when pressed twice in a one-column well', () => {
+    const grid = createEmptyGrid()
+    for (let y = 1; y < grid.length; y++) {
+      grid[y][DEFAULT_RULESET.spawnX - 1] = 'garbage'
+      grid[y][DEFAULT_RULESET.spawnX + 1] = 'garbage'
+    }
+    const inWell = run(stateWith(grid), 'down', 'down', 'down')
+    const y = inWell.current?.y as number
+
+    const first = step(inWell, 'rotateRight')
+    expect(first.events).toEqual([])
+    expect(first.state.quickTurnReady).toBe(true)
+    expect(first.state.current).toEqual(inWell.current)
+
+    const second = step(first.state, 'rotateRight')
+    expect(second.events).toEqual([{ type: 'rotate', direction: 'right' }])
+    expect(second.state.current).toMatchObject({ x: DEFAULT_RULESET.spawnX, y: y - 1, rotation: 2 })
+  })
+})
@@ -0,0 +1,537 @@
+// ぷよぷよのルールを React から切り離した純粋なエンジン
+// すべての関数は引数を変更せず、新しい値を返す
+
+import { DEFAULT_SEQUENCE_OPTIONS, PairColors, SequenceOptions, SequenceState, createSequence, drawPair, drawPairs, nextRandom } from './sequence'
+import { DEFAULT_SCORING_RULE, LinkScore, SCORING, ScoringRule } from './scoring'
+import { DEFAULT_RULESET, Ruleset } from './ruleset'
+
+// Types
+export type PuyoColor = 'red' | 'green' | 'blue' | 'yellow' | 'purple' | 'garbage' | null
+export type Grid = PuyoColor[][]
+export type ControlAction = 'left' | 'right' | 'down' | 'rotateLeft' | 'rotateRight' | 'hold' | 'hardDrop'
+// 'tick' はゲームループによる自然落下
+export type EngineAction = ControlAction | 'tick'
+
+export interface PuyoPair {
+  color1: PuyoColor
+  color2: PuyoColor
+  x: number
+  y: number
+  rotation: number
+}
+
+export interface Cell {
+  x: number
+  y: number
+  color: PuyoColor
+}
+
+// 連鎖の1段分の結果
+export interface ChainLink {
+  chain: number
+  cleared: Cell[]
+  clearedGarbage: Cell[] // 巻き込まれて消えたおじゃまぷよ
+  points: number
+  score: LinkScore       // 得点の内訳
+  grid: Grid     // 消去直後の盤面
+  settled: Grid  // 重力適用後の盤面
+}
+
+export interface EngineState {
+  grid: Grid
+  current: PuyoPair | null
+  next: PuyoPair[]
+  held: PuyoPair | null
+  canHold: boolean
+  score: number
+  status: 'active' | 'over'
+  sequence: SequenceState
+  pendingGarbage: number    // 予告おじゃまぷよ
+  garbageRemainder: number  // おじゃまぷよに換算しきれなかった得点
+  garbageRng: number
+  scoring: ScoringRule
+  rules: Ruleset
+  allClearPending: boolean  // 全消しボーナスを次の連鎖に加算する
+  refillQueue: boolean      // false ならネクストを補充せず、使い切った時点で終了する（なぞぷよ）
+  grounded: boolean         // 接地して固定猶予に入っている
+  lockResets: number        // 接地中に移動・回転で猶予をリセットした回数
+  quickTurnReady: boolean   // 回転に失敗した直後。もう一度押すと上下を入れ替える
+}
+
+export type EngineEvent =
+  | { type: 'move', direction: 'left' | 'right' | 'down' }
+  | { type: 'rotate', direction: 'left' | 'right' }
+  | { type: 'hold' }
+  | { type: 'lock', grid: Grid }
+  | { type: 'chain', link: ChainLink }
+  | { type: 'garbage', sent: number }
+  | { type: 'garbageDrop', count: number, grid: Grid }
+  | { type: 'drop', rows: number, points: number }
+  | { type: 'allClear' }
+  | { type: 'gameOver' }
+
+export interface StepResult {
+  state: EngineState
+  events: EngineEvent[]
+}
+
+// Constants
+// 標準ルールの盤面（AI・なぞぷよ・フィールドコードは標準ルールだけを扱う）
+export const GRID_ROWS = DEFAULT_RULESET.rows + DEFAULT_RULESET.hiddenRows
+export const GRID_COLS = DEFAULT_RULESET.cols
+export const NEXT_QUEUE_SIZE = 5
+export const SPAWN_X = DEFAULT_RULESET.spawnX
+export const SPAWN_Y = DEFAULT_RULESET.hiddenRows
+export const HIDDEN_ROWS = DEFAULT_RULESET.hiddenRows
+// 窒息点（左から3列目・下から12段目）
+export const DEATH_X = SPAWN_X
+export const DEATH_Y = SPAWN_Y
+export const TARGET_POINTS = 70
+export const GARBAGE_DROP_ROWS = 5  // 一度に降るおじゃまぷよは5段まで
+export const MAX_LOCK_RESETS = 8
+export const DANGER_ROWS = 3        // 窒息点の下この段数まで積み上がったら危険
+
+// 回転できない場合に試す壁蹴りの順番
+const WALL_KICKS = [
+  { x: 1, y: 0 },  // 右に1マス
+  { x: -1, y: 0 }, // 左に1マス
+  { x: 0, y: -1 }, // 上に1マス
+  { x: 1, y: -1 }, // 右上に1マス
+  { x: -1, y: -1 } // 左上に1マス
+]
+
+// Helper functions
+// 盤面の大きさはルールから作り、以降は盤面そのものから読む
+export const createEmptyGrid = (rules: Ruleset = DEFAULT_RULESET): Grid => (
+  Array(rules.rows + rules.hiddenRows).fill(null).map(() => Array(rules.cols).fill(null))
+)
+export const cloneGrid = (grid: Grid): Grid => grid.map(row => [...row])
+const gridRows = (grid: Grid): number => grid.length
+const gridCols = (grid: Grid): number => grid[0]?.length ?? 0
+
+export const spawnPair = ({ color1, color2 }: PairColors, rules: Ruleset = DEFAULT_RULESET): PuyoPair => (
+  { color1, color2, x: rules.spawnX, y: rules.hiddenRows, rotation: 0 }
+)
+
+// 操作中のぷよを出現位置に戻す（1手戻すときの履歴用）
+export const respawnCurrent = (state: EngineState): EngineState => ({
+  ...state,
+  current: state.current && spawnPair(state.current, state.rules)
+})
+
+export const getSecondPuyoPosition = (x: number, y: number, rotation: number): [number, number] => {
+  switch (rotation) {
+    case 0: return [x, y - 1]
+    case 1: return [x + 1, y]
+    case 2: return [x, y + 1]
+    case 3: return [x - 1, y]
+    default: return [x, y]
+  }
+}
+
+export const isValidMove = (grid: Grid, puyo: PuyoPair): boolean => {
+  const { x, y, rotation } = puyo
+  const [x2, y2] = getSecondPuyoPosition(x, y, rotation)
+  const rows = gridRows(grid)
+  const cols = gridCols(grid)
+
+  return (
+    x >= 0 && x < cols && y >= 0 && y < rows &&
+    x2 >= 0 && x2 < cols && y2 >= 0 && y2 < rows &&
+    (y === 0 || !grid[y][x]) && (y2 === 0 || !grid[y2][x2])  // 最上段（y === 0）は常に有効
+  )
+}
+
+// ハードドロップした場合の着地位置
+export const getDropPosition = (grid: Grid, puyo: PuyoPair): PuyoPair => {
+  let dropped = puyo
+  while (isValidMove(grid, { ...dropped, y: dropped.y + 1 })) {
+    dropped = { ...dropped, y: dropped.y + 1 }
+  }
+  return dropped
+}
+
+// 今の位置からハードドロップしたときに2つのぷよが最終的に収まるマス
+// 横向きのペアで左右の高さが違う場合は、それぞれの列の一番上まで落ちる
+export const getLandingCells = (grid: Grid, puyo: PuyoPair): Cell[] => {
+  const dropped = getDropPosition(grid, puyo)
+  const [x2, y2] = getSecondPuyoPosition(dropped.x, dropped.y, dropped.rotation)
+  const halves = [
+    { x: dropped.x, y: dropped.y, color: dropped.color1 },
+    { x: x2, y: y2, color: dropped.color2 }
+  ].sort((a, b) => b.y - a.y) // 下にある方から積む
+
+  const tops: Map<number, number> = new Map()
+  return halves.map(({ x, color }) => {
+    if (!tops.has(x)) {
+      const top = grid.findIndex(row => row[x] !== null)
+      tops.set(x, top === -1 ? gridRows(grid) : top)
+    }
+    const y = (tops.get(x) as number) - 1
+    tops.set(x, y)
+    return { x, y, color }
+  })
+}
+
+export const placePair = (grid: Grid, pair: PuyoPair): Grid => {
+  const newGrid = cloneGrid(grid)
+  const { x, y, color1, color2, rotation } = pair
+  const [x2, y2] = getSecondPuyoPosition(x, y, rotation)
+  const rows = gridRows(grid)
+  const cols = gridCols(grid)
+
+  if (y >= 0 && y < rows && x >= 0 && x < cols) {
+    newGrid[y][x] = color1
+  }
+  if (y2 >= 0 && y2 < rows && x2 >= 0 && x2 < cols) {
+    newGrid[y2][x2] = color2
+  }
+  return newGrid
+}
+
+export const applyGravity = (grid: Grid): Grid => {
+  const newGrid: Grid = grid.map(row => row.map(() => null))
+  for (let x = 0; x < gridCols(grid); x++) {
+    let writeY = gridRows(grid) - 1
+    for (let y = gridRows(grid) - 1; y >= 0; y--) {
+      if (grid[y][x] !== null) {
+        newGrid[writeY][x] = grid[y][x]
+        writeY--
+      }
+    }
+  }
+  return newGrid
+}
+
+export const findConnectedPuyos = (grid: Grid, x: number, y: number, color: PuyoColor, visited: Set<string> = new Set(), hiddenRows = HIDDEN_ROWS): Set<string> => {
+  const key = `${x},${y}`
+  if (
+    x < 0 || x >= gridCols(grid) || y < hiddenRows || y >= gridRows(grid) ||
+    grid[y][x] !== color || visited.has(key)
+  ) {
+    return visited
+  }
+
+  visited.add(key)
+
+  findConnectedPuyos(grid, x + 1, y, color, visited, hiddenRows)
+  findConnectedPuyos(grid, x - 1, y, color, visited, hiddenRows)
+  findConnectedPuyos(grid, x, y + 1, color, visited, hiddenRows)
+  findConnectedPuyos(grid, x, y - 1, color, visited, hiddenRows)
+
+  return visited
+}
+
+// 消える（rules.popSize 以上つながった）グループを列挙する
+// おじゃまぷよと隠し段のぷよは消えない
+export const findPoppingGroups = (grid: Grid, rules: Ruleset = DEFAULT_RULESET): Cell[][] => {
+  const seen: Set<string> = new Set()
+  const groups: Cell[][] = []
+
+  for (let y = rules.hiddenRows; y < gridRows(grid); y++) {
+    for (let x = 0; x < gridCols(grid); x++) {
+      const color = grid[y][x]
+      if (!color || color === 'garbage' || seen.has(`${x},${y}`)) continue
+
+      const connected = findConnectedPuyos(grid, x, y, color, new Set(), rules.hiddenRows)
+      connected.forEach(key => seen.add(key))
+      if (connected.size >= rules.popSize) {
+        groups.push(Array.from(connected).map(key => {
+          const [cx, cy] = key.split(',').map(Number)
+          return { x: cx, y: cy, color }
+        }))
+      }
+    }
+  }
+  return groups
+}
+
+// 消えるぷよに隣接するおじゃまぷよ
+const findAdjacentGarbage = (grid: Grid, cleared: Cell[], hiddenRows: number): Cell[] => {
+  const found: Map<string, Cell> = new Map()
+  cleared.forEach(({ x, y }) => {
+    [[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]].forEach(([nx, ny]) => {
+      if (nx >= 0 && nx < gridCols(grid) && ny >= hiddenRows && ny < gridRows(grid) && grid[ny][nx] === 'garbage') {
+        found.set(`${nx},${ny}`, { x: nx, y: ny, color: 'garbage' })
+      }
+    })
+  })
+  return Array.from(found.values())
+}
+
+// 消えるグループがなくなるまで連鎖を解決する
+export const resolveChain = (grid: Grid, scoring: ScoringRule = DEFAULT_SCORING_RULE, rules: Ruleset = DEFAULT_RULESET): { grid: Grid, links: ChainLink[] } => {
+  const links: ChainLink[] = []
+  let current = grid
+
+  for (let chain = 1; ; chain++) {
+    const groups = findPoppingGroups(current, rules)
+    if (groups.length === 0) break
+
+    const cleared = groups.flat()
+    const clearedGarbage = findAdjacentGarbage(current, cleared, rules.hiddenRows)
+    const afterClear = cloneGrid(current)
+    cleared.concat(clearedGarbage).forEach(({ x, y }) => { afterClear[y][x] = null })
+    const settled = applyGravity(afterClear)
+    const score = SCORING[scoring].scoreLink(groups, chain)
+
+    links.push({
+      chain,
+      cleared,
+      clearedGarbage,
+      points: score.points,
+      score,
+      grid: afterClear,
+      settled
+    })
+    current = settled
+  }
+
+  return { grid: current, links }
+}
+
+// ハードドロップした場合に1連鎖目で消えるぷよ（着地するペアも含む）
+export const previewPops = (grid: Grid, puyo: PuyoPair, rules: Ruleset = DEFAULT_RULESET): Cell[] => {
+  const landed = applyGravity(placePair(grid, getDropPosition(grid, puyo)))
+  return findPoppingGroups(landed, rules).flat()
+}
+
+// 窒息点は出現列の一番上の見える段
+export const isGameOver = (grid: Grid, rules: Ruleset = DEFAULT_RULESET): boolean => grid[rules.hiddenRows][rules.spawnX] !== null
+export const isInDanger = (grid: Grid, rules: Ruleset = DEFAULT_RULESET): boolean => grid[rules.hiddenRows + DANGER_ROWS][rules.spawnX] !== null
+export const isAllClear = (grid: Grid): boolean => grid.every(row => row.every(cell => cell === null))
+
+// Nuisance (ojama)
+export const receiveGarbage = (state: EngineState, count: number): EngineState => ({
+  ...state,
+  pendingGarbage: state.pendingGarbage + count
+})
+
+// 列ごとに降らせる個数。端数は乱数で選んだ列に1個ずつ割り振る
+export const distributeGarbage = (count: number, rng: number, cols = GRID_COLS): [number[], number] => {
+  const columns: number[] = Array(cols).fill(Math.floor(count / cols))
+  const order = Array.from({ length: cols }, (_, x) => x)
+  let next = rng
+  for (let i = order.length - 1; i > 0; i--) {
+    const [value, advanced] = nextRandom(next)
+    const j = Math.floor(value * (i + 1))
+    const swapped = order[i]
+    order[i] = order[j]
+    order[j] = swapped
+    next = advanced
+  }
+  order.slice(0, count % cols).forEach(x => { columns[x]++ })
+  return [columns, next]
+}
+
+// 各列の上に積む。盤面からあふれた分は消える
+export const dropGarbage = (grid: Grid, columns: number[]): Grid => {
+  const newGrid = cloneGrid(grid)
+  columns.forEach((count, x) => {
+    let y = newGrid.findIndex(row => row[x] !== null)
+    if (y === -1) y = gridRows(grid)
+    for (let i = 0; i < count && y > 0; i++) {
+      y--
+      newGrid[y][x] = 'garbage'
+    }
+  })
+  return newGrid
+}
+
+// 色数はルールの指定が優先される
+export const createInitialState = (seed: number, options?: SequenceOptions, scoring: ScoringRule = DEFAULT_SCORING_RULE, rules: Ruleset = DEFAULT_RULESET): EngineState => {
+  const sequenceOptions = { ...(options ?? DEFAULT_SEQUENCE_OPTIONS), colorCount: rules.colorCount }
+  const [[first, ...next], sequence] = drawPairs(createSequence(seed, sequenceOptions), NEXT_QUEUE_SIZE + 1)
+  return {
+    grid: createEmptyGrid(rules),
+    current: spawnPair(first, rules),
+    next: next.map(pair => spawnPair(pair, rules)),
+    held: null,
+    canHold: true,
+    score: 0,
+    status: 'active',
+    sequence,
+    pendingGarbage: 0,
+    garbageRemainder: 0,
+    garbageRng: seed ^ 0x5BD1E995,
+    scoring,
+    rules,
+    allClearPending: false,
+    refillQueue: true,
+    grounded: false,
+    lockResets: 0,
+    quickTurnReady: false
+  }
+}
+
+// ネクストの先頭を取り出し、ツモから1手補充する
+const advanceQueue = (state: EngineState): { current: PuyoPair | null, next: PuyoPair[], sequence: SequenceState } => {
+  const [upcoming, ...rest] = state.next
+  if (!state.refillQueue) {
+    return { current: upcoming ? spawnPair(upcoming, state.rules) : null, next: rest, sequence: state.sequence }
+  }
+  const [drawn, sequence] = drawPair(state.sequence)
+  return { current: spawnPair(upcoming, state.rules), next: [...rest, spawnPair(drawn, state.rules)], sequence }
+}
+
+const lockPair = (state: EngineState, pair: PuyoPair, events: EngineEvent[]): StepResult => {
+  const placed = applyGravity(placePair(state.grid, pair))
+  events.push({ type: 'lock', grid: placed })
+
+  const resolved = resolveChain(placed, state.scoring, state.rules)
+  resolved.links.forEach(link => events.push({ type: 'chain', link }))
+  const fired = resolved.links.length > 0
+  const allClearBonus = fired && state.allClearPending ? SCORING[state.scoring].allClearBonus : 0
+  const gained = resolved.links.reduce((sum, link) => sum + link.points, 0) + allClearBonus
+  const score = state.score + gained
+
+  const allClear = fired && isAllClear(resolved.grid)
+  if (allClear) {
+    events.push({ type: 'allClear' })
+  }
+
+  // 得点をおじゃまぷよに換算し、予告分と相殺してから相手に送る
+  const total = state.garbageRemainder + gained
+  const produced = Math.floor(total / TARGET_POINTS)
+  const offset = Math.min(produced, state.pendingGarbage)
+  if (produced > offset) {
+    events.push({ type: 'garbage', sent: produced - offset })
+  }
+
+  let grid = resolved.grid
+  let pendingGarbage = state.pendingGarbage - offset
+  let garbageRng = state.garbageRng
+  if (pendingGarbage > 0) {
+    const count = Math.min(pendingGarbage, state.rules.cols * GARBAGE_DROP_ROWS)
+    const [columns, rng] = distributeGarbage(count, garbageRng, state.rules.cols)
+    grid = dropGarbage(grid, columns)
+    pendingGarbage -= count
+    garbageRng = rng
+    events.push({ type: 'garbageDrop', count, grid })
+  }
+
+  const updated = {
+    ...state,
+    grid,
+    score,
+    pendingGarbage,
+    garbageRemainder: total % TARGET_POINTS,
+    garbageRng,
+    allClearPending: allClear || (state.allClearPending && !fired)
+  }
+
+  if (isGameOver(grid, state.rules)) {
+    events.push({ type: 'gameOver' })
+    return { state: { ...updated, current: null, status: 'over' }, events }
+  }
+
+  const queue = advanceQueue(state)
+  if (!queue.current) {
+    return { state: { ...updated, ...queue, status: 'over' }, events }
+  }
+
+  return {
+    state: { ...updated, ...queue, ...NEW_PAIR, canHold: true },
+    events
+  }
+}
+
+// 新しいぷよを出したときに戻す値
+const NEW_PAIR = { grounded: false, lockResets: 0, quickTurnReady: false }
+
+const canFall = (grid: Grid, pair: PuyoPair): boolean => isValidMove(grid, { ...pair, y: pair.y + 1 })
+
+// 操作中のぷよを動かす。接地したまま動かした場合は固定猶予をリセットする（MAX_LOCK_RESETS 回まで）
+const movePair = (state: EngineState, moved: PuyoPair): EngineState => {
+  const grounded = !canFall(state.grid, moved)
+  const reset = state.grounded && grounded && state.lockResets < MAX_LOCK_RESETS
+  return { ...state, current: moved, grounded, lockResets: state.lockResets + (reset ? 1 : 0), quickTurnReady: false }
+}
+
+const shift = (state: EngineState, current: PuyoPair, direction: 'left' | 'right'): StepResult => {
+  const moved = { ...current, x: current.x + (direction === 'left' ? -1 : 1) }
+  if (!isValidMove(state.grid, moved)) return { state, events: [] }
+  return { state: movePair(state, moved), events: [{ type: 'move', direction }] }
+}
+
+// soft はプレイヤーが下を押した場合（ソフトドロップ得点が入る）
+// 落ちられないときは固定猶予に入り、猶予中にもう一度落とそうとすると固定する
+const fall = (state: EngineState, current: PuyoPair, soft: boolean): StepResult => {
+  const moved = { ...current, y: current.y + 1 }
+  if (!isValidMove(state.grid, moved)) {
+    if (!state.grounded) return { state: { ...state, grounded: true }, events: [] }
+    return lockPair(state, current, [])
+  }
+
+  const events: EngineEvent[] = [{ type: 'move', direction: 'down' }]
+  const points = soft ? SCORING[state.scoring].dropPoints(1) : 0
+  if (soft) {
+    events.push({ type: 'drop', rows: 1, points })
+  }
+  return { state: { ...movePair(state, moved), score: state.score + points }, events }
+}
+
+const hardDrop = (state: EngineState, current: PuyoPair): StepResult => {
+  const dropped = getDropPosition(state.grid, current)
+  const rows = dropped.y - current.y
+  const points = SCORING[state.scoring].dropPoints(rows)
+  return lockPair({ ...state, score: state.score + points }, dropped, [{ type: 'drop', rows, points }])
+}
+
+const rotate = (state: EngineState, current: PuyoPair, direction: 'left' | 'right'): StepResult => {
+  const rotated = { ...current, rotation: (current.rotation + (direction === 'left' ? -1 : 1) + 4) % 4 }
+  const candidates = [rotated, ...WALL_KICKS.map(kick => ({ ...rotated, x: rotated.x + kick.x, y: rotated.y + kick.y }))]
+  const valid = candidates.find(candidate => isValidMove(state.grid, candidate))
+  if (valid) {
+    return { state: movePair(state, valid), events: [{ type: 'rotate', direction }] }
+  }
+
+  // 1列の隙間で回せないときは、2回続けて押すと上下を入れ替える（クイックターン）
+  if (!state.quickTurnReady) {
+    return { state: { ...state, quickTurnReady: true }, events: [] }
+  }
+  const [x2, y2] = getSecondPuyoPosition(current.x, current.y, current.rotation)
+  const flipped = { ...current, x: x2, y: y2, rotation: (current.rotation + 2) % 4 }
+  if (!isValidMove(state.grid, flipped)) return { state, events: [] }
+  return { state: movePair(state, flipped), events: [{ type: 'rotate', direction }] }
+}
+
+const hold = (state: EngineState, current: PuyoPair): StepResult => {
+  if (!state.canHold || (!state.held && state.next.length === 0)) return { state, events: [] }
+
+  if (state.held) {
+    return {
+      state: { ...state, ...NEW_PAIR, current: spawnPair(state.held, state.rules), held: current, canHold: false },
+      events: [{ type: 'hold' }]
+    }
+  }
+
+  return {
+    state: { ...state, ...advanceQueue(state), ...NEW_PAIR, held: current, canHold: false },
+    events: [{ type: 'hold' }]
+  }
+}
+
+// 1アクション分ゲームを進め、新しい状態と発生したイベントを返す
+export const step = (state: EngineState, action: EngineAction): StepResult => {
+  const { current } = state
+  if (state.status !== 'active' || !current) return { state, events: [] }
+
+  switch (action) {
+    case 'left':
+    case 'right':
+      return shift(state, current, action)
+    case 'down':
+      return fall(state, current, true)
+    case 'tick':
+      return fall(state, current, false)
+    case 'rotateLeft':
+      return rotate(state, current, 'left')
+    case 'rotateRight':
+      return rotate(state, current, 'right')
+    case 'hold':
+      return hold(state, current)
+    case 'hardDrop':
+      return hardDrop(state, current)
+  }
+}
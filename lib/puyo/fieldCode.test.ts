@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { createEmptyGrid } from './engine'
+import { decodeField, decodePairs, encodeField, encodePairs } from './fieldCode'
+
+describe('field code', () => {
+  it('encodes two cells per character from the top and drops empty rows', () => {
+    const grid = createEmptyGrid()
+    grid[11][0] = 'garbage'
+    grid[12].splice(0, 6, 'red', 'red', 'green', 'green', 'blue', 'blue')
+    expect(encodeField(grid)).toBe('M009ir')
+    expect(decodeField('M009ir')).toEqual(grid)
+  })
+
+  it('rejects a puyop move list instead of reading part of it', () => {
+    expect(() => decodeField('9ir_0a1b')).toThrow('_')
+  })
+
+  it('round-trips next pairs with the axis color first', () => {
+    const pairs = [{ color1: 'red', color2: 'blue' }, { color1: 'purple', color2: 'purple' }] as const
+    const code = encodePairs([...pairs])
+    expect(code).toHaveLength(2)
+    expect(decodePairs(code)).toEqual(pairs)
+    expect(() => decodePairs('M')).toThrow()
+  })
+})
@@ -0,0 +1,67 @@
+// 盤面とツモの URL 表記（エディタの ?f=&n=）
+// 盤面はぷよぷよ譜（puyop）の盤面部分と同じ表記で、横に並んだ2マスを1文字（左の色 * 8 + 右の色）で表し、上から順に並べる。上の空白は省略する
+// ツモはこのアプリ独自の表記で、ぷよぷよ譜の手順（<盤面>_<手順> の _ 以降）とは互換性がない。エディタの URL もぷよぷよ譜では開けない
+
+import { EngineState, GRID_COLS, GRID_ROWS, Grid, NEXT_QUEUE_SIZE, PuyoColor, cloneGrid, createEmptyGrid, createInitialState, spawnPair } from './engine'
+import { PairColors, drawPairs } from './sequence'
+
+// Constants
+const MOVES_SEPARATOR = '_' // ぷよぷよ譜で盤面と手順を区切る文字
+const CODE_CHARS = '0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ[]'
+const CELL_CODES: PuyoColor[] = [null, 'red', 'green', 'blue', 'yellow', 'purple', 'garbage']
+const CHARS_PER_ROW = GRID_COLS / 2
+
+// Helper functions
+const encodeCells = (left: PuyoColor, right: PuyoColor): string => (
+  CODE_CHARS[CELL_CODES.indexOf(left) * 8 + CELL_CODES.indexOf(right)]
+)
+
+const decodeCells = (char: string): [PuyoColor, PuyoColor] => {
+  const index = CODE_CHARS.indexOf(char)
+  const left = index < 0 ? undefined : CELL_CODES[Math.floor(index / 8)]
+  const right = index < 0 ? undefined : CELL_CODES[index % 8]
+  if (left === undefined || right === undefined) throw new Error(`盤面の表記が不正です: ${char}`)
+  return [left, right]
+}
+
+export const encodeField = (grid: Grid): string => {
+  const code = grid.map(row => {
+    let encoded = ''
+    for (let x = 0; x < GRID_COLS; x += 2) encoded += encodeCells(row[x], row[x + 1])
+    return encoded
+  }).join('')
+  return code.replace(/^0+/, '')
+}
+
+// 表記から盤面を復元する。不正な表記は Error を投げる
+export const decodeField = (code: string): Grid => {
+  if (code.includes(MOVES_SEPARATOR)) throw new Error('ぷよぷよ譜の手順（_ 以降）には対応していません。盤面の部分だけを指定してください')
+  const rowCount = Math.ceil(code.length / CHARS_PER_ROW)
+  if (rowCount > GRID_ROWS) throw new Error('盤面の段数が多すぎます')
+
+  const padded = code.padStart(rowCount * CHARS_PER_ROW, '0')
+  const grid = createEmptyGrid()
+  for (let i = 0; i < padded.length; i++) {
+    const y = GRID_ROWS - rowCount + Math.floor(i / CHARS_PER_ROW)
+    const x = (i % CHARS_PER_ROW) * 2
+    ;[grid[y][x], grid[y][x + 1]] = decodeCells(padded[i])
+  }
+  return grid
+}
+
+// ツモは1組1文字（軸ぷよ * 8 + 子ぷよ）。置き場所は持たない独自の表記
+export const encodePairs = (pairs: PairColors[]): string => pairs.map(({ color1, color2 }) => encodeCells(color1, color2)).join('')
+
+export const decodePairs = (code: string): PairColors[] => Array.from(code).map(char => {
+  const [color1, color2] = decodeCells(char)
+  if (!color1 || !color2 || color1 === 'garbage' || color2 === 'garbage') throw new Error(`ツモの表記が不正です: ${char}`)
+  return { color1, color2 }
+})
+
+// 編集した盤面とツモから始める。指定したツモを使い切ったらシードのツモを配る
+export const createFieldState = (grid: Grid, pairs: PairColors[], seed: number): EngineState => {
+  const initial = createInitialState(seed)
+  const [drawn, sequence] = drawPairs(initial.sequence, Math.max(NEXT_QUEUE_SIZE + 1 - pairs.length, 0))
+  const [first, ...next] = [...pairs, ...drawn].map(pair => spawnPair(pair))
+  return { ...initial, grid: cloneGrid(grid), current: first, next, sequence }
+}
@@ -0,0 +1,81 @@
+// ゲームパッド（Gamepad API の Standard レイアウト）の割り当て
+import type { ControlAction } from './engine'
+
+// Types
+export type GamepadBindings = Record<ControlAction, number[]>
+export type GamepadProfiles = Record<string, GamepadBindings> // キーはコントローラーの id
+
+// Constants
+export const DEFAULT_GAMEPAD_BINDINGS: GamepadBindings = {
+  left: [14],       // 十字キー左
+  right: [15],      // 十字キー右
+  down: [13],       // 十字キー下
+  hardDrop: [12],   // 十字キー上
+  rotateLeft: [0],  // A / ×
+  rotateRight: [1], // B / ○
+  hold: [4, 5]      // LB / RB
+}
+export const START_BUTTON = 9
+export const GAMEPAD_PROFILES_KEY = 'puyoPuyoGamepadProfiles'
+export const GAMEPAD_PROFILES_EVENT = 'puyoPuyoGamepadProfilesChange' // 同じページの別の画面に保存を知らせる
+const STICK_THRESHOLD = 0.5
+const BUTTON_LABELS = ['A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'LS', 'RS', '↑', '↓', '←', '→']
+
+// 押されている操作の一覧（左スティックも十字キーと同じ扱い）
+export const readGamepadActions = (gamepad: Gamepad, bindings: GamepadBindings): Set<ControlAction> => {
+  const pressed: Set<ControlAction> = new Set()
+  ;(Object.entries(bindings) as [ControlAction, number[]][]).forEach(([action, buttons]) => {
+    if (buttons.some(button => gamepad.buttons[button]?.pressed)) {
+      pressed.add(action)
+    }
+  })
+
+  const [axisX = 0, axisY = 0] = gamepad.axes
+  if (axisX < -STICK_THRESHOLD) pressed.add('left')
+  if (axisX > STICK_THRESHOLD) pressed.add('right')
+  if (axisY > STICK_THRESHOLD) pressed.add('down')
+  return pressed
+}
+
+export const formatButton = (button: number): string => BUTTON_LABELS[button] ?? `#${button}`
+
+// 押されているボタンのうち最初のもの（スタートボタンはポーズ用なので除く）
+export const findPressedButton = (gamepad: Gamepad): number | null => {
+  const index = gamepad.buttons.findIndex((button, i) => button.pressed && i !== START_BUTTON)
+  return index < 0 ? null : index
+}
+
+// ボタンを操作に割り当てる。ほかの操作に同じボタンがあれば外す
+export const bindButton = (bindings: GamepadBindings, action: ControlAction, button: number): GamepadBindings => {
+  const updated = {} as GamepadBindings
+  ;(Object.keys(bindings) as ControlAction[]).forEach(name => {
+    updated[name] = name === action ? [button] : bindings[name].filter(bound => bound !== button)
+  })
+  return updated
+}
+
+export const getGamepadBindings = (profiles: GamepadProfiles, id: string): GamepadBindings => (
+  profiles[id] ?? DEFAULT_GAMEPAD_BINDINGS
+)
+
+// 保存されたコントローラーごとの割り当てを読み込む。形式が合わないものは捨てる
+export const loadGamepadProfiles = (): GamepadProfiles => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(GAMEPAD_PROFILES_KEY) ?? '{}')
+    const profiles: GamepadProfiles = {}
+    Object.entries(stored as Record<string, Record<string, unknown>>).forEach(([id, bindings]) => {
+      const valid = (Object.keys(DEFAULT_GAMEPAD_BINDINGS) as ControlAction[]).every(action => (
+        Array.isArray(bindings?.[action]) && (bindings[action] as unknown[]).every(button => typeof button === 'number')
+      ))
+      if (valid) profiles[id] = bindings as GamepadBindings
+    })
+    return profiles
+  } catch {
+    return {}
+  }
+}
+
+export const saveGamepadProfiles = (profiles: GamepadProfiles) => {
+  localStorage.setItem(GAMEPAD_PROFILES_KEY, JSON.stringify(profiles))
+  window.dispatchEvent(new Event(GAMEPAD_PROFILES_EVENT))
+}
@@ -0,0 +1,195 @@
+// 1人用のゲームモード
+// 落下速度・終了条件・記録の比べ方をモードごとに決める。終了判定はリプレイの検証でも同じものを使う
+
+import { EngineEvent, EngineState, createInitialState, step } from './engine'
+import type { Replay } from './replay'
+
+// Types
+export type GameModeId = 'endless' | 'sprint' | 'timeAttack' | 'marathon'
+
+export type ModeEnd = 'toppedOut' | 'goal' | 'timeUp'
+
+// 終了判定と HUD に使う進み具合
+export interface ModeProgress {
+  elapsed: number  // ポーズを除いた経過ミリ秒
+  cleared: number  // 消した色ぷよの数（おじゃまぷよは数えない）
+}
+
+export interface GameMode {
+  id: GameModeId
+  label: string
+  description: string
+  goal?: number              // この数だけ消したら終了
+  timeLimit?: number         // 制限時間（ミリ秒）
+  record: 'score' | 'time'   // 自己ベストとランキングで比べる値（time は短いほど上）
+  fallSpeed: (progress: ModeProgress) => number
+  level?: (progress: ModeProgress) => number
+}
+
+// リプレイを最後まで再生した結果
+export interface ModeResult {
+  state: EngineState
+  end: ModeEnd
+  time: number     // 終了した時刻
+  cleared: number
+  maxChain: number
+  pieces: number   // 置いた組ぷよの数
+}
+
+export type ModeRecords = Partial<Record<GameModeId, number>> // モードごとの自己ベスト
+
+// Constants
+export const INITIAL_FALL_SPEED = 1000 // 初期落下速度（ミリ秒）
+export const SPEED_UP_INTERVAL = 10000 // 10秒ごとに速度を増加
+export const SPEED_UP_RATE = 1.1
+export const SPRINT_GOAL = 150
+export const TIME_ATTACK_LIMIT = 120000
+export const MARATHON_LEVELS = 15
+export const MARATHON_LEVEL_SIZE = 40  // 1レベル上がるのに消す数
+const MARATHON_SPEED_RATE = 0.82
+// 組ぷよ1つを置くのにかかる最短の時間。入力ログの時刻を詰めて記録を偽るのを防ぐ
+// 連鎖のアニメーション中はポーズや中断で時計だけ止められるので、アニメーションの時間は含めない
+export const MIN_PIECE_MS = 150
+const MODE_RECORDS_KEY = 'puyoPuyoModeRecords'
+const LEGACY_HIGH_SCORE_KEY = 'puyoPuyoHighScore'
+
+// 経過時間で速くなる（エンドレス・タイムアタック・対戦）
+export const timedFallSpeed = (elapsed: number): number => (
+  INITIAL_FALL_SPEED / SPEED_UP_RATE ** Math.floor(elapsed / SPEED_UP_INTERVAL)
+)
+
+const marathonLevel = ({ cleared }: ModeProgress): number => (
+  Math.min(MARATHON_LEVELS, 1 + Math.floor(cleared / MARATHON_LEVEL_SIZE))
+)
+
+export const GAME_MODES: Record<GameModeId, GameMode> = {
+  endless: {
+    id: 'endless',
+    label: 'エンドレス',
+    description: '窒息するまで続けてスコアを競う',
+    record: 'score',
+    fallSpeed: ({ elapsed }) => timedFallSpeed(elapsed)
+  },
+  sprint: {
+    id: 'sprint',
+    label: 'スプリント',
+    description: `${SPRINT_GOAL}個消すまでのタイムを競う`,
+    goal: SPRINT_GOAL,
+    record: 'time',
+    fallSpeed: () => INITIAL_FALL_SPEED
+  },
+  timeAttack: {
+    id: 'timeAttack',
+    label: 'タイムアタック',
+    description: `${TIME_ATTACK_LIMIT / 60000}分間のスコアを競う`,
+    timeLimit: TIME_ATTACK_LIMIT,
+    record: 'score',
+    fallSpeed: ({ elapsed }) => timedFallSpeed(elapsed)
+  },
+  marathon: {
+    id: 'marathon',
+    label: 'マラソン',
+    description: `${MARATHON_LEVEL_SIZE}個消すごとにレベルが上がる。レベル${MARATHON_LEVELS}をクリアすると終了`,
+    goal: MARATHON_LEVELS * MARATHON_LEVEL_SIZE,
+    record: 'score',
+    fallSpeed: progress => INITIAL_FALL_SPEED * MARATHON_SPEED_RATE ** (marathonLevel(progress) - 1),
+    level: marathonLevel
+  }
+}
+
+export const GAME_MODE_IDS = Object.keys(GAME_MODES) as GameModeId[]
+export const DEFAULT_GAME_MODE: GameModeId = 'endless'
+
+export const isModeCleared = (end: ModeEnd): boolean => end === 'goal' || end === 'timeUp'
+
+// スプリントは目標を達成したときだけ記録を残す。スコアを競うモードは窒息しても残す
+export const isRecordable = (mode: GameMode, end: ModeEnd): boolean => (
+  mode.record === 'time' ? end === 'goal' : true
+)
+
+// 置いた後（または時間経過で）ゲームが終わるか
+export const checkModeEnd = (mode: GameMode, progress: ModeProgress, state: EngineState): ModeEnd | null => {
+  if (mode.goal !== undefined && progress.cleared >= mode.goal) return 'goal'
+  if (state.status === 'over') return 'toppedOut'
+  if (mode.timeLimit !== undefined && progress.elapsed >= mode.timeLimit) return 'timeUp'
+  return null
+}
+
+// 連鎖で消した色ぷよの数
+export const countCleared = (events: EngineEvent[]): number => (
+  events.reduce((sum, event) => sum + (event.type === 'chain' ? event.link.cleared.length : 0), 0)
+)
+
+// リプレイをモードのルールで再生し、終了の仕方とタイムを求める
+// 終わっていないリプレイや、組ぷよを MIN_PIECE_MS より速いペースで置いたリプレイは Error を投げる
+export const simulateMode = (replay: Replay): ModeResult => {
+  const mode = GAME_MODES[replay.mode]
+  let state = createInitialState(replay.seed, replay.options, replay.scoring, replay.rules)
+  let cleared = 0
+  let maxChain = 0
+  let pieces = 0
+  let lastTime = 0
+  let end: ModeEnd | null = null
+
+  for (const [t, action] of replay.inputs) {
+    if (t < lastTime) throw new Error('入力ログの時刻が巻き戻っています')
+    if (end) throw new Error('ゲーム終了後の入力が含まれています')
+    if (mode.timeLimit !== undefined && t > mode.timeLimit) throw new Error('制限時間を過ぎた入力が含まれています')
+    lastTime = t
+
+    const result = step(state, action)
+    result.events.forEach(event => {
+      if (event.type === 'chain') maxChain = Math.max(maxChain, event.link.chain)
+      if (event.type === 'lock') pieces++
+    })
+    // 1つ目は開始直後に置けるので、n 個目を置くまでに (n - 1) 個分の時間がかかる
+    if (t < (pieces - 1) * MIN_PIECE_MS) throw new Error('組ぷよを置くペースが速すぎます')
+    cleared += countCleared(result.events)
+    state = result.state
+    // 時間切れは入力ではなく記録の長さで判定するので、経過時間は渡さない
+    end = checkModeEnd(mode, { elapsed: 0, cleared }, state)
+  }
+
+  if (!end && mode.timeLimit !== undefined && replay.duration >= mode.timeLimit) {
+    end = 'timeUp'
+    lastTime = mode.timeLimit
+  }
+  if (!end) throw new Error('ゲームが終わるまでのリプレイではありません')
+  return { state, end, time: lastTime, cleared, maxChain, pieces }
+}
+
+// m:ss.cc 形式のタイム
+export const formatTime = (ms: number): string => {
+  const centiseconds = Math.floor(Math.max(ms, 0) / 10)
+  const seconds = Math.floor(centiseconds / 100)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}.${String(centiseconds % 100).padStart(2, '0')}`
+}
+
+// 記録を表示用の文字列にする
+export const formatModeRecord = (mode: GameMode, value: number): string => (
+  mode.record === 'time' ? formatTime(value) : String(value)
+)
+
+export const isBetterRecord = (mode: GameMode, value: number, best: number | undefined): boolean => (
+  best === undefined || (mode.record === 'time' ? value < best : value > best)
+)
+
+// 自己ベストを読み込む。モードができる前のハイスコアはエンドレスの記録として引き継ぐ
+export const loadModeRecords = (): ModeRecords => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(MODE_RECORDS_KEY) ?? '{}')
+    const records: ModeRecords = {}
+    GAME_MODE_IDS.forEach(id => {
+      if (typeof stored[id] === 'number') records[id] = stored[id]
+    })
+    const legacy = localStorage.getItem(LEGACY_HIGH_SCORE_KEY)
+    if (records.endless === undefined && legacy) records.endless = parseInt(legacy, 10) || 0
+    return records
+  } catch {
+    return {}
+  }
+}
+
+export const saveModeRecords = (records: ModeRecords) => {
+  localStorage.setItem(MODE_RECORDS_KEY, JSON.stringify(records))
+}
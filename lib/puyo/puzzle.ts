@@ -0,0 +1,197 @@
+// なぞぷよ：決まった盤面とツモでお題を達成するモード
+// 問題集は JSON で同梱し、読み込み時に検証する
+
+import { EngineEvent, EngineState, GRID_COLS, GRID_ROWS, Grid, PuyoColor, cloneGrid, createEmptyGrid, createInitialState, spawnPair } from './engine'
+import type { PairColors } from './sequence'
+import basicPack from './puzzles/basic.json'
+
+// Types
+export type PuzzleObjective =
+  | { type: 'allClear' }                                    // ぷよをすべて消す
+  | { type: 'chain', count: number }                        // N連鎖する
+  | { type: 'clearColor', color: PuyoColor, count: number } // 指定色のぷよを合計N個消す
+  | { type: 'clearAtOnce', count: number }                  // ぷよをN個同時に消す
+
+export interface Puzzle {
+  id: string
+  title: string
+  objective: PuzzleObjective
+  grid: Grid
+  pairs: PairColors[]
+}
+
+export interface PuzzlePack {
+  id: string
+  title: string
+  puzzles: Puzzle[]
+}
+
+export interface PuzzleProgress {
+  colorCleared: number // clearColor 用の累計
+  achieved: boolean
+}
+
+// Constants
+// 盤面とツモの文字表記。'.' は空き
+const COLOR_CODES: Record<string, PuyoColor> = {
+  R: 'red',
+  G: 'green',
+  B: 'blue',
+  Y: 'yellow',
+  P: 'purple',
+  O: 'garbage'
+}
+
+const COLOR_NAMES: Record<string, string> = {
+  red: '赤',
+  green: '緑',
+  blue: '青',
+  yellow: '黄',
+  purple: '紫'
+}
+
+export const INITIAL_PROGRESS: PuzzleProgress = { colorCleared: 0, achieved: false }
+
+// クリアした問題の ID を保存する localStorage のキー
+export const CLEARED_PUZZLES_KEY = 'puyoPuyoClearedPuzzles'
+
+// Helper functions
+const parseColor = (code: string, allowEmpty: boolean): PuyoColor => {
+  if (allowEmpty && code === '.') return null
+  const color = COLOR_CODES[code]
+  if (!color) throw new Error(`不明なぷよの記号です: ${code}`)
+  return color
+}
+
+// 下詰めで書かれた行を GRID_ROWS 段の盤面にする
+const parseField = (rows: unknown): Grid => {
+  if (!Array.isArray(rows) || rows.length > GRID_ROWS - 1) throw new Error('盤面の段数が不正です')
+
+  const grid = createEmptyGrid()
+  const offset = GRID_ROWS - rows.length
+  rows.forEach((row, index) => {
+    if (typeof row !== 'string' || row.length !== GRID_COLS) throw new Error(`盤面の行は${GRID_COLS}文字で書いてください`)
+    Array.from(row).forEach((code, x) => { grid[offset + index][x] = parseColor(code, true) })
+  })
+  return grid
+}
+
+const parsePairs = (pairs: unknown): PairColors[] => {
+  if (!Array.isArray(pairs) || pairs.length === 0) throw new Error('ツモがありません')
+  return pairs.map(pair => {
+    if (typeof pair !== 'string' || pair.length !== 2 || pair.includes('O')) throw new Error(`ツモは色ぷよ2文字で書いてください: ${String(pair)}`)
+    return { color1: parseColor(pair[0], false), color2: parseColor(pair[1], false) }
+  })
+}
+
+const parseObjective = (objective: unknown): PuzzleObjective => {
+  const data = objective as Partial<{ type: string, count: number, color: string }> | null
+  if (typeof data !== 'object' || data === null) throw new Error('お題がありません')
+
+  const hasCount = typeof data.count === 'number' && data.count > 0
+  switch (data.type) {
+    case 'allClear':
+      return { type: 'allClear' }
+    case 'chain':
+    case 'clearAtOnce':
+      if (hasCount) return { type: data.type, count: data.count as number }
+      break
+    case 'clearColor':
+      if (hasCount && typeof data.color === 'string' && COLOR_NAMES[data.color]) {
+        return { type: 'clearColor', color: data.color as PuyoColor, count: data.count as number }
+      }
+      break
+  }
+  throw new Error(`お題が不正です: ${JSON.stringify(objective)}`)
+}
+
+// 問題集の JSON を検証する。不正な問題集は Error を投げる
+export const parsePuzzlePack = (data: unknown): PuzzlePack => {
+  const pack = data as Partial<{ id: string, title: string, puzzles: unknown[] }> | null
+  if (typeof pack !== 'object' || pack === null || typeof pack.id !== 'string' || !Array.isArray(pack.puzzles)) {
+    throw new Error('問題集を読み込めません')
+  }
+
+  return {
+    id: pack.id,
+    title: typeof pack.title === 'string' ? pack.title : pack.id,
+    puzzles: pack.puzzles.map((puzzle, index) => {
+      const item = puzzle as Partial<{ id: string, title: string, objective: unknown, field: unknown, pairs: unknown }>
+      return {
+        id: typeof item.id === 'string' ? item.id : `${pack.id}-${index + 1}`,
+        title: typeof item.title === 'string' ? item.title : `第${index + 1}問`,
+        objective: parseObjective(item.objective),
+        grid: parseField(item.field),
+        pairs: parsePairs(item.pairs)
+      }
+    })
+  }
+}
+
+export const PUZZLE_PACKS: PuzzlePack[] = [basicPack].map(parsePuzzlePack)
+
+export const findPuzzle = (id: string): Puzzle | null => {
+  for (const pack of PUZZLE_PACKS) {
+    const puzzle = pack.puzzles.find(item => item.id === id)
+    if (puzzle) return puzzle
+  }
+  return null
+}
+
+export const describeObjective = (objective: PuzzleObjective): string => {
+  switch (objective.type) {
+    case 'allClear':
+      return 'ぷよをすべて消せ'
+    case 'chain':
+      return `${objective.count}連鎖せよ`
+    case 'clearColor':
+      return `${COLOR_NAMES[objective.color ?? '']}ぷよを${objective.count}個消せ`
+    case 'clearAtOnce':
+      return `ぷよを${objective.count}個同時に消せ`
+  }
+}
+
+// 問題の盤面とツモで始める。ネクストは補充しない
+export const createPuzzleState = (puzzle: Puzzle): EngineState => {
+  const [first, ...next] = puzzle.pairs.map(pair => spawnPair(pair))
+  return {
+    ...createInitialState(0),
+    grid: cloneGrid(puzzle.grid),
+    current: first,
+    next,
+    refillQueue: false
+  }
+}
+
+// 1手置くごとにエンジンのイベントからお題の達成を判定する
+export const evaluatePlacement = (objective: PuzzleObjective, progress: PuzzleProgress, events: EngineEvent[]): PuzzleProgress => {
+  const links = events.flatMap(event => event.type === 'chain' ? [event.link] : [])
+
+  switch (objective.type) {
+    case 'allClear':
+      return { ...progress, achieved: progress.achieved || events.some(event => event.type === 'allClear') }
+    case 'chain':
+      return { ...progress, achieved: progress.achieved || links.some(link => link.chain >= objective.count) }
+    case 'clearColor': {
+      const colorCleared = progress.colorCleared + links.reduce((sum, link) => (
+        sum + link.cleared.filter(cell => cell.color === objective.color).length
+      ), 0)
+      return { colorCleared, achieved: progress.achieved || colorCleared >= objective.count }
+    }
+    case 'clearAtOnce':
+      return { ...progress, achieved: progress.achieved || links.some(link => link.cleared.length >= objective.count) }
+  }
+}
+
+export const loadClearedPuzzles = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CLEARED_PUZZLES_KEY) ?? '[]')
+    return Array.isArray(stored) ? stored.filter((id): id is string => typeof id === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+export const saveClearedPuzzles = (ids: string[]) => {
+  localStorage.setItem(CLEARED_PUZZLES_KEY, JSON.stringify(ids))
+}
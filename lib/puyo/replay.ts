@@ -0,0 +1,217 @@
+// リプレイの記録・再生
+// シードと入力ログだけを保存し、再生時はエンジンで再シミュレーションする
+
+import { ChainLink, EngineAction, EngineState, Grid, PuyoPair, createInitialState, step } from './engine'
+import { DEFAULT_SEQUENCE_OPTIONS, SequenceOptions } from './sequence'
+import { SCORING_RULES, ScoringRule } from './scoring'
+import { DEFAULT_GAME_MODE, GAME_MODE_IDS, GameModeId } from './modes'
+import { DEFAULT_RULESET, Ruleset, normalizeRuleset } from './ruleset'
+import { BoardAnimation, buildAnimation, countScoredLinks } from './animation'
+
+// Types
+// [ゲーム開始からの経過ミリ秒, アクション]
+export type ReplayInput = [number, EngineAction]
+
+export interface Replay {
+  version: typeof REPLAY_VERSION
+  seed: number
+  options: SequenceOptions
+  scoring: ScoringRule
+  mode: GameModeId
+  rules: Ruleset
+  recordedAt: string
+  duration: number
+  inputs: ReplayInput[]
+}
+
+// 入力1つ分を適用した直後の状態
+export interface ReplayFrame {
+  t: number
+  state: EngineState
+  animation: BoardAnimation | null // 固定したフレームのアニメーション
+  links: ChainLink[]
+  baseScore: number  // 連鎖前のスコア
+  chainBefore: number // このフレーム直前の連鎖表示
+  chain: number      // 連鎖表示
+  chainUntil: number // 連鎖表示が消える時刻
+}
+
+// ある時刻での HUD と盤面
+export interface ReplayView {
+  grid: Grid
+  current: PuyoPair | null
+  next: PuyoPair[]
+  held: PuyoPair | null
+  score: number
+  chain: number
+  link: ChainLink | null  // 得点内訳を表示する直近の連鎖
+  animation: BoardAnimation | null
+  animationTime: number   // animation の再生位置
+}
+
+// Constants
+export const REPLAY_VERSION = 1
+export const CHAIN_STEP_MS = 250      // 連鎖ビューアで1段の消去・落下をそれぞれ表示する時間
+export const CHAIN_DISPLAY_MS = 5000  // 連鎖表示を残す時間
+const ACTIONS: EngineAction[] = ['left', 'right', 'down', 'rotateLeft', 'rotateRight', 'hold', 'hardDrop', 'tick']
+
+export const createReplay = (seed: number, options: SequenceOptions, scoring: ScoringRule, mode: GameModeId = DEFAULT_GAME_MODE, rules: Ruleset = DEFAULT_RULESET): Replay => ({
+  version: REPLAY_VERSION,
+  seed,
+  options: { ...options, colorCount: rules.colorCount },
+  scoring,
+  mode,
+  rules,
+  recordedAt: new Date().toISOString(),
+  duration: 0,
+  inputs: []
+})
+
+export const recordInput = (replay: Replay, t: number, action: EngineAction): Replay => ({
+  ...replay,
+  duration: Math.max(replay.duration, t),
+  inputs: [...replay.inputs, [t, action]]
+})
+
+// 時間切れなど、最後の入力より後にゲームが終わった場合に長さを延ばす
+export const finishReplay = (replay: Replay, t: number): Replay => ({
+  ...replay,
+  duration: Math.max(replay.duration, t)
+})
+
+export const serializeReplay = (replay: Replay): string => JSON.stringify(replay)
+
+// 読み込んだ JSON を検証する。不正なファイルは Error を投げる
+export const parseReplay = (json: string): Replay => {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch {
+    throw new Error('リプレイファイルを読み込めません')
+  }
+
+  const replay = data as Partial<Replay>
+  if (typeof replay !== 'object' || replay === null) {
+    throw new Error('リプレイファイルを読み込めません')
+  }
+  if (replay.version !== REPLAY_VERSION) {
+    throw new Error(`未対応のリプレイバージョンです: ${String(replay.version)}`)
+  }
+  if (
+    typeof replay.seed !== 'number' ||
+    typeof replay.duration !== 'number' ||
+    !Array.isArray(replay.inputs) ||
+    !replay.inputs.every(input => (
+      Array.isArray(input) && typeof input[0] === 'number' && ACTIONS.includes(input[1])
+    ))
+  ) {
+    throw new Error('リプレイファイルが壊れています')
+  }
+
+  const options = { ...DEFAULT_SEQUENCE_OPTIONS, ...replay.options }
+  return {
+    version: REPLAY_VERSION,
+    seed: replay.seed,
+    options,
+    // 得点ルールが選べるようになる前のリプレイはクラシック
+    scoring: replay.scoring && SCORING_RULES.includes(replay.scoring) ? replay.scoring : 'classic',
+    // モードが選べるようになる前のリプレイはエンドレス
+    mode: replay.mode && GAME_MODE_IDS.includes(replay.mode) ? replay.mode : DEFAULT_GAME_MODE,
+    // ルールが選べるようになる前のリプレイは標準ルール（色数だけは選べた）
+    rules: replay.rules ? normalizeRuleset(replay.rules) : { ...DEFAULT_RULESET, colorCount: options.colorCount },
+    recordedAt: typeof replay.recordedAt === 'string' ? replay.recordedAt : '',
+    duration: replay.duration,
+    inputs: replay.inputs
+  }
+}
+
+export const simulateReplay = (replay: Replay): ReplayFrame[] => {
+  const initial = createInitialState(replay.seed, replay.options, replay.scoring, replay.rules)
+  const frames: ReplayFrame[] = [{
+    t: 0,
+    state: initial,
+    animation: null,
+    links: [],
+    baseScore: 0,
+    chainBefore: 0,
+    chain: 0,
+    chainUntil: 0
+  }]
+
+  for (const [t, action] of replay.inputs) {
+    const previous = frames[frames.length - 1]
+    const { state, events } = step(previous.state, action)
+    if (state === previous.state) continue
+
+    const lock = events.find(event => event.type === 'lock')
+    const links = events.flatMap(event => event.type === 'chain' ? [event.link] : [])
+    const frame: ReplayFrame = {
+      t,
+      state,
+      animation: lock ? buildAnimation(previous.state, events) : null,
+      links,
+      baseScore: state.score - links.reduce((sum, link) => sum + link.points, 0),
+      chainBefore: t < previous.chainUntil ? previous.chain : 0,
+      chain: previous.chain,
+      chainUntil: previous.chainUntil
+    }
+    if (links.length > 0 && frame.animation) {
+      frame.chain = links[links.length - 1].chain
+      frame.chainUntil = t + frame.animation.duration + CHAIN_DISPLAY_MS
+    }
+    frames.push(frame)
+  }
+
+  return frames
+}
+
+// time 以前で最後のフレームの位置（二分探索）
+export const findFrameIndex = (frames: ReplayFrame[], time: number): number => {
+  let low = 0
+  let high = frames.length - 1
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2)
+    if (frames[mid].t <= time) {
+      low = mid
+    } else {
+      high = mid - 1
+    }
+  }
+  return low
+}
+
+export const getReplayView = (frames: ReplayFrame[], time: number): ReplayView => {
+  const frame = frames[findFrameIndex(frames, time)]
+  const { state } = frame
+  const elapsed = time - frame.t
+  const view: ReplayView = {
+    grid: state.grid,
+    current: state.current,
+    next: state.next,
+    held: state.held,
+    score: state.score,
+    chain: time < frame.chainUntil ? frame.chain : 0,
+    link: time < frame.chainUntil ? frame.links[frame.links.length - 1] ?? null : null,
+    animation: null,
+    animationTime: 0
+  }
+
+  // アニメーション中はゲーム画面と同じ時間割で途中の盤面と得点を再現する
+  if (frame.animation && elapsed < frame.animation.duration) {
+    const scored = frame.links.slice(0, countScoredLinks(frame.animation, elapsed))
+
+    view.animation = frame.animation
+    view.animationTime = elapsed
+    view.current = null
+    view.score = frame.baseScore + scored.reduce((sum, { points }) => sum + points, 0)
+    view.chain = scored.length > 0 ? scored[scored.length - 1].chain : frame.chainBefore
+    view.link = scored[scored.length - 1] ?? null
+  }
+
+  return view
+}
+
+// 直近のゲームのリプレイを保存する localStorage のキー
+export const LAST_REPLAY_KEY = 'puyoPuyoLastReplay'
+
+export const replayFileName = (replay: Replay): string => `puyo-replay-${replay.seed}-${replay.recordedAt.replace(/[:.]/g, '-')}.json`
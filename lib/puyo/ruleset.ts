@@ -0,0 +1,110 @@
+// 盤面の大きさ・色数・消える個数などのルール
+// エンジンは状態に持った Ruleset だけを見て動くので、プリセットや自作ルールでそのまま遊べる
+
+import { COLORS, MIN_COLOR_COUNT } from './sequence'
+
+// Types
+export interface Ruleset {
+  cols: number        // 列数
+  rows: number        // 見える段数
+  hiddenRows: number  // 見えない段数（ここのぷよは消えない）
+  colorCount: number
+  popSize: number     // この数以上つながると消える
+  spawnX: number      // 出現する列（0 始まり）。この列の最上段に置かれたら窒息
+  nextCount: number   // ネクストを何手先まで表示するか
+}
+
+export type RulesetPresetId = 'standard' | 'tsu' | 'beginner' | 'wide' | 'party'
+
+export interface RulesetPreset {
+  id: RulesetPresetId
+  label: string
+  rules: Ruleset
+}
+
+// 自作ルールで選べる範囲
+type RulesetLimits = Record<keyof Ruleset, { min: number, max: number }>
+
+// Constants
+export const DEFAULT_RULESET: Ruleset = {
+  cols: 6,
+  rows: 12,
+  hiddenRows: 1,
+  colorCount: COLORS.length,
+  popSize: 4,
+  spawnX: 2,
+  nextCount: 5
+}
+
+export const RULESET_PRESETS: RulesetPreset[] = [
+  { id: 'standard', label: '標準', rules: DEFAULT_RULESET },
+  { id: 'tsu', label: 'ぷよぷよ通', rules: { ...DEFAULT_RULESET, colorCount: 4, nextCount: 2 } },
+  { id: 'beginner', label: '3色（入門）', rules: { ...DEFAULT_RULESET, colorCount: 3 } },
+  { id: 'wide', label: 'ワイド（8列）', rules: { ...DEFAULT_RULESET, cols: 8, spawnX: 3 } },
+  { id: 'party', label: 'パーティー（3個で消える）', rules: { ...DEFAULT_RULESET, colorCount: 4, popSize: 3 } }
+]
+
+export const RULESET_LIMITS: RulesetLimits = {
+  cols: { min: 3, max: 10 },
+  rows: { min: 6, max: 16 },
+  hiddenRows: { min: 1, max: 3 },
+  colorCount: { min: MIN_COLOR_COUNT, max: COLORS.length },
+  popSize: { min: 2, max: 6 },
+  spawnX: { min: 0, max: 9 },
+  nextCount: { min: 0, max: 5 }
+}
+
+const RULESET_KEY = 'puyoPuyoRuleset'
+const RULESET_FIELDS = Object.keys(DEFAULT_RULESET) as (keyof Ruleset)[]
+
+// 範囲外の値を丸める。出現列は盤面の中に収める
+export const normalizeRuleset = (rules: Partial<Ruleset>): Ruleset => {
+  const normalized = { ...DEFAULT_RULESET }
+  RULESET_FIELDS.forEach(key => {
+    const value = rules[key]
+    if (typeof value !== 'number' || !Number.isFinite(value)) return
+    const { min, max } = RULESET_LIMITS[key]
+    normalized[key] = Math.min(Math.max(Math.round(value), min), max)
+  })
+  normalized.spawnX = Math.min(normalized.spawnX, normalized.cols - 1)
+  return normalized
+}
+
+// 盤面に影響する項目だけを比べる（ネクストの表示数は見た目だけ）
+export const isSameRuleset = (a: Ruleset, b: Ruleset): boolean => (
+  RULESET_FIELDS.every(key => key === 'nextCount' || a[key] === b[key])
+)
+
+export const findRulesetPreset = (rules: Ruleset): RulesetPreset | undefined => (
+  RULESET_PRESETS.find(preset => RULESET_FIELDS.every(key => preset.rules[key] === rules[key]))
+)
+
+export const describeRuleset = (rules: Ruleset): string => {
+  const preset = RULESET_PRESETS.find(({ rules: presetRules }) => isSameRuleset(presetRules, rules))
+  if (preset) return preset.label
+  return `カスタム（${rules.cols}列×${rules.rows}段・${rules.colorCount}色・${rules.popSize}個消し）`
+}
+
+// ランキングのモード名に使う短い表記（ネクストの表示数は含めない）
+export const encodeRuleset = (rules: Ruleset): string => (
+  `${rules.cols}x${rules.rows}h${rules.hiddenRows}c${rules.colorCount}p${rules.popSize}s${rules.spawnX}`
+)
+
+export const decodeRuleset = (code: string): Ruleset | null => {
+  const match = /^(\d+)x(\d+)h(\d+)c(\d+)p(\d+)s(\d+)$/.exec(code)
+  if (!match) return null
+  const [cols, rows, hiddenRows, colorCount, popSize, spawnX] = match.slice(1).map(Number)
+  return normalizeRuleset({ cols, rows, hiddenRows, colorCount, popSize, spawnX, nextCount: DEFAULT_RULESET.nextCount })
+}
+
+export const loadRuleset = (): Ruleset => {
+  try {
+    return normalizeRuleset(JSON.parse(localStorage.getItem(RULESET_KEY) ?? '{}'))
+  } catch {
+    return { ...DEFAULT_RULESET }
+  }
+}
+
+export const saveRuleset = (rules: Ruleset) => {
+  localStorage.setItem(RULESET_KEY, JSON.stringify(rules))
+}
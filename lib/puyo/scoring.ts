@@ -0,0 +1,79 @@
+// 得点計算のルール
+// 'tsu' は ぷよぷよ通 の公式な計算式、'classic' は以前からのこのゲーム独自の計算式
+
+import type { Cell } from './engine'
+
+// Types
+export type ScoringRule = 'tsu' | 'classic'
+
+// 連鎖1段分の得点の内訳
+export interface LinkScore {
+  cleared: number
+  chainPower: number
+  colorBonus: number
+  groupBonus: number
+  multiplier: number
+  points: number
+}
+
+export interface Scoring {
+  scoreLink: (groups: Cell[][], chain: number) => LinkScore
+  dropPoints: (rows: number) => number // ソフトドロップ・ハードドロップで落とした段数に応じた得点
+  allClearBonus: number                // 全消し後の次の連鎖に加算する得点
+}
+
+// Constants
+export const SCORING_RULES: ScoringRule[] = ['tsu', 'classic']
+export const DEFAULT_SCORING_RULE: ScoringRule = 'tsu'
+
+const TSU_CHAIN_POWER = [0, 8, 16, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448, 480, 512]
+const TSU_COLOR_BONUS = [0, 3, 6, 12, 24]
+const TSU_GROUP_BONUS = [0, 2, 3, 4, 5, 6, 7, 10] // 4個, 5個, … 11個以上
+const TSU_MAX_MULTIPLIER = 999
+
+const lookup = (table: number[], index: number) => table[Math.min(Math.max(index, 0), table.length - 1)]
+
+const tsu: Scoring = {
+  scoreLink: (groups, chain) => {
+    const cleared = groups.reduce((sum, group) => sum + group.length, 0)
+    const chainPower = lookup(TSU_CHAIN_POWER, chain - 1)
+    const colorBonus = lookup(TSU_COLOR_BONUS, new Set(groups.map(group => group[0].color)).size - 1)
+    const groupBonus = groups.reduce((sum, group) => sum + lookup(TSU_GROUP_BONUS, group.length - 4), 0)
+    const multiplier = Math.min(Math.max(chainPower + colorBonus + groupBonus, 1), TSU_MAX_MULTIPLIER)
+    return { cleared, chainPower, colorBonus, groupBonus, multiplier, points: cleared * 10 * multiplier }
+  },
+  dropPoints: rows => rows,
+  allClearBonus: 2100
+}
+
+const classic: Scoring = {
+  scoreLink: (groups, chain) => {
+    const cleared = groups.reduce((sum, group) => sum + group.length, 0)
+    const chainMultiplier = Math.pow(2, chain - 1)
+    const groupSizeBonus = Math.max(0, cleared - 4) * 5
+    return {
+      cleared,
+      chainPower: chainMultiplier,
+      colorBonus: 0,
+      groupBonus: groupSizeBonus,
+      multiplier: chainMultiplier,
+      points: cleared * 10 * chainMultiplier + groupSizeBonus
+    }
+  },
+  dropPoints: () => 0,
+  allClearBonus: 0
+}
+
+export const SCORING: Record<ScoringRule, Scoring> = { tsu, classic }
+
+export const SCORING_LABELS: Record<ScoringRule, string> = {
+  tsu: 'ぷよぷよ通',
+  classic: 'クラシック'
+}
+
+// HUD に出す内訳の文字列
+export const describeLinkScore = (rule: ScoringRule, score: LinkScore): string => (
+  rule === 'tsu'
+    ? `${score.cleared * 10} × (${score.chainPower} + ${score.colorBonus} + ${score.groupBonus}) = ${score.points}`
+    : `${score.cleared * 10} × ${score.multiplier} + ${score.groupBonus} = ${score.points}`
+)
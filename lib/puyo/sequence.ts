@@ -0,0 +1,105 @@
+// シード付き乱数によるツモ（配ぷよ）生成
+// 状態はすべて数値で持つので、同じシードからは常に同じ順番でぷよが配られる
+
+import type { PuyoColor } from './engine'
+
+// Types
+export interface SequenceOptions {
+  colorCount: number
+  threeColorStart: boolean // 公式ルールと同じく最初の2手を3色に限定する
+}
+
+export interface SequenceState {
+  seed: number
+  rng: number
+  colors: PuyoColor[]
+  drawn: number
+  options: SequenceOptions
+}
+
+export interface PairColors {
+  color1: PuyoColor
+  color2: PuyoColor
+}
+
+// Constants
+export const COLORS: PuyoColor[] = ['red', 'green', 'blue', 'yellow', 'purple']
+export const MIN_COLOR_COUNT = 3
+export const DEFAULT_SEQUENCE_OPTIONS: SequenceOptions = {
+  colorCount: COLORS.length,
+  threeColorStart: false
+}
+const MAX_SEED = 0xFFFFFFFF
+const THREE_COLOR_PAIRS = 2
+
+// mulberry32: [0, 1) の乱数と次の内部状態を返す
+export const nextRandom = (rng: number): [number, number] => {
+  const next = (rng + 0x6D2B79F5) | 0
+  let t = next
+  t = Math.imul(t ^ (t >>> 15), t | 1)
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+  return [((t ^ (t >>> 14)) >>> 0) / 4294967296, next]
+}
+
+const nextInt = (rng: number, max: number): [number, number] => {
+  const [value, next] = nextRandom(rng)
+  return [Math.floor(value * max), next]
+}
+
+export const randomSeed = (): number => Math.floor(Math.random() * (MAX_SEED + 1))
+
+// 入力されたシード文字列を検証する。不正な場合は null
+export const parseSeed = (input: string): number | null => {
+  const trimmed = input.trim()
+  if (!/^\d+$/.test(trimmed)) return null
+  const seed = Number(trimmed)
+  return seed <= MAX_SEED ? seed : null
+}
+
+export const createSequence = (seed: number, options: SequenceOptions = DEFAULT_SEQUENCE_OPTIONS): SequenceState => {
+  const colorCount = Math.min(Math.max(options.colorCount, MIN_COLOR_COUNT), COLORS.length)
+
+  // 使う色をシードから決める（Fisher-Yates）
+  const shuffled = [...COLORS]
+  let rng = seed | 0
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const [j, next] = nextInt(rng, i + 1)
+    const swapped = shuffled[i]
+    shuffled[i] = shuffled[j]
+    shuffled[j] = swapped
+    rng = next
+  }
+
+  return {
+    seed,
+    rng,
+    colors: shuffled.slice(0, colorCount),
+    drawn: 0,
+    options: { ...options, colorCount }
+  }
+}
+
+export const drawPair = (sequence: SequenceState): [PairColors, SequenceState] => {
+  const palette = sequence.options.threeColorStart && sequence.drawn < THREE_COLOR_PAIRS
+    ? sequence.colors.slice(0, MIN_COLOR_COUNT)
+    : sequence.colors
+
+  const [index1, rng1] = nextInt(sequence.rng, palette.length)
+  const [index2, rng2] = nextInt(rng1, palette.length)
+
+  return [
+    { color1: palette[index1], color2: palette[index2] },
+    { ...sequence, rng: rng2, drawn: sequence.drawn + 1 }
+  ]
+}
+
+export const drawPairs = (sequence: SequenceState, count: number): [PairColors[], SequenceState] => {
+  const pairs: PairColors[] = []
+  let current = sequence
+  for (let i = 0; i < count; i++) {
+    const [pair, next] = drawPair(current)
+    pairs.push(pair)
+    current = next
+  }
+  return [pairs, current]
+}
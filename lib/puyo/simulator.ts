@@ -0,0 +1,161 @@
+// React やブラウザを使わずにゲームを最後まで進めるシミュレーター
+// 置き方（ポリシー）を差し替えて何ゲームも回し、得点や連鎖の分布を集計する（npm run simulate から使う）
+// AI と同じく標準ルールの盤面だけを扱う（色数と得点計算は選べる）
+
+import { ControlAction, EngineState, createInitialState, step } from './engine'
+import { AiInput, DIFFICULTIES, Difficulty, Placement, columnHeight, decide, listPlacements, planActions, simulatePlacement } from './ai'
+import { DEFAULT_SEQUENCE_OPTIONS, nextRandom } from './sequence'
+import { ScoringRule } from './scoring'
+import { DEFAULT_RULESET } from './ruleset'
+
+// Types
+// 次に置く位置を決める。null なら置き場所がないとみなしてその場に落とす
+export type Policy = (input: AiInput, random: () => number) => Placement | null
+
+export interface SimulationOptions {
+  scoring: ScoringRule
+  colorCount: number
+  maxPieces: number  // この数だけ置いたら窒息していなくても打ち切る
+}
+
+export interface GameResult {
+  seed: number
+  score: number
+  pieces: number            // 置いた数
+  toppedOut: boolean        // false なら maxPieces まで生き残った
+  maxChain: number
+  chainHistogram: number[]  // [連鎖数] = 回数（0 は使わない）
+}
+
+export interface SimulationSummary {
+  policy: string
+  games: number
+  seeds: { from: number, to: number }
+  scoring: ScoringRule
+  colorCount: number
+  maxPieces: number
+  meanScore: number
+  maxScore: number
+  meanPieces: number                // 生き残った手数の平均
+  survivalRate: number              // maxPieces まで生き残ったゲームの割合
+  maxChainDistribution: number[]    // [最大連鎖数] = ゲーム数（0 は連鎖なし）
+  elapsedMs: number
+  gamesPerSecond: number
+  results?: GameResult[]
+}
+
+// Constants
+export const DEFAULT_SIMULATION_OPTIONS: SimulationOptions = {
+  scoring: 'tsu',
+  colorCount: DEFAULT_RULESET.colorCount,
+  maxPieces: 1000
+}
+const POLICY_RNG_SALT = 0x2545F491 // ツモと同じ乱数列にならないようにずらす
+
+// Helper functions
+// シードから決まる乱数。同じシードなら random ポリシーや CPU のミスも毎回同じになる
+const createRandom = (seed: number): (() => number) => {
+  let rng = seed ^ POLICY_RNG_SALT
+  return () => {
+    const [value, next] = nextRandom(rng)
+    rng = next
+    return value
+  }
+}
+
+export const toAiInput = (state: EngineState): AiInput => ({
+  grid: state.grid,
+  pairs: [state.current, ...state.next].flatMap(pair => pair ? [{ color1: pair.color1, color2: pair.color2 }] : []),
+  pendingGarbage: state.pendingGarbage,
+  from: state.current ? { x: state.current.x, y: state.current.y } : undefined
+})
+
+// 置ける場所から一様に選ぶ
+const randomPolicy: Policy = (input, random) => {
+  const placements = listPlacements(input.grid, input.pairs[0], input.from)
+  return placements.length > 0 ? placements[Math.floor(random() * placements.length)] : null
+}
+
+// その手で入る得点が最も高い場所。同点なら窒息せず、一番高い列が低くなる場所
+const greedyPolicy: Policy = (input) => {
+  let best: { placement: Placement, points: number, height: number } | null = null
+  for (const placement of listPlacements(input.grid, input.pairs[0], input.from)) {
+    const result = simulatePlacement(input.grid, input.pairs[0], placement)
+    const points = result.dead ? -1 : result.points
+    const height = Math.max(...result.grid[0].map((_, x) => columnHeight(result.grid, x)))
+    if (!best || points > best.points || (points === best.points && height < best.height)) {
+      best = { placement, points, height }
+    }
+  }
+  return best?.placement ?? null
+}
+
+const cpuPolicy = (difficulty: Difficulty): Policy => (input, random) => decide(input, DIFFICULTIES[difficulty], random)
+
+export const BUILTIN_POLICIES: Record<string, Policy> = {
+  random: randomPolicy,
+  greedy: greedyPolicy,
+  easy: cpuPolicy('easy'),
+  normal: cpuPolicy('normal'),
+  hard: cpuPolicy('hard')
+}
+
+// 今のぷよをポリシーが選んだ場所へ置くまでの操作。置き場所がなければその場に落とす
+export const planPolicyActions = (state: EngineState, policy: Policy, random: () => number): ControlAction[] => {
+  const placement = policy(toAiInput(state), random)
+  return (placement && planActions(state, placement)) ?? ['hardDrop']
+}
+
+// 1ゲームを窒息するか maxPieces に届くまで進める
+export const simulateGame = (seed: number, policy: Policy, options: SimulationOptions = DEFAULT_SIMULATION_OPTIONS): GameResult => {
+  const random = createRandom(seed)
+  const rules = { ...DEFAULT_RULESET, colorCount: options.colorCount }
+  let state = createInitialState(seed, DEFAULT_SEQUENCE_OPTIONS, options.scoring, rules)
+  const result: GameResult = { seed, score: 0, pieces: 0, toppedOut: false, maxChain: 0, chainHistogram: [] }
+
+  while (state.status === 'active' && result.pieces < options.maxPieces) {
+    for (const action of planPolicyActions(state, policy, random)) {
+      const { state: next, events } = step(state, action)
+      let chain = 0
+      events.forEach(event => {
+        if (event.type === 'lock') result.pieces++
+        if (event.type === 'chain') chain = event.link.chain
+      })
+      if (chain > 0) {
+        result.chainHistogram[chain] = (result.chainHistogram[chain] ?? 0) + 1
+        result.maxChain = Math.max(result.maxChain, chain)
+      }
+      state = next
+    }
+  }
+
+  result.score = state.score
+  result.toppedOut = state.status === 'over'
+  result.chainHistogram = Array.from(result.chainHistogram, count => count ?? 0)
+  return result
+}
+
+export const summarizeResults = (policy: string, results: GameResult[], options: SimulationOptions, elapsedMs: number): SimulationSummary => {
+  const games = results.length
+  const mean = (values: number[]) => games > 0 ? values.reduce((sum, value) => sum + value, 0) / games : 0
+  const maxChainDistribution: number[] = []
+  results.forEach(({ maxChain }) => {
+    maxChainDistribution[maxChain] = (maxChainDistribution[maxChain] ?? 0) + 1
+  })
+
+  return {
+    policy,
+    games,
+    seeds: { from: results[0]?.seed ?? 0, to: results[games - 1]?.seed ?? 0 },
+    scoring: options.scoring,
+    colorCount: options.colorCount,
+    maxPieces: options.maxPieces,
+    meanScore: mean(results.map(result => result.score)),
+    maxScore: Math.max(0, ...results.map(result => result.score)),
+    meanPieces: mean(results.map(result => result.pieces)),
+    survivalRate: mean(results.map(result => result.toppedOut ? 0 : 1)),
+    maxChainDistribution: Array.from(maxChainDistribution, count => count ?? 0),
+    elapsedMs: Math.round(elapsedMs),
+    gamesPerSecond: elapsedMs > 0 ? games / (elapsedMs / 1000) : 0
+  }
+}
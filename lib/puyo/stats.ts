@@ -0,0 +1,131 @@
+// 1ゲーム分の成績
+// プレイ中に数えるのではなく、ゲーム終了後にリプレイを再生して集計する
+
+import { PuyoColor, createInitialState, step } from './engine'
+import { Replay } from './replay'
+import { COLORS } from './sequence'
+import { ScoringRule } from './scoring'
+import { GameModeId } from './modes'
+import { Ruleset } from './ruleset'
+
+// Types
+export type ClearedCounts = Partial<Record<NonNullable<PuyoColor>, number>>
+
+export interface GameStats {
+  id?: number               // 履歴に保存したときのキー
+  playedAt: string
+  mode: GameModeId
+  seed: number
+  scoring: ScoringRule
+  colorCount: number
+  rules?: Ruleset           // ルールが選べるようになる前の記録にはない
+  score: number
+  duration: number          // ミリ秒
+  piecesPlaced: number
+  piecesPerMinute: number
+  maxChain: number
+  chainHistogram: number[]  // [連鎖数] = 回数（0 は使わない）
+  clearedByColor: ClearedCounts
+  holds: number
+  hardDrops: number
+}
+
+// 直近のゲームを比べるときの平均
+export interface StatsAverage {
+  games: number
+  score: number
+  duration: number
+  piecesPerMinute: number
+  maxChain: number
+}
+
+// Constants
+export const CLEARED_COLORS: NonNullable<PuyoColor>[] = [...COLORS, 'garbage'] as NonNullable<PuyoColor>[]
+
+export const computeGameStats = (replay: Replay): GameStats => {
+  let state = createInitialState(replay.seed, replay.options, replay.scoring, replay.rules)
+  const stats: GameStats = {
+    playedAt: replay.recordedAt,
+    mode: replay.mode,
+    seed: replay.seed,
+    scoring: replay.scoring,
+    colorCount: replay.rules.colorCount,
+    rules: replay.rules,
+    score: 0,
+    duration: replay.duration,
+    piecesPlaced: 0,
+    piecesPerMinute: 0,
+    maxChain: 0,
+    chainHistogram: [],
+    clearedByColor: {},
+    holds: 0,
+    hardDrops: 0
+  }
+
+  const addCleared = (color: PuyoColor) => {
+    if (color) stats.clearedByColor[color] = (stats.clearedByColor[color] ?? 0) + 1
+  }
+
+  for (const [, action] of replay.inputs) {
+    const { state: next, events } = step(state, action)
+    let chain = 0
+    events.forEach(event => {
+      if (event.type === 'lock') {
+        stats.piecesPlaced++
+        if (action === 'hardDrop') stats.hardDrops++
+      }
+      if (event.type === 'hold') stats.holds++
+      if (event.type === 'chain') {
+        chain = event.link.chain
+        event.link.cleared.forEach(cell => addCleared(cell.color))
+        event.link.clearedGarbage.forEach(cell => addCleared(cell.color))
+      }
+    })
+    if (chain > 0) {
+      stats.chainHistogram[chain] = (stats.chainHistogram[chain] ?? 0) + 1
+      stats.maxChain = Math.max(stats.maxChain, chain)
+    }
+    state = next
+  }
+
+  stats.score = state.score
+  stats.chainHistogram = Array.from(stats.chainHistogram, count => count ?? 0)
+  stats.piecesPerMinute = replay.duration > 0 ? stats.piecesPlaced / (replay.duration / 60000) : 0
+  return stats
+}
+
+export const averageStats = (games: GameStats[]): StatsAverage => {
+  const average = (value: (stats: GameStats) => number) => (
+    games.length > 0 ? games.reduce((sum, stats) => sum + value(stats), 0) / games.length : 0
+  )
+  return {
+    games: games.length,
+    score: average(stats => stats.score),
+    duration: average(stats => stats.duration),
+    piecesPerMinute: average(stats => stats.piecesPerMinute),
+    maxChain: average(stats => stats.maxChain)
+  }
+}
+
+// 複数ゲームの連鎖数の分布を足し合わせる
+export const mergeHistograms = (games: GameStats[]): number[] => {
+  const merged: number[] = []
+  games.forEach(stats => stats.chainHistogram.forEach((count, chain) => {
+    merged[chain] = (merged[chain] ?? 0) + count
+  }))
+  return Array.from(merged, count => count ?? 0)
+}
+
+export const mergeCleared = (games: GameStats[]): ClearedCounts => {
+  const merged: ClearedCounts = {}
+  games.forEach(stats => CLEARED_COLORS.forEach(color => {
+    const count = stats.clearedByColor[color]
+    if (count) merged[color] = (merged[color] ?? 0) + count
+  }))
+  return merged
+}
+
+export const formatDuration = (ms: number): string => {
+  const seconds = Math.floor(ms / 1000)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
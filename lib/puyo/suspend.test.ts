@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { EngineEvent, EngineState, createInitialState } from './engine'
+import { DEFAULT_SEQUENCE_OPTIONS } from './sequence'
+import { INITIAL_FALL_SPEED, countCleared } from './modes'
+import { Replay, createReplay, recordInput } from './replay'
+import { loadSuspendedGame, saveSuspendedGame } from './suspend'
+import { playGreedyUntil } from './testing'
+
+// Constants
+const SEED = 7
+const INPUT_INTERVAL = 100
+
+// Helper functions
+// 貪欲法で置き続け、最初に連鎖した固定の直後（画面では連鎖のアニメーション中）で止める
+// 最初の連鎖で止めるので、それまでに消した数は 0
+const playUntilChain = () => {
+  const initial = createReplay(SEED, DEFAULT_SEQUENCE_OPTIONS, 'tsu')
+  const { actions, state, events } = playGreedyUntil(
+    createInitialState(initial.seed, initial.options, initial.scoring, initial.rules),
+    events => events.some(event => event.type === 'chain')
+  )
+  const replay = actions.reduce((replay, action, index) => recordInput(replay, (index + 1) * INPUT_INTERVAL, action), initial)
+  return { replay, engine: state, cleared: 0, pendingEvents: events }
+}
+
+const saveMidChain = (game: { replay: Replay, engine: EngineState, cleared: number, pendingEvents: EngineEvent[] }) => {
+  saveSuspendedGame({
+    engine: game.engine,
+    elapsed: game.replay.duration,
+    cleared: game.cleared + countCleared(game.pendingEvents),
+    fallSpeed: INITIAL_FALL_SPEED,
+    replay: game.replay
+  })
+}
+
+describe('suspended games', () => {
+  const storage = new Map<string, string>()
+
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key)
+    })
+  })
+
+  afterEach(() => {
+    storage.clear()
+    vi.unstubAllGlobals()
+  })
+
+  it('restores a save made during a chain animation', () => {
+    const game = playUntilChain()
+    saveMidChain(game)
+
+    const restored = loadSuspendedGame()
+    expect(restored?.engine).toEqual(game.engine)
+    expect(restored?.cleared).toBe(game.cleared + countCleared(game.pendingEvents))
+    expect(restored?.cleared).toBeGreaterThan(game.cleared)
+  })
+
+  it('matches the state rebuilt from the input log', () => {
+    const game = playUntilChain()
+    saveMidChain(game)
+    const saved = loadSuspendedGame()
+
+    // 状態を壊して入力ログから作り直させても、保存した内容と同じになる
+    const [key, raw] = [...storage][0]
+    storage.set(key, JSON.stringify({ ...JSON.parse(raw), engine: null }))
+    const rebuilt = loadSuspendedGame()
+    expect(rebuilt?.engine).toEqual(saved?.engine)
+    expect(rebuilt?.cleared).toBe(saved?.cleared)
+  })
+})
@@ -0,0 +1,123 @@
+// 中断セーブ（ひとり用のゲームを途中で保存し、次に開いたときに続きから遊ぶ）
+// 盤面などの状態に加えて入力ログ（リプレイ）も残し、状態が使えなくなったときは入力ログから作り直す
+
+import { EngineState, PuyoPair, createInitialState, step } from './engine'
+import { COLORS } from './sequence'
+import { INITIAL_FALL_SPEED, countCleared } from './modes'
+import { Replay, parseReplay } from './replay'
+
+// Types
+export interface SuspendedGame {
+  version: typeof SAVE_VERSION
+  savedAt: string
+  engine: EngineState  // 盤面・操作中のぷよ・ネクスト・ホールド・スコア・乱数の状態
+  elapsed: number      // ポーズを除いた経過ミリ秒
+  cleared: number      // 消した色ぷよの数
+  fallSpeed: number    // 保存した時点の落下間隔（ミリ秒）
+  replay: Replay       // ここまでの入力ログ
+}
+
+type SaveData = Record<string, unknown>
+
+// Constants
+export const SAVE_VERSION = 1
+const SUSPENDED_GAME_KEY = 'puyoPuyoSuspendedGame'
+const CELL_VALUES: unknown[] = [...COLORS, 'garbage', null]
+
+// 古い形式のセーブを1つ新しい形式に変換する。キーは変換前のバージョン
+// 形式を変えたら SAVE_VERSION を上げ、ここに前のバージョンからの変換を足す
+const MIGRATIONS: Record<number, (data: SaveData) => SaveData> = {}
+
+// Helper functions
+const isPair = (value: unknown, cols: number): value is PuyoPair => {
+  const pair = value as Partial<PuyoPair> | null
+  return typeof pair === 'object' && pair !== null &&
+    CELL_VALUES.includes(pair.color1) && CELL_VALUES.includes(pair.color2) &&
+    typeof pair.x === 'number' && pair.x >= 0 && pair.x < cols &&
+    typeof pair.y === 'number' && typeof pair.rotation === 'number'
+}
+
+// 保存した状態が今のルールの盤面としてそのまま使えるか
+const isUsableEngine = (value: unknown, replay: Replay): value is EngineState => {
+  const engine = value as Partial<EngineState> | null
+  if (typeof engine !== 'object' || engine === null) return false
+  const { rows, hiddenRows, cols } = replay.rules
+  return engine.status === 'active' &&
+    typeof engine.score === 'number' &&
+    typeof engine.canHold === 'boolean' &&
+    Array.isArray(engine.grid) && engine.grid.length === rows + hiddenRows &&
+    engine.grid.every(row => Array.isArray(row) && row.length === cols && row.every(cell => CELL_VALUES.includes(cell))) &&
+    (engine.current === null || isPair(engine.current, cols)) &&
+    (engine.held === null || isPair(engine.held, cols)) &&
+    Array.isArray(engine.next) && engine.next.every(pair => isPair(pair, cols)) &&
+    typeof engine.sequence?.rng === 'number' && typeof engine.sequence.drawn === 'number'
+}
+
+// 入力ログを最初から適用して、保存した時点の状態と消した数を作り直す
+const rebuildFromReplay = (replay: Replay): { engine: EngineState, cleared: number } => {
+  let engine = createInitialState(replay.seed, replay.options, replay.scoring, replay.rules)
+  let cleared = 0
+  replay.inputs.forEach(([, action]) => {
+    const result = step(engine, action)
+    engine = result.state
+    cleared += countCleared(result.events)
+  })
+  return { engine, cleared }
+}
+
+// 保存されたデータを今のバージョンの形式にする。続きから遊べないものは null、入力ログが壊れていれば Error を投げる
+const migrateSuspendedGame = (data: unknown): SuspendedGame | null => {
+  if (typeof data !== 'object' || data === null) return null
+  let save = data as SaveData
+  let version = typeof save.version === 'number' ? save.version : 0
+  if (version > SAVE_VERSION) return null // 新しいバージョンのアプリで保存されたもの
+  while (version < SAVE_VERSION) {
+    const migrate = MIGRATIONS[version]
+    if (!migrate) return null
+    save = migrate(save)
+    version++
+  }
+
+  // ルールや得点計算の項目は入力ログと同じ方法で検証・補完する
+  const replay = parseReplay(JSON.stringify(save.replay))
+  const lastInput = replay.inputs.length > 0 ? replay.inputs[replay.inputs.length - 1][0] : 0
+  const elapsed = typeof save.elapsed === 'number' && save.elapsed >= lastInput ? save.elapsed : lastInput
+
+  // 状態に足りない項目は初期状態の値で埋める。盤面の大きさが合わないなどで使えなければ入力ログから作り直す
+  const initial = createInitialState(replay.seed, replay.options, replay.scoring, replay.rules)
+  const restored = isUsableEngine(save.engine, replay)
+    ? {
+        engine: { ...initial, ...save.engine, scoring: replay.scoring, rules: replay.rules },
+        cleared: typeof save.cleared === 'number' ? save.cleared : rebuildFromReplay(replay).cleared
+      }
+    : rebuildFromReplay(replay)
+  if (restored.engine.status !== 'active') return null
+
+  return {
+    version: SAVE_VERSION,
+    savedAt: typeof save.savedAt === 'string' ? save.savedAt : '',
+    engine: restored.engine,
+    elapsed,
+    cleared: restored.cleared,
+    fallSpeed: typeof save.fallSpeed === 'number' && save.fallSpeed > 0 ? save.fallSpeed : INITIAL_FALL_SPEED,
+    replay
+  }
+}
+
+export const loadSuspendedGame = (): SuspendedGame | null => {
+  try {
+    const stored = localStorage.getItem(SUSPENDED_GAME_KEY)
+    return stored ? migrateSuspendedGame(JSON.parse(stored)) : null
+  } catch {
+    return null
+  }
+}
+
+export const saveSuspendedGame = (game: Omit<SuspendedGame, 'version' | 'savedAt'>) => {
+  const save: SuspendedGame = { version: SAVE_VERSION, savedAt: new Date().toISOString(), ...game }
+  localStorage.setItem(SUSPENDED_GAME_KEY, JSON.stringify(save))
+}
+
+export const clearSuspendedGame = () => {
+  localStorage.removeItem(SUSPENDED_GAME_KEY)
+}
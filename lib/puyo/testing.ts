@@ -0,0 +1,23 @@
+// テストで使うゲームの進め方
+// 貪欲法のポリシーで置き続け、条件を満たすイベントが出た操作で止める
+
+import { ControlAction, EngineEvent, EngineState, step } from './engine'
+import { BUILTIN_POLICIES, planPolicyActions } from './simulator'
+
+// Constants
+const MAX_PIECES = 200
+
+// stop が true を返した操作までの操作列と、その直後の状態・イベントを返す。起きないまま終わったら Error を投げる
+export const playGreedyUntil = (initial: EngineState, stop: (events: EngineEvent[]) => boolean): { actions: ControlAction[], state: EngineState, events: EngineEvent[] } => {
+  const actions: ControlAction[] = []
+  let state = initial
+  for (let piece = 0; piece < MAX_PIECES && state.status === 'active'; piece++) {
+    for (const action of planPolicyActions(state, BUILTIN_POLICIES.greedy, Math.random)) {
+      const result = step(state, action)
+      actions.push(action)
+      state = result.state
+      if (stop(result.events)) return { actions, state, events: result.events }
+    }
+  }
+  throw new Error('the game ended before the expected event')
+}
@@ -0,0 +1,23 @@
+// とこぷよ練習：ネクストの引き直し・書き換えと発火テスト
+
+import { ChainLink, EngineState, Grid, PuyoColor, spawnPair, step } from './engine'
+import { PairColors, createSequence, drawPairs } from './sequence'
+
+// ネクストを別のシードで配り直す。色数などの設定はそのまま
+export const rerollQueue = (state: EngineState, seed: number): EngineState => {
+  const [drawn, sequence] = drawPairs(createSequence(seed, state.sequence.options), state.next.length)
+  return { ...state, next: drawn.map(pair => spawnPair(pair, state.rules)), sequence }
+}
+
+export const editQueuePair = (state: EngineState, index: number, key: keyof PairColors, color: PuyoColor): EngineState => ({
+  ...state,
+  next: state.next.map((pair, i) => i === index ? { ...pair, [key]: color } : pair)
+})
+
+// 今の位置からハードドロップした場合の着地後の盤面と連鎖。状態は変えない
+export const previewPlacement = (state: EngineState): { grid: Grid, links: ChainLink[] } | null => {
+  const { events } = step(state, 'hardDrop')
+  const lock = events.find(event => event.type === 'lock')
+  if (!lock || lock.type !== 'lock') return null
+  return { grid: lock.grid, links: events.flatMap(event => event.type === 'chain' ? [event.link] : []) }
+}
@@ -0,0 +1,69 @@
+// localStorage に保存するユーザー設定
+
+import { DEFAULT_THEME, ThemeId, isThemeId } from './theme'
+import { LanguageSetting, isLanguageSetting } from './i18n'
+
+// Types
+export interface Settings {
+  showGhost: boolean       // 着地位置のゴーストを表示する
+  showPopPreview: boolean  // 置いたら消えるぷよを強調する
+  das: number              // 左右を押し続けてからリピートが始まるまで（ミリ秒）
+  arr: number              // 左右リピートの間隔（ミリ秒）。0 なら壁まで一気に動く
+  softDropInterval: number // 下を押している間に1マス落ちる間隔（ミリ秒）
+  lockDelay: number        // 接地してから固定されるまで（ミリ秒）
+  masterVolume: number     // 音量（0〜100）
+  sfxVolume: number
+  musicVolume: number
+  muted: boolean
+  theme: ThemeId
+  colorShapes: boolean     // ぷよに色ごとの記号を重ねる
+  language: LanguageSetting // 'auto' ならブラウザの言語に合わせる
+  touchMoveDistance: number  // タッチで横にこれだけ（px）ドラッグするごとに1列動く
+  touchDropDistance: number  // 下にこれだけ（px）ドラッグするごとに1段落とす
+  touchFlickDistance: number // 素早くこれ以上（px）下にはじくとハードドロップ
+  virtualPad: boolean        // 画面上に操作ボタンを出す
+}
+
+// Constants
+export const SETTINGS_KEY = 'puyoPuyoSettings'
+export const DEFAULT_SETTINGS: Settings = {
+  showGhost: true,
+  showPopPreview: false,
+  das: 150,
+  arr: 50,
+  softDropInterval: 40,
+  lockDelay: 500,
+  masterVolume: 80,
+  sfxVolume: 80,
+  musicVolume: 50,
+  muted: false,
+  theme: DEFAULT_THEME,
+  colorShapes: false,
+  language: 'auto',
+  touchMoveDistance: 24,
+  touchDropDistance: 24,
+  touchFlickDistance: 80,
+  virtualPad: false
+}
+
+// 保存された設定を読み込む。壊れている項目は既定値に戻す
+export const loadSettings = (): Settings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}')
+    const settings = { ...DEFAULT_SETTINGS }
+    ;(Object.keys(DEFAULT_SETTINGS) as (keyof Settings)[]).forEach(key => {
+      if (typeof stored[key] === typeof DEFAULT_SETTINGS[key]) {
+        (settings as Record<keyof Settings, unknown>)[key] = stored[key]
+      }
+    })
+    if (!isThemeId(settings.theme)) settings.theme = DEFAULT_THEME
+    if (!isLanguageSetting(settings.language)) settings.language = DEFAULT_SETTINGS.language
+    return settings
+  } catch {
+    return { ...DEFAULT_SETTINGS }
+  }
+}
+
+export const saveSettings = (settings: Settings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings))
+}
@@ -0,0 +1,102 @@
+// 配色テーマと色覚に頼らない表示
+// 選んだテーマは <html> の data 属性と CSS 変数に反映し、canvas の盤面も同じ値を読む
+
+import { PuyoColor } from './puyo/engine'
+
+// Types
+export type ThemeId = 'classic' | 'highContrast' | 'deuteranopia' | 'protanopia' | 'dark'
+type PuyoColorName = NonNullable<PuyoColor>
+
+export interface Theme {
+  id: ThemeId
+  puyo: Record<PuyoColorName, string>
+  outline: string | null  // ぷよの縁取り（null なら描かない）
+  glyph: string           // 記号の色
+  background: string      // 盤面の地
+  gridLine: string
+}
+
+export interface Appearance {
+  theme: Theme
+  shapes: boolean // 色ごとの記号を重ねる
+}
+
+// Constants
+export const THEME_IDS: ThemeId[] = ['classic', 'highContrast', 'deuteranopia', 'protanopia', 'dark']
+export const DEFAULT_THEME: ThemeId = 'classic'
+
+export const THEMES: Record<ThemeId, Theme> = {
+  classic: {
+    id: 'classic',
+    puyo: { red: '#EF4444', green: '#10B981', blue: '#3B82F6', yellow: '#F59E0B', purple: '#9333EA', garbage: '#9CA3AF' },
+    outline: null,
+    glyph: 'rgba(255, 255, 255, 0.9)',
+    background: '#F3F4F6',
+    gridLine: '#D1D5DB'
+  },
+  // 黒地に明るい色と白い縁取り
+  highContrast: {
+    id: 'highContrast',
+    puyo: { red: '#FF3B30', green: '#34FF5A', blue: '#2F8BFF', yellow: '#FFE600', purple: '#E040FB', garbage: '#BDBDBD' },
+    outline: '#FFFFFF',
+    glyph: '#000000',
+    background: '#000000',
+    gridLine: '#4B4B4B'
+  },
+  // Okabe–Ito の配色。赤と緑を明るさの違う朱色と青緑に置き換える
+  deuteranopia: {
+    id: 'deuteranopia',
+    puyo: { red: '#D55E00', green: '#009E73', blue: '#56B4E9', yellow: '#F0E442', purple: '#CC79A7', garbage: '#999999' },
+    outline: '#333333',
+    glyph: '#000000',
+    background: '#F3F4F6',
+    gridLine: '#D1D5DB'
+  },
+  // 赤が暗く見える人向けに、赤を明るい橙にして青を濃くする
+  protanopia: {
+    id: 'protanopia',
+    puyo: { red: '#E69F00', green: '#009E73', blue: '#0072B2', yellow: '#F0E442', purple: '#CC79A7', garbage: '#999999' },
+    outline: '#333333',
+    glyph: '#000000',
+    background: '#F3F4F6',
+    gridLine: '#D1D5DB'
+  },
+  dark: {
+    id: 'dark',
+    puyo: { red: '#F87171', green: '#34D399', blue: '#60A5FA', yellow: '#FBBF24', purple: '#C084FC', garbage: '#6B7280' },
+    outline: null,
+    glyph: 'rgba(17, 24, 39, 0.85)',
+    background: '#1F2937',
+    gridLine: '#374151'
+  }
+}
+
+// 色ごとの記号（色が見分けにくくても形で区別できる）
+export const PUYO_GLYPHS: Record<PuyoColorName, string> = {
+  red: '●',
+  green: '▲',
+  blue: '■',
+  yellow: '◆',
+  purple: '★',
+  garbage: '×'
+}
+
+export const isThemeId = (value: unknown): value is ThemeId => THEME_IDS.includes(value as ThemeId)
+
+export const applyAppearance = (themeId: ThemeId, shapes: boolean) => {
+  const theme = THEMES[themeId]
+  const root = document.documentElement
+  root.dataset.theme = theme.id
+  root.dataset.colorShapes = shapes ? 'on' : 'off'
+  ;(Object.keys(theme.puyo) as PuyoColorName[]).forEach(color => {
+    root.style.setProperty(`--puyo-${color}`, theme.puyo[color])
+  })
+  root.style.setProperty('--puyo-glyph', theme.glyph)
+  root.style.setProperty('--puyo-outline', theme.outline ?? 'transparent')
+}
+
+// 盤面は毎フレーム描き直すので、<html> に反映されている設定をその都度読む
+export const readAppearance = (): Appearance => {
+  const { theme, colorShapes } = document.documentElement.dataset
+  return { theme: THEMES[isThemeId(theme) ? theme : DEFAULT_THEME], shapes: colorShapes === 'on' }
+}
@@ -0,0 +1,78 @@
+// オフラインでも遊べるようにするサービスワーカー
+// ビルドごとにファイル名が変わる /_next/static/ はキャッシュ優先、ページはネットワーク優先で、つながらなければキャッシュを返す
+
+const CACHE_NAME = 'puyo-v1'
+// インストール時に取っておくページ（オンライン対戦とランキングはサーバーが必要なので除く）
+const PAGES = ['/', '/versus', '/local', '/puzzle', '/training', '/editor', '/replay', '/stats']
+const PRECACHE_URLS = [...PAGES, '/manifest.webmanifest', '/icons/icon-192.png', '/icons/icon-512.png']
+
+self.addEventListener('install', (event) => {
+  // 1つ取れなくてもインストールは続ける
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => Promise.all(PRECACHE_URLS.map(url => cache.add(url).catch(() => {}))))
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  )
+})
+
+// 登録する前に読み込まれたファイルはページから教えてもらってキャッシュする
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'cache' || !Array.isArray(event.data.urls)) return
+  event.waitUntil(
+    caches.open(CACHE_NAME).then(cache => Promise.all(
+      event.data.urls
+        .filter(url => {
+          const { origin, pathname } = new URL(url)
+          return origin === self.location.origin && !pathname.startsWith('/api/')
+        })
+        .map(url => cache.match(url).then(cached => cached ?? cache.add(url).catch(() => {})))
+    ))
+  )
+})
+
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request)
+  if (cached) return cached
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(CACHE_NAME)
+    cache.put(request, response.clone())
+  }
+  return response
+}
+
+const networkFirst = async (request) => {
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      const cache = await caches.open(CACHE_NAME)
+      cache.put(request, response.clone())
+    }
+    return response
+  } catch (error) {
+    const cached = await caches.match(request, { ignoreSearch: request.mode === 'navigate' })
+    if (cached) return cached
+    // 取っていないページはタイトル画面を出す
+    if (request.mode === 'navigate') {
+      const fallback = await caches.match('/')
+      if (fallback) return fallback
+    }
+    throw error
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  const url = new URL(request.url)
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return
+  if (url.pathname.startsWith('/api/')) return
+  event.respondWith(url.pathname.startsWith('/_next/static/') ? cacheFirst(request) : networkFirst(request))
+})
@@ -0,0 +1,43 @@
+// オンライン対戦用のカスタムサーバー
+// Next.js のページと対戦ルームの WebSocket を同じポートで配信する
+
+import { createServer } from 'http'
+import next from 'next'
+import { WebSocketServer } from 'ws'
+import { createRoomServer } from './lib/online/server'
+import { WEBSOCKET_PATH } from './lib/online/protocol'
+
+const dev = process.env.NODE_ENV !== 'production'
+const hostname = process.env.HOSTNAME ?? 'localhost'
+const port = Number(process.env.PORT ?? 3000)
+
+const app = next({ dev, hostname, port })
+const handle = app.getRequestHandler()
+
+app.prepare().then(() => {
+  const upgrade = app.getUpgradeHandler()
+  const rooms = createRoomServer()
+  const wss = new WebSocketServer({ noServer: true })
+
+  wss.on('connection', socket => {
+    const connection = rooms.connect({
+      send: data => socket.send(data),
+      close: () => socket.close()
+    })
+    socket.on('message', data => connection.message(data.toString()))
+    socket.on('close', () => connection.close())
+  })
+
+  const server = createServer((req, res) => handle(req, res))
+  server.on('upgrade', (req, socket, head) => {
+    if (req.url?.startsWith(WEBSOCKET_PATH)) {
+      wss.handleUpgrade(req, socket, head, ws => wss.emit('connection', ws, req))
+    } else {
+      upgrade(req, socket, head)
+    }
+  })
+
+  server.listen(port, () => {
+    console.log(`> Ready on http://${hostname}:${port}`)
+  })
+})